@@ -0,0 +1,52 @@
+// scripts/backfill-families.ts
+//
+// Links every student without a family to one, matching on the parent
+// email or phone from their registration. Run it once after
+// `prisma db push` adds the Family and Guardian tables:
+//
+//   npm run db:backfill-families
+//
+// Students are taken oldest first, so a family's history starts with its
+// first registration. Running it again only links students added since.
+
+import prisma from '../src/lib/prisma';
+import { recordAudit, type AuditActor } from '../src/lib/audit';
+import { linkStudentToFamily } from '../src/lib/families';
+
+const actor: AuditActor = { id: null, email: 'backfill-families' };
+
+async function main() {
+  const students = await prisma.student.findMany({
+    where: { familyId: null },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  let created = 0;
+  let merged = 0;
+
+  for (const student of students) {
+    const { audit } = await prisma.$transaction(async (tx) => {
+      const linked = await linkStudentToFamily(tx, student.id);
+      await recordAudit(tx, actor, linked.audit);
+      return linked;
+    });
+
+    for (const entry of audit) {
+      if (entry.entity !== 'Family') continue;
+      if (entry.action === 'CREATE') created += 1;
+      if (entry.action === 'DELETE') merged += 1;
+    }
+  }
+
+  console.log(
+    `Linked ${students.length} students: ${created} new families, ${merged} merged.`
+  );
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,70 @@
+// scripts/create-admin.mjs
+//
+// Creates an admin account, or resets the password of an existing one.
+//
+//   ADMIN_PASSWORD='…' npm run admin:create -- owner@bailakids.com "Owner Name"
+//   ADMIN_PASSWORD='…' npm run admin:create -- teacher@bailakids.com "Teacher" INSTRUCTOR KATY,SUGARLAND
+//
+// Roles: OWNER, OFFICE_STAFF, INSTRUCTOR, READ_ONLY (defaults to OWNER).
+// Instructors and read-only accounts only see the schools listed.
+
+import bcrypt from 'bcryptjs';
+import { PrismaClient } from '@prisma/client';
+
+const ROLES = ['OWNER', 'OFFICE_STAFF', 'INSTRUCTOR', 'READ_ONLY'];
+const SCHOOLS = [
+  'KATY',
+  'SUGARLAND',
+  'ALLEN',
+  'FRISCO',
+  'CASTLE_HILLS',
+  'NORTH_DALLAS',
+  'PRESTON_TRAIL',
+];
+
+const [email, name, role = 'OWNER', schoolList = ''] = process.argv.slice(2);
+const password = process.env.ADMIN_PASSWORD;
+const schools = schoolList
+  .split(',')
+  .map(school => school.trim().toUpperCase())
+  .filter(Boolean);
+
+if (!email || !name || !password) {
+  console.error(
+    'Usage: ADMIN_PASSWORD=<password> npm run admin:create -- <email> <name> [role] [SCHOOL,SCHOOL]'
+  );
+  process.exit(1);
+}
+
+if (!ROLES.includes(role)) {
+  console.error(`Unknown role ${role}. Use one of ${ROLES.join(', ')}`);
+  process.exit(1);
+}
+
+const unknownSchool = schools.find(school => !SCHOOLS.includes(school));
+if (unknownSchool) {
+  console.error(`Unknown school ${unknownSchool}`);
+  process.exit(1);
+}
+
+if (password.length < 10) {
+  console.error('ADMIN_PASSWORD must be at least 10 characters');
+  process.exit(1);
+}
+
+const prisma = new PrismaClient();
+
+try {
+  const passwordHash = await bcrypt.hash(password, 12);
+  const normalized = email.trim().toLowerCase();
+
+  const user = await prisma.adminUser.upsert({
+    where: { email: normalized },
+    create: { email: normalized, name, passwordHash, role, schools },
+    update: { name, passwordHash, role, schools, isActive: true },
+  });
+
+  console.log(`Admin ${user.email} (${user.role}) is ready.`);
+} finally {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,75 @@
+// scripts/create-term.mjs
+//
+// Adds a school term, or updates the label and dates of an existing one.
+//
+//   npm run term:create -- SPRING_2027 "Spring 2027" 2027-01-11 2027-05-21
+//   npm run term:create -- FALL_2027 "Fall 2027" 2027-08-23 2027-12-10 --current
+//
+// --current makes it the term the dashboard opens on (and unmarks the
+// previous one).
+
+import { PrismaClient } from '@prisma/client';
+
+const args = process.argv.slice(2);
+const makeCurrent = args.includes('--current');
+const [code, label, start, end] = args.filter(arg => arg !== '--current');
+
+if (!code || !label) {
+  console.error(
+    'Usage: npm run term:create -- <CODE> <label> [start YYYY-MM-DD] [end YYYY-MM-DD] [--current]'
+  );
+  process.exit(1);
+}
+
+if (!/^[A-Z][A-Z0-9_]{1,39}$/.test(code)) {
+  console.error('CODE must be upper case letters, digits and _, e.g. FALL_2027');
+  process.exit(1);
+}
+
+function parseDate(value, name) {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    console.error(`${name} must be a date like 2027-01-11`);
+    process.exit(1);
+  }
+  return date;
+}
+
+const startDate = parseDate(start, 'start');
+const endDate = parseDate(end, 'end');
+
+if (startDate && endDate && endDate < startDate) {
+  console.error('end must be on or after start');
+  process.exit(1);
+}
+
+const prisma = new PrismaClient();
+
+try {
+  const term = await prisma.$transaction(async tx => {
+    if (makeCurrent) {
+      await tx.term.updateMany({
+        where: { isCurrent: true, NOT: { code } },
+        data: { isCurrent: false },
+      });
+    }
+
+    return tx.term.upsert({
+      where: { code },
+      create: { code, label, startDate, endDate, isCurrent: makeCurrent },
+      update: {
+        label,
+        startDate,
+        endDate,
+        ...(makeCurrent ? { isCurrent: true, isActive: true } : {}),
+      },
+    });
+  });
+
+  console.log(
+    `Term ${term.code} (${term.label}) is ready${term.isCurrent ? ' and current' : ''}.`
+  );
+} finally {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,73 @@
+// scripts/fake-payment.mjs
+//
+// Plays the payment provider for a dashboard running with
+// PAYMENT_PROVIDER=fake (the default outside production): signs a payment
+// event with PAYMENT_WEBHOOK_SECRET and posts it to the webhook, so the
+// whole flow can be tried offline.
+//
+//   npm run payments:fake -- <reference> <dollars>
+//   npm run payments:fake -- FALL_2026-1A2B3C4D 180 --fail
+//   npm run payments:fake -- <reference> 180 --event evt_1   # resend an event
+//
+// The reference is a student id or the number on their invoice.
+
+import { createHmac, randomUUID } from 'crypto';
+
+const appUrl = (process.env.APP_URL ?? 'http://localhost:3000').replace(
+  /\/$/,
+  ''
+);
+const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+
+const args = process.argv.slice(2);
+const flag = name => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args.splice(index, 2)[1];
+};
+const failed = args.includes('--fail');
+const eventId = flag('--event') ?? `evt_${randomUUID()}`;
+const [reference, dollars] = args.filter(arg => arg !== '--fail');
+
+if (!secret) {
+  console.error(
+    'Set PAYMENT_WEBHOOK_SECRET to the value the dashboard is running with.'
+  );
+  process.exit(1);
+}
+
+if (!reference || !dollars || !Number.isFinite(Number(dollars))) {
+  console.error(
+    'Usage: npm run payments:fake -- <reference> <dollars> [--fail] [--event <id>]'
+  );
+  process.exit(1);
+}
+
+const body = JSON.stringify({
+  id: eventId,
+  type: failed ? 'payment.failed' : 'payment.succeeded',
+  reference,
+  // the same event always describes the same charge
+  paymentId: `pay_${eventId}`,
+  amountCents: Math.round(Number(dollars) * 100),
+});
+
+const response = await fetch(`${appUrl}/api/webhooks/payments`, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'X-Fake-Signature': createHmac('sha256', secret).update(body).digest('hex'),
+  },
+  body,
+});
+const result = await response.json().catch(() => ({}));
+
+if (!response.ok) {
+  console.error(
+    `Webhook failed (${response.status}): ${result.error ?? response.statusText}${result.detail ? ` – ${result.detail}` : ''}`
+  );
+  process.exit(1);
+}
+
+console.log(`Event ${eventId}: ${result.result}`);
+if (result.studentId) console.log(`  student ${result.studentId}`);
+if (result.paymentId) console.log(`  ledger row ${result.paymentId}`);
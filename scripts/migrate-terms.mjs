@@ -0,0 +1,94 @@
+// scripts/migrate-terms.mjs
+//
+// One-off move from the old `Session` Postgres enum to the Term table.
+// Run it once against an existing database BEFORE `prisma db push`:
+//
+//   npm run db:migrate-terms
+//
+// It creates the Term table with the five terms the enum used to list,
+// turns every `session` column into text pointing at Term.code and drops
+// the enum. Running it again is harmless.
+
+import { PrismaClient } from '@prisma/client';
+
+const LEGACY_TERMS = [
+  ['FALL_2024', 'Fall 2024'],
+  ['SPRING_2025', 'Spring 2025'],
+  ['FALL_2025', 'Fall 2025'],
+  ['SPRING_2026', 'Spring 2026'],
+  ['FALL_2026', 'Fall 2026'],
+];
+
+const CURRENT_TERM = 'FALL_2026';
+
+const TABLES = ['Student', 'WaitingList', 'ClassSection', 'Enrollment'];
+
+const prisma = new PrismaClient();
+
+try {
+  await prisma.$transaction(async tx => {
+    await tx.$executeRawUnsafe(`
+      CREATE TABLE IF NOT EXISTS "Term" (
+        "code" TEXT NOT NULL,
+        "label" TEXT NOT NULL,
+        "startDate" TIMESTAMP(3),
+        "endDate" TIMESTAMP(3),
+        "isActive" BOOLEAN NOT NULL DEFAULT true,
+        "isCurrent" BOOLEAN NOT NULL DEFAULT false,
+        "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "updatedAt" TIMESTAMP(3) NOT NULL,
+        CONSTRAINT "Term_pkey" PRIMARY KEY ("code")
+      )
+    `);
+
+    for (const [code, label] of LEGACY_TERMS) {
+      await tx.$executeRaw`
+        INSERT INTO "Term" ("code", "label", "isCurrent", "updatedAt")
+        VALUES (${code}, ${label}, ${code === CURRENT_TERM}, NOW())
+        ON CONFLICT ("code") DO NOTHING
+      `;
+    }
+
+    for (const table of TABLES) {
+      const [column] = await tx.$queryRaw`
+        SELECT data_type AS "dataType"
+        FROM information_schema.columns
+        WHERE table_schema = current_schema()
+          AND table_name = ${table}
+          AND column_name = 'session'
+      `;
+
+      if (column?.dataType === 'USER-DEFINED') {
+        await tx.$executeRawUnsafe(`
+          ALTER TABLE "${table}"
+            ALTER COLUMN "session" DROP DEFAULT,
+            ALTER COLUMN "session" SET DATA TYPE TEXT USING "session"::text
+        `);
+      }
+
+      const [constraint] = await tx.$queryRaw`
+        SELECT 1 AS found
+        FROM information_schema.table_constraints
+        WHERE table_schema = current_schema()
+          AND constraint_name = ${`${table}_session_fkey`}
+      `;
+
+      if (!constraint) {
+        await tx.$executeRawUnsafe(`
+          ALTER TABLE "${table}"
+            ADD CONSTRAINT "${table}_session_fkey"
+            FOREIGN KEY ("session") REFERENCES "Term"("code")
+            ON DELETE RESTRICT ON UPDATE CASCADE
+        `);
+      }
+
+      console.log(`${table}.session now references Term.code`);
+    }
+
+    await tx.$executeRawUnsafe('DROP TYPE IF EXISTS "Session"');
+  });
+
+  console.log('Done. `prisma db push` should now report no changes.');
+} finally {
+  await prisma.$disconnect();
+}
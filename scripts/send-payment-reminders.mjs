@@ -0,0 +1,49 @@
+// scripts/send-payment-reminders.mjs
+//
+// Runs the payment reminder job on a deployed dashboard, for crontab or by
+// hand. Reminders only go out when they are turned on in the dashboard.
+//
+//   APP_URL=https://admin.example.com CRON_SECRET=… npm run reminders:send
+//   npm run reminders:send -- --dry-run    # list who is due, send nothing
+
+const appUrl = (process.env.APP_URL ?? 'http://localhost:3000').replace(
+  /\/$/,
+  ''
+);
+const secret = process.env.CRON_SECRET;
+const dryRun = process.argv.includes('--dry-run');
+
+if (!secret) {
+  console.error('Set CRON_SECRET to the value the dashboard is running with.');
+  process.exit(1);
+}
+
+const url = `${appUrl}/api/cron/payment-reminders${dryRun ? '?dryRun=true' : ''}`;
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: { Authorization: `Bearer ${secret}` },
+});
+const result = await response.json().catch(() => ({}));
+
+if (!response.ok) {
+  console.error(
+    `Reminder job failed (${response.status}): ${result.error ?? response.statusText}${result.detail ? ` – ${result.detail}` : ''}`
+  );
+  process.exit(1);
+}
+
+if (!result.enabled) {
+  console.log('Payment reminders are turned off; nothing sent.');
+} else if (result.dryRun) {
+  console.log(`${result.due} reminders due:`);
+  for (const student of result.students) {
+    console.log(
+      `  ${student.studentName} (${student.school}, ${student.session})`
+    );
+  }
+} else {
+  console.log(
+    `Sent ${result.sent} reminders, ${result.failed} failed, ${result.skipped} skipped.`
+  );
+}
@@ -0,0 +1,173 @@
+// src/lib/attendance.ts
+//
+// Attendance rows are keyed by enrollment and meeting date. Meeting dates
+// come from the section's schedule (see calendar.ts).
+
+import { AttendanceStatus, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { recordAudit, type AuditEntry } from './audit';
+import type { AdminActor } from './permissions';
+import { EnrollmentError } from './enrollments';
+import { isoDate, loadSectionMeetings } from './calendar';
+
+type Tx = Prisma.TransactionClient;
+
+export async function loadSectionAttendance(sectionId: string) {
+  const section = await prisma.classSection.findUnique({
+    where: {
+      id: sectionId,
+    },
+    include: {
+      enrollments: {
+        where: {
+          status: 'ACTIVE',
+        },
+        include: {
+          student: {
+            select: {
+              id: true,
+              studentName: true,
+              classroom: true,
+              parentName: true,
+              phone: true,
+            },
+          },
+          attendance: true,
+        },
+      },
+    },
+  });
+
+  if (!section) return null;
+
+  const students = section.enrollments
+    .map((enrollment) => ({
+      enrollmentId: enrollment.id,
+      studentId: enrollment.student.id,
+      studentName: enrollment.student.studentName,
+      classroom: enrollment.student.classroom,
+      parentName: enrollment.student.parentName,
+      phone: enrollment.student.phone,
+      attendance: Object.fromEntries(
+        enrollment.attendance.map((row) => [
+          isoDate(row.meetingDate),
+          row.status,
+        ])
+      ) as Record<string, AttendanceStatus>,
+    }))
+    .sort((a, b) => a.studentName.localeCompare(b.studentName));
+
+  return {
+    section: {
+      id: section.id,
+      school: section.school,
+      day: section.day,
+      label: section.label,
+      session: section.session,
+      startTime: section.startTime,
+      endTime: section.endTime,
+    },
+    meetings: await loadSectionMeetings(section),
+    students,
+  };
+}
+
+export type AttendanceMark = {
+  enrollmentId: string;
+  // null clears the mark
+  status: AttendanceStatus | null;
+};
+
+/**
+ * Saves marks for one meeting of a section. Every enrollment must belong
+ * to the section and the date must be one of its meetings.
+ */
+export async function saveAttendance(
+  tx: Tx,
+  actor: AdminActor,
+  {
+    sectionId,
+    date,
+    marks,
+  }: { sectionId: string; date: string; marks: AttendanceMark[] }
+) {
+  const section = await tx.classSection.findUnique({
+    where: {
+      id: sectionId,
+    },
+  });
+
+  if (!section) {
+    throw new EnrollmentError('Section not found', 404);
+  }
+
+  if (!(await loadSectionMeetings(section, tx)).includes(date)) {
+    throw new EnrollmentError(
+      `${date} is not a ${section.day} meeting of this section (or the school is closed)`
+    );
+  }
+
+  const meetingDate = new Date(`${date}T00:00:00.000Z`);
+  const entries: AuditEntry[] = [];
+
+  for (const mark of marks) {
+    const enrollment = await tx.enrollment.findUnique({
+      where: {
+        id: mark.enrollmentId,
+      },
+      include: {
+        attendance: {
+          where: {
+            meetingDate,
+          },
+        },
+      },
+    });
+
+    if (!enrollment || enrollment.sectionId !== sectionId) {
+      throw new EnrollmentError('Enrollment is not in this section');
+    }
+
+    const before = enrollment.attendance[0]?.status ?? null;
+    if (before === mark.status) continue;
+
+    const where = {
+      enrollmentId_meetingDate: {
+        enrollmentId: enrollment.id,
+        meetingDate,
+      },
+    };
+
+    if (mark.status === null) {
+      await tx.attendance.delete({ where });
+    } else {
+      await tx.attendance.upsert({
+        where,
+        create: {
+          enrollmentId: enrollment.id,
+          meetingDate,
+          status: mark.status,
+          recordedById: actor.id,
+        },
+        update: {
+          status: mark.status,
+          recordedById: actor.id,
+        },
+      });
+    }
+
+    entries.push({
+      entity: 'Attendance',
+      entityId: enrollment.id,
+      studentId: enrollment.studentId,
+      action: 'UPDATE',
+      field: `${section.day} ${section.label} ${date}`,
+      oldValue: before,
+      newValue: mark.status,
+    });
+  }
+
+  await recordAudit(tx, actor, entries);
+
+  return section;
+}
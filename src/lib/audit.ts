@@ -0,0 +1,88 @@
+// src/lib/audit.ts
+//
+// Append-only record of changes made through the admin API. Values are
+// stored as display strings so the history survives schema changes.
+
+import { Prisma } from '@prisma/client';
+import type { AdminActor } from './permissions';
+
+type Db = Prisma.TransactionClient;
+
+export type AuditEntity =
+  | 'Student'
+  | 'ClassSection'
+  | 'Enrollment'
+  | 'Payment'
+  | 'WaitingList'
+  | 'Attendance'
+  | 'Closure'
+  | 'AppConfig'
+  | 'SmsOptOut'
+  | 'Family'
+  | 'PromoCode';
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export type AuditEntry = {
+  entity: AuditEntity;
+  entityId: string;
+  studentId?: string | null;
+  action: AuditAction;
+  field?: string | null;
+  oldValue?: unknown;
+  newValue?: unknown;
+};
+
+// Changes made by the app itself (a webhook, a scheduled job) have no
+// admin user; they are recorded under a descriptive email such as
+// "webhook:stripe".
+export type AuditActor = Pick<AdminActor, 'email'> & { id: string | null };
+
+export function auditValue(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(auditValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export async function recordAudit(
+  db: Db,
+  actor: AuditActor,
+  entries: AuditEntry[]
+) {
+  if (!entries.length) return;
+
+  await db.auditLog.createMany({
+    data: entries.map((entry) => ({
+      actorId: actor.id,
+      actorEmail: actor.email,
+      entity: entry.entity,
+      entityId: entry.entityId,
+      studentId: entry.studentId ?? null,
+      action: entry.action,
+      field: entry.field ?? null,
+      oldValue: auditValue(entry.oldValue),
+      newValue: auditValue(entry.newValue),
+    })),
+  });
+}
+
+/**
+ * One UPDATE entry per field in `patch` whose value actually changed.
+ */
+export function changedFields<T extends Record<string, unknown>>(
+  before: T,
+  patch: Partial<T>,
+  base: Omit<AuditEntry, 'action' | 'field' | 'oldValue' | 'newValue'>
+): AuditEntry[] {
+  return Object.keys(patch)
+    .filter((field) => auditValue(before[field]) !== auditValue(patch[field]))
+    .map((field) => ({
+      ...base,
+      action: 'UPDATE' as const,
+      field,
+      oldValue: before[field],
+      newValue: patch[field],
+    }));
+}
@@ -0,0 +1,46 @@
+// src/lib/auth.ts
+
+import bcrypt from 'bcryptjs';
+import type { NextApiRequest } from 'next';
+import prisma from './prisma';
+import {
+  SESSION_COOKIE,
+  verifySessionToken,
+  type AdminSession,
+} from './session';
+
+const BCRYPT_ROUNDS = 12;
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export async function hashPassword(password: string) {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Checks an email/password pair against AdminUser.
+ * Returns null for unknown, inactive or mismatched accounts so callers
+ * cannot tell which one it was.
+ */
+export async function authenticate(email: string, password: string) {
+  const user = await prisma.adminUser.findUnique({
+    where: {
+      email: normalizeEmail(email),
+    },
+  });
+
+  if (!user || !user.isActive) return null;
+
+  const matches = await bcrypt.compare(password, user.passwordHash);
+  if (!matches) return null;
+
+  return user;
+}
+
+export async function getSession(
+  req: NextApiRequest
+): Promise<AdminSession | null> {
+  return verifySessionToken(req.cookies[SESSION_COOKIE]);
+}
@@ -0,0 +1,328 @@
+// src/lib/calendar.ts
+//
+// Class meetings are not stored: they are every `day` between a section's
+// startDate and endDate, minus the school's closures for that term.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { NextApiRequest } from 'next';
+import { Prisma, type Closure, type School } from '@prisma/client';
+import prisma from './prisma';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date.getUTCDay() numbering
+const WEEKDAY: Record<string, number> = {
+  Sunday: 0,
+  Monday: 1,
+  Tuesday: 2,
+  Wednesday: 3,
+  Thursday: 4,
+  Friday: 5,
+  Saturday: 6,
+};
+
+type ScheduledSection = {
+  school: School;
+  day: string;
+  startDate: Date | null;
+  endDate: Date | null;
+};
+
+/** "2026-09-08" */
+export function isoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Every date from startDate through endDate that falls on the section's
+ * day, as YYYY-MM-DD. Empty when either date is missing.
+ */
+export function meetingDates(section: Omit<ScheduledSection, 'school'>) {
+  const weekday = WEEKDAY[section.day];
+  if (!section.startDate || !section.endDate || weekday === undefined) {
+    return [];
+  }
+
+  const start = Date.parse(isoDate(section.startDate));
+  const end = Date.parse(isoDate(section.endDate));
+  const first =
+    start + ((weekday - new Date(start).getUTCDay() + 7) % 7) * DAY_MS;
+
+  const dates: string[] = [];
+  for (let time = first; time <= end; time += 7 * DAY_MS) {
+    dates.push(isoDate(new Date(time)));
+  }
+  return dates;
+}
+
+// ----------------- Closures -----------------
+
+export async function loadClosures(
+  session: string,
+  scope: Prisma.ClosureWhereInput = {},
+  db: Db = prisma
+) {
+  return db.closure.findMany({
+    where: {
+      session,
+      ...scope,
+    },
+    orderBy: [{ date: 'asc' }, { school: 'asc' }],
+  });
+}
+
+/** Meeting dates with the section's school closures left out. */
+export function sectionMeetings(
+  section: ScheduledSection,
+  closures: Pick<Closure, 'school' | 'date'>[]
+) {
+  const closed = new Set(
+    closures
+      .filter((closure) => closure.school === section.school)
+      .map((closure) => isoDate(closure.date))
+  );
+  return meetingDates(section).filter((date) => !closed.has(date));
+}
+
+/** Same as sectionMeetings, loading the closures for the section itself. */
+export async function loadSectionMeetings(
+  section: ScheduledSection & { session: string },
+  db: Db = prisma
+) {
+  const closures = await loadClosures(
+    section.session,
+    { school: section.school },
+    db
+  );
+  return sectionMeetings(section, closures);
+}
+
+export function toClosureDTO(closure: Closure) {
+  return {
+    id: closure.id,
+    school: closure.school,
+    session: closure.session,
+    date: isoDate(closure.date),
+    reason: closure.reason,
+  };
+}
+
+// ----------------- Feed links -----------------
+
+export type FeedKind = 'section' | 'student';
+
+function feedSecret() {
+  const secret = process.env.CALENDAR_FEED_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error(
+      'CALENDAR_FEED_SECRET must be set to at least 32 characters'
+    );
+  }
+
+  return secret;
+}
+
+/**
+ * Calendar apps cannot sign in, so feed URLs carry an HMAC of the kind
+ * and id instead. Rotating CALENDAR_FEED_SECRET revokes every link.
+ */
+export function feedToken(kind: FeedKind, id: string) {
+  return createHmac('sha256', feedSecret())
+    .update(`${kind}:${id}`)
+    .digest('base64url');
+}
+
+export function isValidFeedToken(kind: FeedKind, id: string, token: unknown) {
+  if (typeof token !== 'string') return false;
+
+  const expected = Buffer.from(feedToken(kind, id));
+  const given = Buffer.from(token);
+
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/** Absolute feed URL on the host the admin is using. */
+export function feedUrl(req: NextApiRequest, kind: FeedKind, id: string) {
+  const forwarded = req.headers['x-forwarded-proto'];
+  const proto =
+    (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0] ??
+    'http';
+
+  return `${proto}://${req.headers.host}/api/calendar/${kind}/${id}.ics?token=${feedToken(kind, id)}`;
+}
+
+// ----------------- iCalendar -----------------
+
+// Every school is in Texas.
+const TIMEZONE = 'America/Chicago';
+
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0600',
+  'TZOFFSETTO:-0500',
+  'TZNAME:CDT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0500',
+  'TZOFFSETTO:-0600',
+  'TZNAME:CST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export type CalendarEvent = {
+  uid: string;
+  date: string;
+  // "15:30" or "3:30 PM"; all-day event when missing
+  startTime: string | null;
+  endTime: string | null;
+  summary: string;
+  location?: string;
+  description?: string;
+};
+
+/** "3:30 PM" or "15:30" -> "153000" */
+function icsTime(value: string) {
+  const match = /^(\d{1,2}):(\d{2})\s*([AaPp][Mm])?$/.exec(value.trim());
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const meridiem = match[3]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+
+  return `${String(hours).padStart(2, '0')}${match[2]}00`;
+}
+
+function icsText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space.
+function fold(line: string) {
+  const parts: string[] = [];
+  let rest = line;
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = 74;
+    while (Buffer.byteLength(rest.slice(0, cut)) > 74) cut -= 1;
+    parts.push(rest.slice(0, cut));
+    rest = ` ${rest.slice(cut)}`;
+  }
+  parts.push(rest);
+  return parts.join('\r\n');
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[]) {
+  const stamp = `${new Date()
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .slice(0, 15)}Z`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Baila Kids//Class calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(name)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...VTIMEZONE,
+  ];
+
+  for (const event of events) {
+    const day = event.date.replace(/-/g, '');
+    const start = event.startTime ? icsTime(event.startTime) : null;
+    const end = event.endTime ? icsTime(event.endTime) : null;
+
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+
+    if (start && end) {
+      lines.push(
+        `DTSTART;TZID=${TIMEZONE}:${day}T${start}`,
+        `DTEND;TZID=${TIMEZONE}:${day}T${end}`
+      );
+    } else {
+      const next = isoDate(new Date(Date.parse(event.date) + DAY_MS));
+      lines.push(
+        `DTSTART;VALUE=DATE:${day}`,
+        `DTEND;VALUE=DATE:${next.replace(/-/g, '')}`
+      );
+    }
+
+    lines.push(`SUMMARY:${icsText(event.summary)}`);
+    if (event.location) lines.push(`LOCATION:${icsText(event.location)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${icsText(event.description)}`);
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(fold).join('\r\n')}\r\n`;
+}
+
+// ----------------- Feed events -----------------
+
+type FeedSection = ScheduledSection & {
+  id: string;
+  label: string;
+  startTime: string | null;
+  endTime: string | null;
+};
+
+/**
+ * A section's meetings, plus an all-day "no class" event for each
+ * closure that cancels one of them so families see why.
+ */
+export function sectionEvents(
+  section: FeedSection,
+  closures: Closure[],
+  schoolLabel: string,
+  who?: string
+): CalendarEvent[] {
+  const title = who ? `${who} – Baila Kids` : 'Baila Kids';
+  const scheduled = new Set(meetingDates(section));
+
+  const meetings = sectionMeetings(section, closures).map((date) => ({
+    uid: `${section.id}-${date}@bailakids`,
+    date,
+    startTime: section.startTime,
+    endTime: section.endTime,
+    summary: `${title} (${section.day} ${section.label})`,
+    location: schoolLabel,
+  }));
+
+  const cancelled = closures
+    .filter(
+      (closure) =>
+        closure.school === section.school &&
+        scheduled.has(isoDate(closure.date))
+    )
+    .map((closure) => ({
+      uid: `${section.id}-${isoDate(closure.date)}-closed@bailakids`,
+      date: isoDate(closure.date),
+      startTime: null,
+      endTime: null,
+      summary: `No class – ${title}`,
+      location: schoolLabel,
+      description: closure.reason,
+    }));
+
+  return [...meetings, ...cancelled].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
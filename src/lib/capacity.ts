@@ -0,0 +1,108 @@
+// src/lib/capacity.ts
+//
+// Dashboard alerts for sections that are over capacity or filling up past
+// the threshold kept in AppConfig. Only an owner's overbooking override
+// puts a section over: its capacity can't be lowered below the kids
+// already enrolled.
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { loadConfig, saveConfig } from './config';
+import type { AdminActor } from './permissions';
+import type { SectionDTO } from './sections';
+import type { ParseResult } from './validation';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+// ----------------- Settings -----------------
+
+const SETTINGS_KEY = 'capacity.alerts';
+
+export type CapacitySettings = {
+  // alert once a section is at least this full, in percent of capacity
+  thresholdPercent: number;
+};
+
+const DEFAULT_SETTINGS: CapacitySettings = {
+  thresholdPercent: 90,
+};
+
+export function loadCapacitySettings(db?: Db) {
+  return loadConfig(SETTINGS_KEY, DEFAULT_SETTINGS, db);
+}
+
+export function parseCapacitySettings(
+  body: Record<string, unknown>
+): ParseResult<CapacitySettings> {
+  const thresholdPercent = body.thresholdPercent;
+
+  if (
+    typeof thresholdPercent !== 'number' ||
+    !Number.isInteger(thresholdPercent) ||
+    thresholdPercent < 1 ||
+    thresholdPercent > 100
+  ) {
+    return {
+      ok: false,
+      errors: ['thresholdPercent must be a whole number from 1 to 100'],
+    };
+  }
+
+  return { ok: true, data: { thresholdPercent } };
+}
+
+export function saveCapacitySettings(
+  tx: Tx,
+  actor: AdminActor,
+  settings: CapacitySettings
+) {
+  return saveConfig(tx, actor, SETTINGS_KEY, settings);
+}
+
+// ----------------- Alerts -----------------
+
+export type CapacityAlert = {
+  sectionId: string;
+  school: SectionDTO['school'];
+  day: string;
+  label: string;
+  enrolled: number;
+  capacity: number;
+  fillPercent: number;
+  level: 'over' | 'threshold';
+};
+
+/** Over-capacity sections first, then the fullest. */
+export function capacityAlerts(
+  sections: SectionDTO[],
+  { thresholdPercent }: CapacitySettings
+): CapacityAlert[] {
+  return sections
+    .map((section) => ({
+      sectionId: section.id,
+      school: section.school,
+      day: section.day,
+      label: section.label,
+      enrolled: section.enrolled,
+      capacity: section.capacity,
+      fillPercent:
+        section.capacity > 0
+          ? Math.round((section.enrolled / section.capacity) * 100)
+          : 100,
+      level:
+        section.enrolled > section.capacity
+          ? ('over' as const)
+          : ('threshold' as const),
+    }))
+    .filter(
+      (alert) =>
+        alert.enrolled > 0 &&
+        (alert.level === 'over' || alert.fillPercent >= thresholdPercent)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.level === 'over') - Number(a.level === 'over') ||
+        b.fillPercent - a.fillPercent
+    );
+}
@@ -0,0 +1,90 @@
+// src/lib/config.ts
+//
+// Settings stored as JSON in AppConfig, one row per key. The sibling
+// discount, capacity alerts and payment reminders all read and write
+// through here, so a missing or unreadable row falls back to the
+// defaults the same way everywhere.
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { recordAudit, type AuditActor } from './audit';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+/** The stored value, or null when the row is missing or unreadable. */
+export async function readConfig<T>(
+  key: string,
+  db: Db = prisma
+): Promise<Partial<T> | null> {
+  const row = await db.appConfig.findUnique({
+    where: {
+      key,
+    },
+  });
+
+  if (!row) return null;
+
+  try {
+    return JSON.parse(row.value) as Partial<T>;
+  } catch {
+    return null;
+  }
+}
+
+/** The stored value laid over the defaults. */
+export async function loadConfig<T extends object>(
+  key: string,
+  defaults: T,
+  db: Db = prisma
+): Promise<T> {
+  return {
+    ...defaults,
+    ...(await readConfig<T>(key, db)),
+  };
+}
+
+/** Stores the value without an audit entry, for the app's own bookkeeping. */
+export async function writeConfig(db: Db, key: string, value: unknown) {
+  const json = JSON.stringify(value);
+
+  await db.appConfig.upsert({
+    where: {
+      key,
+    },
+    create: {
+      key,
+      value: json,
+    },
+    update: {
+      value: json,
+    },
+  });
+
+  return json;
+}
+
+/** Stores a setting changed by an admin and records the change. */
+export async function saveConfig(
+  tx: Tx,
+  actor: AuditActor,
+  key: string,
+  value: unknown
+) {
+  const before = await tx.appConfig.findUnique({
+    where: {
+      key,
+    },
+  });
+  const json = await writeConfig(tx, key, value);
+
+  await recordAudit(tx, actor, [
+    {
+      entity: 'AppConfig',
+      entityId: key,
+      action: before ? 'UPDATE' : 'CREATE',
+      oldValue: before?.value,
+      newValue: json,
+    },
+  ]);
+}
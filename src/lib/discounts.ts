@@ -0,0 +1,507 @@
+// src/lib/discounts.ts
+//
+// The discounts fed into the pricing engine: the sibling discount (an
+// AppConfig setting), promo codes and per-student scholarships. Amounts
+// are worked out in pricing.ts; this module stores and validates them.
+
+import { Prisma, type PromoCode, type Student } from '@prisma/client';
+import prisma from './prisma';
+import { changedFields, recordAudit } from './audit';
+import { loadConfig, saveConfig } from './config';
+import { backfillLegacyPayments, syncPaymentStatuses } from './ledger';
+import type { AdminActor } from './permissions';
+import { describeRule, type Discount, type DiscountRule } from './pricing';
+import type { ParseResult } from './validation';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+export class DiscountError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'DiscountError';
+  }
+}
+
+// a $1,000 discount is a typo, not a policy
+const MAX_AMOUNT_CENTS = 100_000;
+
+function parseRule(
+  body: Record<string, unknown>,
+  what: string,
+  errors: string[]
+): DiscountRule | null {
+  const { kind, value } = body;
+
+  if (kind !== 'PERCENT' && kind !== 'AMOUNT') {
+    errors.push(`${what} kind must be PERCENT or AMOUNT`);
+    return null;
+  }
+
+  const max = kind === 'PERCENT' ? 100 : MAX_AMOUNT_CENTS;
+
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < 1 ||
+    value > max
+  ) {
+    errors.push(
+      kind === 'PERCENT'
+        ? `${what} must be a whole percent from 1 to 100`
+        : `${what} must be from 1 to ${MAX_AMOUNT_CENTS} cents`
+    );
+    return null;
+  }
+
+  return { kind, value };
+}
+
+// ----------------- Sibling discount -----------------
+
+const SIBLING_KEY = 'pricing.siblingDiscount';
+
+export type SiblingDiscountSettings = DiscountRule & {
+  enabled: boolean;
+};
+
+const DEFAULT_SIBLING_DISCOUNT: SiblingDiscountSettings = {
+  enabled: false,
+  kind: 'PERCENT',
+  value: 10,
+};
+
+export function loadSiblingDiscount(db?: Db) {
+  return loadConfig(SIBLING_KEY, DEFAULT_SIBLING_DISCOUNT, db);
+}
+
+export function parseSiblingDiscount(
+  body: Record<string, unknown>
+): ParseResult<SiblingDiscountSettings> {
+  const errors: string[] = [];
+
+  if (typeof body.enabled !== 'boolean') {
+    errors.push('enabled must be true or false');
+  }
+
+  const rule = parseRule(body, 'sibling discount', errors);
+
+  if (errors.length || !rule) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      enabled: body.enabled as boolean,
+      ...rule,
+    },
+  };
+}
+
+export function saveSiblingDiscount(
+  tx: Tx,
+  actor: AdminActor,
+  settings: SiblingDiscountSettings
+) {
+  return saveConfig(tx, actor, SIBLING_KEY, settings);
+}
+
+export type SiblingCandidate = {
+  id: string;
+  familyId: string | null;
+  createdAt: Date;
+  // tuition before discounts
+  subtotalCents: number;
+};
+
+/**
+ * Students who get the sibling discount: in each family, every kid with
+ * tuition in the term except the one paying the most (the first
+ * registered, on a tie).
+ */
+export function siblingDiscountIds(candidates: SiblingCandidate[]) {
+  const families = new Map<string, SiblingCandidate[]>();
+
+  for (const candidate of candidates) {
+    if (!candidate.familyId || candidate.subtotalCents <= 0) continue;
+    families.set(candidate.familyId, [
+      ...(families.get(candidate.familyId) ?? []),
+      candidate,
+    ]);
+  }
+
+  const discounted = new Set<string>();
+
+  for (const members of families.values()) {
+    members
+      .sort(
+        (a, b) =>
+          b.subtotalCents - a.subtotalCents ||
+          a.createdAt.getTime() - b.createdAt.getTime() ||
+          a.id.localeCompare(b.id)
+      )
+      .slice(1)
+      .forEach((member) => discounted.add(member.id));
+  }
+
+  return discounted;
+}
+
+// ----------------- Promo codes -----------------
+
+export type PromoCodeInput = DiscountRule & {
+  code: string;
+  description: string | null;
+  // YYYY-MM-DD, valid through the end of that day
+  expiresAt: string | null;
+  maxUses: number | null;
+};
+
+const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,30}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parsePromoLimits(
+  body: Record<string, unknown>,
+  errors: string[]
+): Partial<Pick<PromoCodeInput, 'description' | 'expiresAt' | 'maxUses'>> {
+  const data: Partial<
+    Pick<PromoCodeInput, 'description' | 'expiresAt' | 'maxUses'>
+  > = {};
+
+  if ('description' in body) {
+    const { description } = body;
+    if (description !== null && typeof description !== 'string') {
+      errors.push('description must be text');
+    } else {
+      data.description = description?.trim().slice(0, 200) || null;
+    }
+  }
+
+  if ('expiresAt' in body) {
+    const { expiresAt } = body;
+    if (expiresAt === null || expiresAt === '') {
+      data.expiresAt = null;
+    } else if (typeof expiresAt !== 'string' || !DATE_PATTERN.test(expiresAt)) {
+      errors.push('expiresAt must look like 2026-09-30');
+    } else {
+      data.expiresAt = expiresAt;
+    }
+  }
+
+  if ('maxUses' in body) {
+    const { maxUses } = body;
+    if (maxUses === null) {
+      data.maxUses = null;
+    } else if (
+      typeof maxUses !== 'number' ||
+      !Number.isInteger(maxUses) ||
+      maxUses < 1
+    ) {
+      errors.push('maxUses must be a whole number of at least 1');
+    } else {
+      data.maxUses = maxUses;
+    }
+  }
+
+  return data;
+}
+
+export function parsePromoCodeInput(
+  body: Record<string, unknown>
+): ParseResult<PromoCodeInput> {
+  const errors: string[] = [];
+
+  const code =
+    typeof body.code === 'string' ? body.code.trim().toUpperCase() : '';
+  if (!PROMO_CODE_PATTERN.test(code)) {
+    errors.push('code must be 3 to 30 letters, digits, dashes or underscores');
+  }
+
+  const rule = parseRule(body, 'promo code value', errors);
+  const limits = parsePromoLimits(body, errors);
+
+  if (errors.length || !rule) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      code,
+      ...rule,
+      description: limits.description ?? null,
+      expiresAt: limits.expiresAt ?? null,
+      maxUses: limits.maxUses ?? null,
+    },
+  };
+}
+
+export type PromoCodeUpdate = Partial<
+  Pick<PromoCodeInput, 'description' | 'expiresAt' | 'maxUses'> & {
+    isActive: boolean;
+  }
+>;
+
+/** Kind and value are fixed once a code exists; prices already use them. */
+export function parsePromoCodeUpdate(
+  body: Record<string, unknown>
+): ParseResult<PromoCodeUpdate> {
+  const errors: string[] = [];
+  const data: PromoCodeUpdate = parsePromoLimits(body, errors);
+
+  if ('isActive' in body) {
+    if (typeof body.isActive !== 'boolean') {
+      errors.push('isActive must be true or false');
+    } else {
+      data.isActive = body.isActive;
+    }
+  }
+
+  if ('kind' in body || 'value' in body) {
+    errors.push('kind and value cannot change; create a new code instead');
+  }
+
+  if (errors.length) return { ok: false, errors };
+  if (!Object.keys(data).length) {
+    return { ok: false, errors: ['Nothing to update'] };
+  }
+
+  return { ok: true, data };
+}
+
+export function expiryDate(value: string | null) {
+  return value ? new Date(`${value}T00:00:00Z`) : null;
+}
+
+function isExpired(promo: PromoCode, now = new Date()) {
+  return (
+    promo.expiresAt !== null &&
+    now.toISOString().slice(0, 10) > promo.expiresAt.toISOString().slice(0, 10)
+  );
+}
+
+export async function promoCodeUses(db: Db = prisma) {
+  const rows = await db.student.groupBy({
+    by: ['promoCode'],
+    where: {
+      promoCode: {
+        not: null,
+      },
+    },
+    _count: {
+      _all: true,
+    },
+  });
+
+  return new Map(rows.map((row) => [row.promoCode, row._count._all]));
+}
+
+export function toPromoCodeDTO(promo: PromoCode, uses: number) {
+  return {
+    code: promo.code,
+    description: promo.description,
+    kind: promo.kind,
+    value: promo.value,
+    expiresAt: promo.expiresAt
+      ? promo.expiresAt.toISOString().slice(0, 10)
+      : null,
+    maxUses: promo.maxUses,
+    uses,
+    isActive: promo.isActive,
+    expired: isExpired(promo),
+  };
+}
+
+/**
+ * Checked when a code is put on a student. Once applied it keeps
+ * counting toward their tuition even after it expires or is turned off.
+ */
+async function assertPromoUsable(tx: Tx, code: string) {
+  const promo = await tx.promoCode.findUnique({
+    where: {
+      code,
+    },
+  });
+
+  if (!promo) throw new DiscountError(`${code} is not a promo code`, 404);
+  if (!promo.isActive) throw new DiscountError(`${code} is turned off`);
+  if (isExpired(promo)) throw new DiscountError(`${code} has expired`);
+
+  if (promo.maxUses !== null) {
+    const uses = await tx.student.count({
+      where: {
+        promoCode: code,
+      },
+    });
+
+    if (uses >= promo.maxUses) {
+      throw new DiscountError(
+        `${code} has been used ${uses} of ${promo.maxUses} times`,
+        409
+      );
+    }
+  }
+
+  return promo;
+}
+
+// ----------------- Student discounts -----------------
+
+export type StudentDiscountInput = {
+  studentId: string;
+  // undefined leaves it as is, null removes it
+  promoCode?: string | null;
+  scholarship?: (DiscountRule & { note: string }) | null;
+};
+
+export function parseStudentDiscountInput(
+  body: Record<string, unknown>
+): ParseResult<StudentDiscountInput> {
+  const errors: string[] = [];
+  const data: StudentDiscountInput = {
+    studentId: typeof body.studentId === 'string' ? body.studentId : '',
+  };
+
+  if (!data.studentId) errors.push('studentId is required');
+
+  if ('promoCode' in body) {
+    const { promoCode } = body;
+    if (promoCode === null || promoCode === '') {
+      data.promoCode = null;
+    } else if (typeof promoCode !== 'string') {
+      errors.push('promoCode must be text or null');
+    } else {
+      data.promoCode = promoCode.trim().toUpperCase();
+    }
+  }
+
+  if ('scholarship' in body) {
+    const scholarship = body.scholarship as Record<string, unknown> | null;
+
+    if (scholarship === null) {
+      data.scholarship = null;
+    } else if (typeof scholarship !== 'object') {
+      errors.push('scholarship must be { kind, value, note } or null');
+    } else {
+      const rule = parseRule(scholarship, 'scholarship', errors);
+      const note =
+        typeof scholarship.note === 'string'
+          ? scholarship.note.trim().slice(0, 200)
+          : '';
+
+      if (!note) errors.push('scholarship note is required');
+      if (rule && note) data.scholarship = { ...rule, note };
+    }
+  }
+
+  if (errors.length) return { ok: false, errors };
+  if (data.promoCode === undefined && data.scholarship === undefined) {
+    return { ok: false, errors: ['Nothing to update'] };
+  }
+
+  return { ok: true, data };
+}
+
+/**
+ * Applies the input to the student and brings their payment status in
+ * line with the new tuition. The use count behind a promo code's limit is
+ * read here, so run it inside serializableTransaction.
+ */
+export async function saveStudentDiscounts(
+  tx: Tx,
+  actor: AdminActor,
+  input: StudentDiscountInput
+) {
+  const student = await tx.student.findUniqueOrThrow({
+    where: {
+      id: input.studentId,
+    },
+  });
+
+  const patch: Partial<Student> = {};
+
+  if (input.promoCode !== undefined && input.promoCode !== student.promoCode) {
+    if (input.promoCode) await assertPromoUsable(tx, input.promoCode);
+    patch.promoCode = input.promoCode;
+  }
+
+  if (input.scholarship !== undefined) {
+    patch.scholarshipKind = input.scholarship?.kind ?? null;
+    patch.scholarshipValue = input.scholarship?.value ?? null;
+    patch.scholarshipNote = input.scholarship?.note ?? null;
+  }
+
+  const entries = changedFields(student, patch, {
+    entity: 'Student',
+    entityId: student.id,
+    studentId: student.id,
+  });
+
+  if (!entries.length) return;
+
+  const backfilled = await backfillLegacyPayments(tx, [student.id]);
+
+  await tx.student.update({
+    where: {
+      id: student.id,
+    },
+    data: patch,
+  });
+
+  await recordAudit(tx, actor, [
+    ...backfilled,
+    ...entries,
+    ...(await syncPaymentStatuses(tx, [student.id])),
+  ]);
+}
+
+/** Sibling, then promo, then scholarship; see priceBreakdown. */
+export function discountsFor(
+  student: Pick<
+    Student,
+    'promoCode' | 'scholarshipKind' | 'scholarshipValue' | 'scholarshipNote'
+  >,
+  {
+    sibling,
+    promo,
+  }: {
+    sibling: SiblingDiscountSettings | null;
+    promo: PromoCode | null;
+  }
+): Discount[] {
+  const discounts: Discount[] = [];
+
+  if (sibling?.enabled) {
+    discounts.push({
+      kind: 'sibling',
+      label: `Sibling discount (${describeRule(sibling)})`,
+      rule: sibling,
+    });
+  }
+
+  if (promo) {
+    discounts.push({
+      kind: 'promo',
+      label: `Promo ${promo.code} (${describeRule(promo)})`,
+      rule: promo,
+    });
+  }
+
+  if (student.scholarshipKind && student.scholarshipValue) {
+    const rule = {
+      kind: student.scholarshipKind,
+      value: student.scholarshipValue,
+    };
+
+    discounts.push({
+      kind: 'scholarship',
+      label:
+        rule.kind === 'PERCENT' && rule.value === 100
+          ? `Fee waiver${student.scholarshipNote ? `: ${student.scholarshipNote}` : ''}`
+          : `Scholarship (${describeRule(rule)})${student.scholarshipNote ? `: ${student.scholarshipNote}` : ''}`,
+      rule,
+    });
+  }
+
+  return discounts;
+}
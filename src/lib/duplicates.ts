@@ -0,0 +1,577 @@
+// src/lib/duplicates.ts
+//
+// Finds the same child registered more than once in a term (a retry
+// after a failed payment, both parents filling in the form, a waiting-list
+// entry for a kid who later got a spot) and merges them into one record.
+
+import {
+  Prisma,
+  type PaymentStatus,
+  type Student,
+  type WaitingList,
+} from '@prisma/client';
+import prisma from './prisma';
+import { changedFields, recordAudit, type AuditEntry } from './audit';
+import { syncStudentSchedule } from './enrollments';
+import { backfillLegacyPayments, syncPaymentStatuses } from './ledger';
+import type { AdminActor } from './permissions';
+import { isTermCode, normalizePhone, type ParseResult } from './validation';
+import { OPEN_WAITLIST_STATUSES } from './waitlist';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+export class MergeError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'MergeError';
+  }
+}
+
+export type RecordKind = 'student' | 'waitlist';
+
+export type RecordRef = {
+  kind: RecordKind;
+  id: string;
+};
+
+export type DuplicateRecord = RecordRef & {
+  studentName: string;
+  parentName: string;
+  email: string;
+  phone: string;
+  school: Student['school'];
+  classroom: string | null;
+  createdAt: string;
+  // students only
+  paymentStatus: PaymentStatus | null;
+  enrollmentCount: number;
+  paymentCount: number;
+};
+
+export type DuplicateGroup = {
+  key: string;
+  records: DuplicateRecord[];
+};
+
+// ----------------- Matching -----------------
+
+/** "José  Pérez-López" and "jose perez lopez" match. */
+export function nameKey(name: string) {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
+
+function contactKeys(record: { email: string; phone: string }) {
+  const keys: string[] = [];
+  const email = record.email.trim().toLowerCase();
+  const phone = normalizePhone(record.phone);
+
+  if (email) keys.push(`email:${email}`);
+  if (phone) keys.push(`phone:${phone}`);
+
+  return keys;
+}
+
+/**
+ * Groups records with the same child name at the same school that share
+ * a parent email or phone. Matching is transitive: A~B by email and B~C
+ * by phone puts all three in one group. The school is part of the match
+ * because a merge moves classes onto the kept record.
+ */
+function groupRecords(records: DuplicateRecord[]) {
+  const parent = records.map((_, index) => index);
+  const find = (index: number): number =>
+    parent[index] === index ? index : (parent[index] = find(parent[index]));
+
+  const seen = new Map<string, number>();
+
+  records.forEach((record, index) => {
+    for (const contact of contactKeys(record)) {
+      const key = `${record.school}|${nameKey(record.studentName)}|${contact}`;
+      const first = seen.get(key);
+
+      if (first === undefined) seen.set(key, index);
+      else parent[find(index)] = find(first);
+    }
+  });
+
+  const groups = new Map<number, DuplicateRecord[]>();
+
+  records.forEach((record, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), record]);
+  });
+
+  return [...groups.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      key: group.map((record) => `${record.kind}:${record.id}`).join(','),
+      // students before waiting-list entries, oldest first
+      records: group.sort(
+        (a, b) =>
+          Number(a.kind === 'waitlist') - Number(b.kind === 'waitlist') ||
+          a.createdAt.localeCompare(b.createdAt)
+      ),
+    }))
+    .sort((a, b) =>
+      a.records[0].studentName.localeCompare(b.records[0].studentName)
+    );
+}
+
+export async function findDuplicateGroups(
+  db: Db,
+  session: string,
+  scope: { school?: { in: Student['school'][] } }
+): Promise<DuplicateGroup[]> {
+  const [students, waitlist] = await Promise.all([
+    db.student.findMany({
+      where: {
+        session,
+        ...scope,
+      },
+      include: {
+        _count: {
+          select: {
+            Enrollment: true,
+            payments: true,
+          },
+        },
+      },
+    }),
+    db.waitingList.findMany({
+      where: {
+        session,
+        ...scope,
+        status: {
+          in: OPEN_WAITLIST_STATUSES,
+        },
+      },
+    }),
+  ]);
+
+  return groupRecords([
+    ...students.map((student) => ({
+      kind: 'student' as const,
+      id: student.id,
+      studentName: student.studentName,
+      parentName: student.parentName,
+      email: student.email,
+      phone: student.phone,
+      school: student.school,
+      classroom: student.classroom,
+      createdAt: student.createdAt.toISOString(),
+      paymentStatus: student.paymentStatus,
+      enrollmentCount: student._count.Enrollment,
+      paymentCount: student._count.payments,
+    })),
+    ...waitlist.map((entry) => ({
+      kind: 'waitlist' as const,
+      id: entry.id,
+      studentName: entry.studentName,
+      parentName: entry.parentName,
+      email: entry.email,
+      phone: entry.phone,
+      school: entry.school,
+      classroom: entry.classroom,
+      createdAt: entry.createdAt.toISOString(),
+      paymentStatus: null,
+      enrollmentCount: 0,
+      paymentCount: 0,
+    })),
+  ]);
+}
+
+// ----------------- Merging -----------------
+
+export type MergeInput = {
+  session: string;
+  keep: RecordRef;
+  merge: RecordRef[];
+};
+
+function parseRef(value: unknown): RecordRef | null {
+  const ref = (value ?? {}) as Record<string, unknown>;
+
+  if (
+    (ref.kind === 'student' || ref.kind === 'waitlist') &&
+    typeof ref.id === 'string' &&
+    ref.id
+  ) {
+    return { kind: ref.kind, id: ref.id };
+  }
+
+  return null;
+}
+
+export function parseMergeInput(
+  body: Record<string, unknown>
+): ParseResult<MergeInput> {
+  const errors: string[] = [];
+
+  if (!isTermCode(body.session)) {
+    errors.push('session is not a valid term code');
+  }
+
+  const keep = parseRef(body.keep);
+  if (!keep) {
+    errors.push('keep must be { kind: "student" | "waitlist", id }');
+  }
+
+  const merge = Array.isArray(body.merge) ? body.merge.map(parseRef) : [];
+  if (!merge.length || merge.some((ref) => !ref)) {
+    errors.push('merge must list at least one { kind, id } record');
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      session: body.session as string,
+      keep: keep as RecordRef,
+      merge: merge as RecordRef[],
+    },
+  };
+}
+
+/** Fields the kept student is missing, taken from the duplicates. */
+function filledFields(
+  keep: Student,
+  students: Student[],
+  entries: WaitingList[]
+): Partial<Student> {
+  const sources = [...students, ...entries];
+  const first = <K extends keyof Student & keyof WaitingList>(key: K) =>
+    sources.map((source) => source[key]).find((value) => value != null);
+
+  const patch: Partial<Student> = {};
+
+  if (keep.classroom == null && first('classroom') != null) {
+    patch.classroom = first('classroom') as string;
+  }
+  if (keep.age == null && first('age') != null) {
+    patch.age = first('age') as number;
+  }
+
+  for (const key of [
+    'paymentMethod',
+    'waiverName',
+    'waiverAddress',
+    'familyId',
+  ] as const) {
+    const value = students.find((student) => student[key] != null)?.[key];
+    if (keep[key] == null && value != null) patch[key] = value;
+  }
+
+  if (
+    !keep.liabilityAccepted &&
+    students.some((student) => student.liabilityAccepted)
+  ) {
+    patch.liabilityAccepted = true;
+  }
+
+  return patch;
+}
+
+/**
+ * The promo code and scholarship on the duplicates, for a kept student
+ * that has none. Two different ones can't both apply to the same kid, so
+ * a conflict stops the merge until the office removes one.
+ */
+function mergedDiscounts(keep: Student, students: Student[]): Partial<Student> {
+  const records = [keep, ...students];
+  const patch: Partial<Student> = {};
+
+  const codes = [
+    ...new Set(records.map((student) => student.promoCode).filter(Boolean)),
+  ];
+
+  if (codes.length > 1) {
+    throw new MergeError(
+      `These records use different promo codes (${codes.join(', ')}); remove one before merging`
+    );
+  }
+  if (keep.promoCode == null && codes.length) patch.promoCode = codes[0];
+
+  const scholarships = records.filter(
+    (student) => student.scholarshipKind != null
+  );
+  const granted = [
+    ...new Set(
+      scholarships.map(
+        (student) => `${student.scholarshipValue} ${student.scholarshipKind}`
+      )
+    ),
+  ];
+
+  if (granted.length > 1) {
+    throw new MergeError(
+      `These records have different scholarships (${granted.join(', ')}); remove one before merging`
+    );
+  }
+  if (keep.scholarshipKind == null && scholarships.length) {
+    patch.scholarshipKind = scholarships[0].scholarshipKind;
+    patch.scholarshipValue = scholarships[0].scholarshipValue;
+    patch.scholarshipNote = scholarships[0].scholarshipNote;
+  }
+
+  return patch;
+}
+
+/** Moves one duplicate's enrollments (and their attendance) to the keeper. */
+async function moveEnrollments(
+  tx: Tx,
+  keepId: string,
+  duplicateId: string,
+  audit: AuditEntry[]
+) {
+  const [kept, moving] = await Promise.all([
+    tx.enrollment.findMany({ where: { studentId: keepId } }),
+    tx.enrollment.findMany({
+      where: { studentId: duplicateId },
+      include: { attendance: true },
+    }),
+  ]);
+
+  const bySection = new Map(kept.map((row) => [row.sectionId, row]));
+
+  for (const enrollment of moving) {
+    const existing = bySection.get(enrollment.sectionId);
+
+    if (!existing) {
+      await tx.enrollment.update({
+        where: { id: enrollment.id },
+        data: { studentId: keepId },
+      });
+
+      audit.push({
+        entity: 'Enrollment',
+        entityId: enrollment.id,
+        studentId: keepId,
+        action: 'UPDATE',
+        field: 'studentId',
+        oldValue: duplicateId,
+        newValue: keepId,
+      });
+      continue;
+    }
+
+    // Both records are in this section: keep one enrollment, ACTIVE if
+    // either was, and carry over attendance the keeper doesn't have.
+    if (enrollment.status === 'ACTIVE' && existing.status !== 'ACTIVE') {
+      await tx.enrollment.update({
+        where: { id: existing.id },
+        data: { status: 'ACTIVE' },
+      });
+
+      audit.push({
+        entity: 'Enrollment',
+        entityId: existing.id,
+        studentId: keepId,
+        action: 'UPDATE',
+        field: 'status',
+        oldValue: existing.status,
+        newValue: 'ACTIVE',
+      });
+    }
+
+    const taken = new Set(
+      (
+        await tx.attendance.findMany({
+          where: { enrollmentId: existing.id },
+          select: { meetingDate: true },
+        })
+      ).map((row) => row.meetingDate.getTime())
+    );
+
+    for (const mark of enrollment.attendance) {
+      if (taken.has(mark.meetingDate.getTime())) continue;
+      await tx.attendance.update({
+        where: { id: mark.id },
+        data: { enrollmentId: existing.id },
+      });
+    }
+
+    await tx.attendance.deleteMany({
+      where: { enrollmentId: enrollment.id },
+    });
+    await tx.enrollment.delete({
+      where: { id: enrollment.id },
+    });
+
+    audit.push({
+      entity: 'Enrollment',
+      entityId: enrollment.id,
+      studentId: keepId,
+      action: 'DELETE',
+      oldValue: `duplicate of ${existing.id} (merged)`,
+    });
+  }
+}
+
+/**
+ * Keeps `keep` and folds every record in `merge` into it, then deletes
+ * them. All of them must be in one duplicate group the actor can see.
+ * A waiting-list entry can only be kept when nothing merged is a student.
+ */
+export async function mergeDuplicates(
+  tx: Tx,
+  actor: AdminActor,
+  { session, keep, merge }: MergeInput,
+  scope: { school?: { in: Student['school'][] } }
+) {
+  const refKey = (ref: RecordRef) => `${ref.kind}:${ref.id}`;
+  const groups = await findDuplicateGroups(tx, session, scope);
+  const group = groups.find((candidate) =>
+    candidate.records.some((record) => refKey(record) === refKey(keep))
+  );
+
+  if (!group) {
+    throw new MergeError('That record has no duplicates to merge', 404);
+  }
+
+  const inGroup = new Set(group.records.map(refKey));
+  const stray = merge.filter((ref) => !inGroup.has(refKey(ref)));
+
+  if (stray.length) {
+    throw new MergeError(
+      'Only records in the same duplicate group can be merged'
+    );
+  }
+
+  if (merge.some((ref) => refKey(ref) === refKey(keep))) {
+    throw new MergeError('The kept record cannot also be merged away');
+  }
+
+  const studentIds = merge
+    .filter((ref) => ref.kind === 'student')
+    .map((ref) => ref.id);
+  const entryIds = merge
+    .filter((ref) => ref.kind === 'waitlist')
+    .map((ref) => ref.id);
+
+  if (keep.kind === 'waitlist' && studentIds.length) {
+    throw new MergeError(
+      'Keep a registered student, not the waiting-list entry, when merging students'
+    );
+  }
+
+  const [students, entries] = await Promise.all([
+    tx.student.findMany({ where: { id: { in: studentIds } } }),
+    tx.waitingList.findMany({ where: { id: { in: entryIds } } }),
+  ]);
+
+  const audit: AuditEntry[] = [];
+
+  if (keep.kind === 'student') {
+    const kept = await tx.student.findUniqueOrThrow({
+      where: { id: keep.id },
+    });
+    const discounts = mergedDiscounts(kept, students);
+
+    // write down pre-ledger payments before rows move between records
+    audit.push(...(await backfillLegacyPayments(tx, [kept.id, ...studentIds])));
+
+    for (const duplicate of students) {
+      await moveEnrollments(tx, kept.id, duplicate.id, audit);
+
+      const payments = await tx.payment.findMany({
+        where: { studentId: duplicate.id },
+        select: { id: true },
+      });
+
+      await tx.payment.updateMany({
+        where: { studentId: duplicate.id },
+        data: { studentId: kept.id },
+      });
+
+      for (const payment of payments) {
+        audit.push({
+          entity: 'Payment',
+          entityId: payment.id,
+          studentId: kept.id,
+          action: 'UPDATE',
+          field: 'studentId',
+          oldValue: duplicate.id,
+          newValue: kept.id,
+        });
+      }
+
+      // the duplicate's history and message logs follow the kid
+      const moved = {
+        where: { studentId: duplicate.id },
+        data: { studentId: kept.id },
+      };
+      await tx.auditLog.updateMany(moved);
+      await tx.emailMessage.updateMany(moved);
+      await tx.smsMessage.updateMany(moved);
+      await tx.paymentWebhookEvent.updateMany(moved);
+
+      await tx.student.delete({
+        where: { id: duplicate.id },
+      });
+
+      audit.push({
+        entity: 'Student',
+        entityId: duplicate.id,
+        studentId: kept.id,
+        action: 'DELETE',
+        oldValue: `${duplicate.studentName} (${duplicate.email}, ${duplicate.phone}) merged into this record`,
+      });
+    }
+
+    const patch = {
+      ...filledFields(kept, students, entries),
+      ...discounts,
+    };
+
+    if (Object.keys(patch).length) {
+      await tx.student.update({
+        where: { id: kept.id },
+        data: patch,
+      });
+
+      audit.push(
+        ...changedFields(kept, patch, {
+          entity: 'Student',
+          entityId: kept.id,
+          studentId: kept.id,
+        })
+      );
+    }
+
+    await syncStudentSchedule(tx, kept.id);
+
+    // the kid now owes for every class and has every payment in one place
+    audit.push(...(await syncPaymentStatuses(tx, [kept.id])));
+  }
+
+  for (const entry of entries) {
+    await tx.waitingList.delete({
+      where: { id: entry.id },
+    });
+
+    audit.push({
+      entity: 'WaitingList',
+      entityId: entry.id,
+      studentId: keep.kind === 'student' ? keep.id : null,
+      action: 'DELETE',
+      oldValue: `${entry.studentName} (${entry.requestedDay}) merged as a duplicate`,
+    });
+  }
+
+  await recordAudit(tx, actor, audit);
+
+  return {
+    keep,
+    merged: students.length + entries.length,
+  };
+}
@@ -0,0 +1,393 @@
+// src/lib/email.ts
+//
+// Templated email to families. Placeholders such as {{studentName}} are
+// filled in per student, every message goes through the configured mail
+// transport and each attempt is logged in EmailMessage.
+
+import type { EmailMessage, Prisma } from '@prisma/client';
+import prisma from './prisma';
+import type { AdminActor } from './permissions';
+import { getMailTransport, type OutgoingEmail } from './mailer';
+import { loadAdminStudents, type AdminStudentDTO } from './students';
+import {
+  EMAIL_PATTERN,
+  SCHOOL_LABELS,
+  isTermCode,
+  type ParseResult,
+} from './validation';
+
+// ----------------- Templates -----------------
+
+export type EmailTemplate = {
+  label: string;
+  subject: string;
+  body: string;
+};
+
+export const EMAIL_TEMPLATES = {
+  welcome: {
+    label: 'Welcome',
+    subject: 'Welcome to Baila Kids, {{studentName}}!',
+    body: [
+      'Hi {{parentName}},',
+      '',
+      'Thank you for registering {{studentName}} for Baila Kids at {{school}} for {{term}}.',
+      '',
+      'Classes: {{classes}}',
+      'First class: {{firstClass}}',
+      'Tuition: {{tuition}}',
+      '',
+      'We can’t wait to dance with {{studentName}}!',
+      'Baila Kids',
+    ].join('\n'),
+  },
+  payment_reminder: {
+    label: 'Payment reminder',
+    subject: 'Payment reminder for {{studentName}}',
+    body: [
+      'Hi {{parentName}},',
+      '',
+      'This is a friendly reminder that {{owed}} is still due for {{studentName}}’s {{term}} classes at {{school}} ({{classes}}).',
+      '',
+      'Tuition: {{tuition}}',
+      'Paid so far: {{paid}}',
+      'Balance due: {{owed}}',
+      '',
+      'If you have already paid, thank you, and please ignore this message.',
+      'Baila Kids',
+    ].join('\n'),
+  },
+  class_cancelled: {
+    label: 'Class cancelled',
+    subject: 'No Baila Kids class at {{school}} on {{date}}',
+    body: [
+      'Hi {{parentName}},',
+      '',
+      'There will be no Baila Kids class for {{studentName}} at {{school}} on {{date}}: {{reason}}.',
+      '',
+      'Classes continue as usual the following week.',
+      'Baila Kids',
+    ].join('\n'),
+  },
+  custom: {
+    label: 'Custom message',
+    subject: '',
+    body: 'Hi {{parentName}},\n\n\n\nBaila Kids',
+  },
+} satisfies Record<string, EmailTemplate>;
+
+export type EmailTemplateKey = keyof typeof EMAIL_TEMPLATES;
+
+export const EMAIL_PLACEHOLDERS = {
+  studentName: 'Kid’s name',
+  parentName: 'Parent or guardian',
+  school: 'School',
+  term: 'Term, e.g. Fall 2026',
+  classes: 'Class days and group',
+  firstClass: 'First class date',
+  tuition: 'Total tuition',
+  paid: 'Paid so far',
+  owed: 'Balance due',
+  date: 'The date entered when composing',
+  reason: 'The reason entered when composing',
+};
+
+type PlaceholderName = keyof typeof EMAIL_PLACEHOLDERS;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+function placeholdersIn(text: string) {
+  return Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]);
+}
+
+export function renderTemplate(
+  text: string,
+  values: Record<PlaceholderName, string>
+) {
+  return text.replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+    name in values ? values[name as PlaceholderName] : ''
+  );
+}
+
+// ----------------- Request -----------------
+
+const MAX_RECIPIENTS = 500;
+
+export type EmailRequest = {
+  session: string;
+  studentIds: string[];
+  template: EmailTemplateKey;
+  subject: string;
+  body: string;
+  // YYYY-MM-DD, for {{date}}
+  date: string | null;
+  reason: string | null;
+};
+
+export function parseEmailRequest(
+  body: Record<string, unknown>
+): ParseResult<EmailRequest> {
+  const errors: string[] = [];
+
+  if (!isTermCode(body.session)) {
+    errors.push('session is not a valid term code');
+  }
+
+  const studentIds = Array.isArray(body.studentIds)
+    ? Array.from(
+        new Set(
+          body.studentIds.filter(
+            (id): id is string => typeof id === 'string' && id !== ''
+          )
+        )
+      )
+    : [];
+
+  if (!studentIds.length) {
+    errors.push('studentIds must list at least one student');
+  } else if (studentIds.length > MAX_RECIPIENTS) {
+    errors.push(`at most ${MAX_RECIPIENTS} students can be emailed at once`);
+  }
+
+  if (
+    typeof body.template !== 'string' ||
+    !(body.template in EMAIL_TEMPLATES)
+  ) {
+    errors.push(
+      `template must be one of ${Object.keys(EMAIL_TEMPLATES).join(', ')}`
+    );
+  }
+
+  const subject = typeof body.subject === 'string' ? body.subject.trim() : '';
+  const text = typeof body.body === 'string' ? body.body.trim() : '';
+
+  if (!subject || subject.length > 200) {
+    errors.push('subject is required (up to 200 characters)');
+  }
+
+  if (!text || text.length > 10_000) {
+    errors.push('body is required (up to 10,000 characters)');
+  }
+
+  const used = new Set(placeholdersIn(`${subject}\n${text}`));
+  const unknown = [...used].filter((name) => !(name in EMAIL_PLACEHOLDERS));
+
+  if (unknown.length) {
+    errors.push(
+      `unknown placeholders: ${unknown.map((name) => `{{${name}}}`).join(', ')}`
+    );
+  }
+
+  const date = typeof body.date === 'string' && body.date ? body.date : null;
+
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    errors.push('date must look like 2026-11-26');
+  } else if (!date && used.has('date')) {
+    errors.push('date is required when the message uses {{date}}');
+  }
+
+  const reason =
+    typeof body.reason === 'string' && body.reason.trim()
+      ? body.reason.trim().slice(0, 200)
+      : null;
+
+  if (!reason && used.has('reason')) {
+    errors.push('reason is required when the message uses {{reason}}');
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      session: body.session as string,
+      studentIds,
+      template: body.template as EmailTemplateKey,
+      subject,
+      body: text,
+      date,
+      reason,
+    },
+  };
+}
+
+// ----------------- Rendering -----------------
+
+export type RenderedEmail = OutgoingEmail & {
+  studentId: string;
+  studentName: string;
+};
+
+export type SkippedRecipient = {
+  studentId: string;
+  studentName: string | null;
+  reason: string;
+};
+
+function dollars(cents: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(cents / 100);
+}
+
+// stored dates are midnight UTC
+function longDate(value: string) {
+  return new Date(
+    value.length === 10 ? `${value}T00:00:00Z` : value
+  ).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function studentValues(
+  student: AdminStudentDTO,
+  termLabel: string,
+  request: EmailRequest
+): Record<PlaceholderName, string> {
+  const days = student.selectedDays.join(' & ') || 'not scheduled yet';
+
+  return {
+    studentName: student.studentName,
+    parentName: student.parentName,
+    school: SCHOOL_LABELS[student.school],
+    term: termLabel,
+    classes: student.sessionLabel
+      ? `${days}, group ${student.sessionLabel}`
+      : days,
+    firstClass: longDate(student.startDate),
+    tuition: dollars(student.tuitionCents),
+    paid: dollars(student.paidCents),
+    owed: dollars(student.owedCents),
+    date: request.date ? longDate(request.date) : '',
+    reason: request.reason ?? '',
+  };
+}
+
+/**
+ * One message per requested student the actor can see. Students outside
+ * the term or scope, or without a usable address, come back as skipped.
+ */
+export async function renderEmails(
+  request: EmailRequest,
+  termLabel: string,
+  scope: Prisma.StudentWhereInput
+) {
+  const students = new Map(
+    (await loadAdminStudents(request.session, scope)).map((student) => [
+      student.id,
+      student,
+    ])
+  );
+
+  const messages: RenderedEmail[] = [];
+  const skipped: SkippedRecipient[] = [];
+
+  for (const studentId of request.studentIds) {
+    const student = students.get(studentId);
+
+    if (!student) {
+      skipped.push({
+        studentId,
+        studentName: null,
+        reason: `Not a student you can see in ${termLabel}`,
+      });
+      continue;
+    }
+
+    const to = student.email.trim();
+
+    if (!EMAIL_PATTERN.test(to)) {
+      skipped.push({
+        studentId,
+        studentName: student.studentName,
+        reason: to ? `${to} is not a valid address` : 'No email address',
+      });
+      continue;
+    }
+
+    const values = studentValues(student, termLabel, request);
+
+    messages.push({
+      studentId,
+      studentName: student.studentName,
+      to,
+      subject: renderTemplate(request.subject, values),
+      body: renderTemplate(request.body, values),
+    });
+  }
+
+  return { messages, skipped };
+}
+
+// ----------------- Sending -----------------
+
+// Scheduled jobs send without a signed-in admin.
+export type EmailSender = Pick<AdminActor, 'email'> & { id: string | null };
+
+/**
+ * Sends the messages over one transport session, logging every attempt.
+ * A failed recipient is logged and skipped; it doesn't stop the rest.
+ */
+export async function sendEmails(
+  actor: EmailSender,
+  template: EmailTemplateKey,
+  messages: RenderedEmail[]
+) {
+  const transport = getMailTransport();
+  const session = await transport.open();
+
+  let sent = 0;
+  let failed = 0;
+
+  try {
+    for (const message of messages) {
+      let error: string | null = null;
+
+      try {
+        await session.send(message);
+        sent += 1;
+      } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+        failed += 1;
+      }
+
+      await prisma.emailMessage.create({
+        data: {
+          studentId: message.studentId,
+          toAddress: message.to,
+          subject: message.subject,
+          body: message.body,
+          template,
+          status: error ? 'FAILED' : 'SENT',
+          error,
+          transport: transport.name,
+          sentById: actor.id,
+          sentByEmail: actor.email,
+        },
+      });
+    }
+  } finally {
+    await session.close();
+  }
+
+  return { sent, failed };
+}
+
+export function toEmailLogDTO(message: EmailMessage) {
+  return {
+    id: message.id,
+    createdAt: message.createdAt.toISOString(),
+    toAddress: message.toAddress,
+    subject: message.subject,
+    body: message.body,
+    template: message.template,
+    status: message.status,
+    error: message.error,
+    sentByEmail: message.sentByEmail,
+  };
+}
@@ -0,0 +1,360 @@
+// src/lib/enrollments.ts
+
+import { ClassFrequency, EnrollmentStatus, Prisma } from '@prisma/client';
+import { serializableTransaction } from './prisma';
+import type { AuditEntry } from './audit';
+import type { ParseResult } from './validation';
+
+type Tx = Prisma.TransactionClient;
+
+export class EnrollmentError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'EnrollmentError';
+  }
+}
+
+/** No seat left; the API flags it so the dashboard can offer an override. */
+export class SectionFullError extends EnrollmentError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'SectionFullError';
+  }
+}
+
+const DAY_ORDER: Record<string, number> = {
+  Monday: 1,
+  Tuesday: 2,
+  Wednesday: 3,
+  Thursday: 4,
+  Friday: 5,
+  Saturday: 6,
+  Sunday: 7,
+};
+
+export function sortDays(days: Iterable<string>) {
+  return Array.from(new Set(days)).sort(
+    (a, b) => (DAY_ORDER[a] ?? 99) - (DAY_ORDER[b] ?? 99)
+  );
+}
+
+/** Same rule the students endpoint uses when reporting frequency. */
+export function frequencyForDays(days: string[]): ClassFrequency {
+  return days.length >= 2 ? 'TWICE_A_WEEK' : 'ONCE_A_WEEK';
+}
+
+/** Students with an ACTIVE enrollment in any of the sections. */
+export async function enrolledStudentIds(tx: Tx, sectionIds: string[]) {
+  if (!sectionIds.length) return [];
+
+  const rows = await tx.enrollment.findMany({
+    where: {
+      sectionId: {
+        in: sectionIds,
+      },
+      status: 'ACTIVE',
+    },
+    select: {
+      studentId: true,
+    },
+  });
+
+  return [...new Set(rows.map((row) => row.studentId))];
+}
+
+/**
+ * Rewrites Student.selectedDays / frequency from the student's ACTIVE
+ * enrollments. Students left with no active section keep their old days
+ * so older records still show something.
+ */
+export async function syncStudentSchedule(tx: Tx, studentId: string) {
+  const active = await tx.enrollment.findMany({
+    where: {
+      studentId,
+      status: 'ACTIVE',
+    },
+    select: {
+      section: {
+        select: {
+          day: true,
+        },
+      },
+    },
+  });
+
+  if (!active.length) return null;
+
+  const selectedDays = sortDays(active.map((row) => row.section.day));
+
+  return tx.student.update({
+    where: {
+      id: studentId,
+    },
+    data: {
+      selectedDays,
+      frequency: frequencyForDays(selectedDays),
+    },
+  });
+}
+
+// ----------------- Capacity -----------------
+
+/**
+ * Runs enrollment writes in a serializable transaction, so two admins
+ * taking the last seat at the same moment can't both get it.
+ */
+export function enrollmentTransaction<T>(
+  fn: (tx: Tx) => Promise<T>,
+  { timeout }: { timeout?: number } = {}
+): Promise<T> {
+  return serializableTransaction(fn, {
+    timeout,
+    busyMessage: 'These classes were changing at the same time; try again',
+  });
+}
+
+/** An admin filling a seat past capacity on purpose, and why. */
+export type CapacityOverride = {
+  reason: string;
+};
+
+const MAX_OVERRIDE_REASON = 300;
+
+/** `override` is optional in a request body; absent means no override. */
+export function parseCapacityOverride(
+  value: unknown
+): ParseResult<CapacityOverride | null> {
+  if (value === undefined || value === null) return { ok: true, data: null };
+
+  const reason =
+    typeof value === 'object' && 'reason' in value
+      ? (value as { reason: unknown }).reason
+      : undefined;
+
+  if (typeof reason !== 'string' || !reason.trim()) {
+    return { ok: false, errors: ['A reason is required to overbook a class'] };
+  }
+
+  if (reason.trim().length > MAX_OVERRIDE_REASON) {
+    return {
+      ok: false,
+      errors: [`The reason must be at most ${MAX_OVERRIDE_REASON} characters`],
+    };
+  }
+
+  return { ok: true, data: { reason: reason.trim() } };
+}
+
+/**
+ * Throws when the section has no seat left for one more ACTIVE enrollment,
+ * unless there is an override. Returns true when the seat is past capacity.
+ */
+export async function assertSeatAvailable(
+  tx: Tx,
+  sectionId: string,
+  override: CapacityOverride | null = null
+) {
+  const section = await tx.classSection.findUnique({
+    where: {
+      id: sectionId,
+    },
+    select: {
+      capacity: true,
+      day: true,
+      label: true,
+      _count: {
+        select: {
+          enrollments: {
+            where: {
+              status: 'ACTIVE',
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!section) {
+    throw new EnrollmentError('Section not found', 404);
+  }
+
+  const full = section._count.enrollments >= section.capacity;
+
+  if (full && !override) {
+    throw new SectionFullError(
+      `${section.day} ${section.label} is full (${section.capacity} kids)`
+    );
+  }
+
+  return full;
+}
+
+// ----------------- Schedule changes -----------------
+
+export type ScheduleChange = {
+  studentId: string;
+  add: string[];
+  cancel: string[];
+  override?: CapacityOverride | null;
+};
+
+export type EnrollmentChange = {
+  enrollmentId: string;
+  // e.g. "Tuesday A"
+  section: string;
+  from: EnrollmentStatus | null;
+  to: EnrollmentStatus;
+  // took a seat past capacity under an override
+  overbooked: boolean;
+};
+
+/**
+ * Applies a schedule change inside an interactive transaction: cancels
+ * first (so a move within a full day frees its seat), then activates the
+ * new sections after re-checking capacity, then re-derives the student's
+ * days and frequency.
+ */
+export async function applyScheduleChange(
+  tx: Tx,
+  { studentId, add, cancel, override = null }: ScheduleChange
+) {
+  const student = await tx.student.findUnique({
+    where: {
+      id: studentId,
+    },
+  });
+
+  if (!student) {
+    throw new EnrollmentError('Student not found', 404);
+  }
+
+  const changes: EnrollmentChange[] = [];
+
+  for (const sectionId of cancel) {
+    const enrollment = await tx.enrollment.findUnique({
+      where: {
+        studentId_sectionId: { studentId, sectionId },
+      },
+      include: {
+        section: true,
+      },
+    });
+
+    if (!enrollment || enrollment.status !== 'ACTIVE') {
+      throw new EnrollmentError(
+        'Cannot cancel a section the student is not enrolled in'
+      );
+    }
+
+    await tx.enrollment.update({
+      where: {
+        id: enrollment.id,
+      },
+      data: {
+        status: 'CANCELLED',
+      },
+    });
+
+    changes.push({
+      enrollmentId: enrollment.id,
+      section: `${enrollment.section.day} ${enrollment.section.label}`,
+      from: 'ACTIVE',
+      to: 'CANCELLED',
+      overbooked: false,
+    });
+  }
+
+  for (const sectionId of add) {
+    const section = await tx.classSection.findUnique({
+      where: {
+        id: sectionId,
+      },
+    });
+
+    if (!section || !section.isActive) {
+      throw new EnrollmentError('Section not found or no longer active', 404);
+    }
+
+    if (
+      section.school !== student.school ||
+      section.session !== student.session
+    ) {
+      throw new EnrollmentError(
+        `${section.day} ${section.label} is not offered at this student's school and term`
+      );
+    }
+
+    const existing = await tx.enrollment.findUnique({
+      where: {
+        studentId_sectionId: { studentId, sectionId },
+      },
+    });
+
+    if (existing?.status === 'ACTIVE') continue;
+
+    const overbooked = await assertSeatAvailable(tx, sectionId, override);
+
+    const enrollment = existing
+      ? await tx.enrollment.update({
+          where: {
+            id: existing.id,
+          },
+          data: {
+            status: 'ACTIVE',
+          },
+        })
+      : await tx.enrollment.create({
+          data: {
+            studentId,
+            sectionId,
+            session: section.session,
+          },
+        });
+
+    changes.push({
+      enrollmentId: enrollment.id,
+      section: `${section.day} ${section.label}`,
+      from: existing?.status ?? null,
+      to: 'ACTIVE',
+      overbooked,
+    });
+  }
+
+  await syncStudentSchedule(tx, studentId);
+
+  return { student, changes };
+}
+
+/** Audit entries for a schedule change, with the reason for any overbooking. */
+export function enrollmentAudit(
+  studentId: string,
+  changes: EnrollmentChange[],
+  override: CapacityOverride | null = null
+): AuditEntry[] {
+  return changes.flatMap((change) => [
+    {
+      entity: 'Enrollment' as const,
+      entityId: change.enrollmentId,
+      studentId,
+      action: change.from ? ('UPDATE' as const) : ('CREATE' as const),
+      field: change.section,
+      oldValue: change.from,
+      newValue: change.to,
+    },
+    ...(change.overbooked
+      ? [
+          {
+            entity: 'Enrollment' as const,
+            entityId: change.enrollmentId,
+            studentId,
+            action: 'UPDATE' as const,
+            field: 'capacityOverride',
+            newValue: `${change.section} over capacity: ${override?.reason ?? ''}`,
+          },
+        ]
+      : []),
+  ]);
+}
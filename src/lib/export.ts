@@ -0,0 +1,236 @@
+// src/lib/export.ts
+//
+// Session workbook for the office and the schools. Built from the same
+// loaders the dashboard endpoints use so the numbers always match.
+
+import { School } from '@prisma/client';
+import * as XLSX from 'xlsx';
+import type { AdminStudentDTO } from './students';
+import type { SectionDTO } from './sections';
+import type { WaitlistEntryDTO } from './waitlist';
+import { SCHOOL_LABELS } from './validation';
+
+const SCHOOL_ORDER: School[] = [
+  'SUGARLAND',
+  'KATY',
+  'ALLEN',
+  'FRISCO',
+  'CASTLE_HILLS',
+  'NORTH_DALLAS',
+  'PRESTON_TRAIL',
+];
+
+export type SessionExport = {
+  session: string;
+  students: AdminStudentDTO[];
+  sections: SectionDTO[];
+  waitlist: WaitlistEntryDTO[];
+};
+
+// ----------------- Helpers -----------------
+
+function dollars(cents: number | null | undefined) {
+  return cents == null ? null : cents / 100;
+}
+
+function dateOnly(value: Date | string | null | undefined) {
+  if (!value) return '';
+  return (typeof value === 'string' ? value : value.toISOString()).slice(0, 10);
+}
+
+function sheet(rows: Record<string, unknown>[], headers: string[]) {
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: headers });
+  worksheet['!cols'] = headers.map((header) => ({
+    wch:
+      Math.max(
+        header.length,
+        ...rows.map((row) => String(row[header] ?? '').length)
+      ) + 2,
+  }));
+  return worksheet;
+}
+
+const ROSTER_HEADERS = [
+  'Student',
+  'Age',
+  'Classroom',
+  'Parent',
+  'Phone',
+  'Email',
+  'Days',
+  'Group',
+  'Start date',
+  'Payment status',
+];
+
+function rosterRows(students: AdminStudentDTO[]) {
+  return students.map((student) => ({
+    Student: student.studentName,
+    Age: student.age,
+    Classroom: student.classroom ?? '',
+    Parent: student.parentName,
+    Phone: student.phone,
+    Email: student.email,
+    Days: student.selectedDays.join(' & '),
+    Group: student.sessionLabel ?? '',
+    'Start date': dateOnly(student.startDate),
+    'Payment status': student.paymentStatus,
+  }));
+}
+
+const PAYMENT_HEADERS = [
+  'School',
+  'Student',
+  'Parent',
+  'Email',
+  'Status',
+  'Method',
+  'Discounts',
+  'Tuition',
+  'Paid',
+  'Owed',
+];
+
+function paymentRows(students: AdminStudentDTO[]) {
+  return students.map((student) => ({
+    School: SCHOOL_LABELS[student.school],
+    Student: student.studentName,
+    Parent: student.parentName,
+    Email: student.email,
+    Status: student.paymentStatus,
+    Method: student.paymentMethod ?? '',
+    Discounts: dollars(
+      -student.pricing.discounts.reduce(
+        (total, line) => total + line.amountCents,
+        0
+      )
+    ),
+    Tuition: dollars(student.tuitionCents),
+    Paid: dollars(student.paidCents),
+    Owed: dollars(student.owedCents),
+  }));
+}
+
+const SECTION_HEADERS = [
+  'School',
+  'Day',
+  'Group',
+  'Time',
+  'Start date',
+  'End date',
+  'Price',
+  'Bundle price',
+  'Enrolled',
+  'Capacity',
+  'Seats left',
+  'Active',
+];
+
+function sectionRows(sections: SectionDTO[]) {
+  return sections.map((section) => ({
+    School: SCHOOL_LABELS[section.school],
+    Day: section.day,
+    Group: section.label,
+    Time:
+      section.startTime && section.endTime
+        ? `${section.startTime}–${section.endTime}`
+        : '',
+    'Start date': dateOnly(section.startDate),
+    'End date': dateOnly(section.endDate),
+    Price: dollars(section.priceCents),
+    'Bundle price': dollars(section.bundlePriceCents),
+    Enrolled: section.enrolled,
+    Capacity: section.capacity,
+    'Seats left': section.seatsRemaining,
+    Active: section.isActive ? 'Yes' : 'No',
+  }));
+}
+
+const WAITLIST_HEADERS = [
+  'School',
+  'Requested day',
+  'Place in line',
+  'Status',
+  'Offer until',
+  'Student',
+  'Age',
+  'Classroom',
+  'Parent',
+  'Phone',
+  'Email',
+  'Joined',
+  'Notes',
+];
+
+function waitlistRows(entries: WaitlistEntryDTO[]) {
+  // oldest first, the order families are offered seats in
+  return [...entries]
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map((entry) => ({
+      School: SCHOOL_LABELS[entry.school],
+      'Requested day': entry.requestedDay,
+      'Place in line': entry.position ?? '',
+      Status: entry.status,
+      'Offer until':
+        entry.status === 'OFFERED' && entry.offerExpiresAt
+          ? dateOnly(entry.offerExpiresAt)
+          : '',
+      Student: entry.studentName,
+      Age: entry.age,
+      Classroom: entry.classroom ?? '',
+      Parent: entry.parentName,
+      Phone: entry.phone,
+      Email: entry.email,
+      Joined: dateOnly(entry.createdAt),
+      Notes: entry.notes ?? '',
+    }));
+}
+
+// ----------------- Workbook -----------------
+
+/**
+ * One roster sheet per school that has students, then Payments, Sections
+ * and Waiting list sheets. Returns the .xlsx file contents.
+ */
+export function buildSessionWorkbook({
+  students,
+  sections,
+  waitlist,
+}: SessionExport): Buffer {
+  const workbook = XLSX.utils.book_new();
+
+  for (const school of SCHOOL_ORDER) {
+    const roster = students.filter((student) => student.school === school);
+    if (!roster.length) continue;
+
+    XLSX.utils.book_append_sheet(
+      workbook,
+      sheet(rosterRows(roster), ROSTER_HEADERS),
+      SCHOOL_LABELS[school]
+    );
+  }
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheet(paymentRows(students), PAYMENT_HEADERS),
+    'Payments'
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheet(sectionRows(sections), SECTION_HEADERS),
+    'Sections'
+  );
+
+  XLSX.utils.book_append_sheet(
+    workbook,
+    sheet(waitlistRows(waitlist), WAITLIST_HEADERS),
+    'Waiting list'
+  );
+
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+export function exportFileName(session: string) {
+  return `baila-kids-${session.toLowerCase().replace(/_/g, '-')}.xlsx`;
+}
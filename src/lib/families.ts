@@ -0,0 +1,272 @@
+// src/lib/families.ts
+//
+// Groups students into families by the parent contact on their
+// registrations: a kid whose parent email or phone matches a known
+// guardian joins that family, across schools and terms.
+
+import { Prisma, type Guardian } from '@prisma/client';
+import prisma from './prisma';
+import type { AuditEntry } from './audit';
+import { loadAdminStudents, type AdminStudentDTO } from './students';
+import { listTerms } from './terms';
+import { normalizePhone } from './validation';
+
+type Tx = Prisma.TransactionClient;
+
+// ----------------- Linking -----------------
+
+export function guardianContact(person: { email: string; phone: string }) {
+  return {
+    email: person.email.trim().toLowerCase() || null,
+    phone: normalizePhone(person.phone),
+  };
+}
+
+// Student fields that decide which family a kid belongs to
+const FAMILY_CONTACT_FIELDS = ['parentName', 'email', 'phone'];
+
+/** True when a student update changes the contact families are matched on. */
+export function touchesFamilyContact(patch: object) {
+  return Object.keys(patch).some((key) => FAMILY_CONTACT_FIELDS.includes(key));
+}
+
+/** Moves everything from `from` into `into` and deletes `from`. */
+async function mergeFamilies(tx: Tx, into: string, from: string) {
+  await tx.student.updateMany({
+    where: { familyId: from },
+    data: { familyId: into },
+  });
+  await tx.guardian.updateMany({
+    where: { familyId: from },
+    data: { familyId: into },
+  });
+  await tx.family.delete({
+    where: { id: from },
+  });
+}
+
+// A guardian matches one field and is blank in the other: fill it in.
+// Matching both already, nothing to do. Otherwise it's a new contact.
+async function recordGuardian(
+  tx: Tx,
+  familyId: string,
+  name: string,
+  contact: { email: string | null; phone: string | null }
+) {
+  if (!contact.email && !contact.phone) return;
+
+  const guardians = await tx.guardian.findMany({
+    where: { familyId },
+  });
+
+  const covers = (guardian: Guardian) =>
+    (!contact.email || guardian.email === contact.email) &&
+    (!contact.phone || guardian.phone === contact.phone);
+
+  if (guardians.some(covers)) return;
+
+  const partial = guardians.find(
+    (guardian) =>
+      (contact.email && guardian.email === contact.email && !guardian.phone) ||
+      (contact.phone && guardian.phone === contact.phone && !guardian.email)
+  );
+
+  if (partial) {
+    await tx.guardian.update({
+      where: { id: partial.id },
+      data: {
+        email: partial.email ?? contact.email,
+        phone: partial.phone ?? contact.phone,
+      },
+    });
+    return;
+  }
+
+  await tx.guardian.create({
+    data: {
+      familyId,
+      name: name.trim() || 'Parent',
+      ...contact,
+    },
+  });
+}
+
+/**
+ * Puts the student in the family of any guardian sharing their parent's
+ * email or phone, creating one if there's none. When the contact matches
+ * two families (mom's email on one, dad's phone on the other) they are
+ * one family and get merged into the older. A student already in a family
+ * stays there, and families matching a changed contact merge into it.
+ * Call it whenever a student is created or their parent contact changes.
+ * Returns the audit entries for the caller to record alongside its own.
+ */
+export async function linkStudentToFamily(tx: Tx, studentId: string) {
+  const student = await tx.student.findUniqueOrThrow({
+    where: { id: studentId },
+  });
+
+  const contact = guardianContact(student);
+  const audit: AuditEntry[] = [];
+
+  const matches = await tx.guardian.findMany({
+    where: {
+      OR: [
+        ...(contact.email ? [{ email: contact.email }] : []),
+        ...(contact.phone ? [{ phone: contact.phone }] : []),
+      ],
+    },
+    select: { familyId: true },
+    orderBy: { family: { createdAt: 'asc' } },
+  });
+
+  const familyIds = [
+    ...new Set([
+      ...(student.familyId ? [student.familyId] : []),
+      ...(contact.email || contact.phone
+        ? matches.map((match) => match.familyId)
+        : []),
+    ]),
+  ];
+
+  let familyId = familyIds[0];
+
+  if (!familyId) {
+    const family = await tx.family.create({
+      data: {
+        name: student.parentName.trim() || student.studentName,
+        // the family is as old as its first registration
+        createdAt: student.createdAt,
+      },
+    });
+
+    familyId = family.id;
+    audit.push({
+      entity: 'Family',
+      entityId: family.id,
+      studentId: student.id,
+      action: 'CREATE',
+      newValue: family.name,
+    });
+  }
+
+  for (const other of familyIds.slice(1)) {
+    await mergeFamilies(tx, familyId, other);
+    audit.push({
+      entity: 'Family',
+      entityId: other,
+      studentId: student.id,
+      action: 'DELETE',
+      oldValue: `merged into ${familyId}`,
+    });
+  }
+
+  await recordGuardian(tx, familyId, student.parentName, contact);
+
+  if (student.familyId === familyId) return { familyId, audit };
+
+  await tx.student.update({
+    where: { id: student.id },
+    data: { familyId },
+  });
+
+  audit.push({
+    entity: 'Student',
+    entityId: student.id,
+    studentId: student.id,
+    action: 'UPDATE',
+    field: 'familyId',
+    oldValue: null,
+    newValue: familyId,
+  });
+
+  return { familyId, audit };
+}
+
+// ----------------- Family view -----------------
+
+export type FamilyStudentDTO = AdminStudentDTO & {
+  session: string;
+  termLabel: string;
+};
+
+export type FamilyDTO = {
+  id: string;
+  name: string;
+  createdAt: string;
+  guardians: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+  }[];
+  // newest term first
+  students: FamilyStudentDTO[];
+  tuitionCents: number;
+  paidCents: number;
+  owedCents: number;
+};
+
+/**
+ * The family with every child the actor can see, in every term, and the
+ * balance summed over all of them.
+ */
+export async function loadFamily(
+  familyId: string,
+  scope: Prisma.StudentWhereInput = {}
+): Promise<FamilyDTO | null> {
+  const family = await prisma.family.findUnique({
+    where: { id: familyId },
+    include: {
+      guardians: {
+        orderBy: { createdAt: 'asc' },
+      },
+      students: {
+        where: scope,
+        select: { session: true },
+      },
+    },
+  });
+
+  if (!family) return null;
+
+  const sessions = new Set(family.students.map((student) => student.session));
+  const terms = (await listTerms({ includeInactive: true })).filter((term) =>
+    sessions.has(term.code)
+  );
+
+  const students: FamilyStudentDTO[] = [];
+
+  for (const term of terms) {
+    const rows = await loadAdminStudents(term.code, {
+      ...scope,
+      familyId,
+    });
+
+    students.push(
+      ...rows.map((row) => ({
+        ...row,
+        session: term.code,
+        termLabel: term.label,
+      }))
+    );
+  }
+
+  const sum = (key: 'tuitionCents' | 'paidCents' | 'owedCents') =>
+    students.reduce((total, student) => total + student[key], 0);
+
+  return {
+    id: family.id,
+    name: family.name,
+    createdAt: family.createdAt.toISOString(),
+    guardians: family.guardians.map((guardian) => ({
+      id: guardian.id,
+      name: guardian.name,
+      email: guardian.email,
+      phone: guardian.phone,
+    })),
+    students,
+    tuitionCents: sum('tuitionCents'),
+    paidCents: sum('paidCents'),
+    owedCents: sum('owedCents'),
+  };
+}
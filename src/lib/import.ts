@@ -0,0 +1,893 @@
+// src/lib/import.ts
+//
+// Spreadsheet import of class sections and student registrations. The
+// same plan is computed for the dry run and, inside the transaction,
+// for the commit so what the office previewed is what gets written.
+
+import {
+  Day,
+  PaymentStatus,
+  Prisma,
+  School,
+  type ClassSection,
+  type Student,
+} from '@prisma/client';
+import * as XLSX from 'xlsx';
+import type { AdminActor } from './permissions';
+import { canAccessSchool } from './permissions';
+import {
+  auditValue,
+  changedFields,
+  recordAudit,
+  type AuditEntry,
+} from './audit';
+import {
+  applyScheduleChange,
+  enrolledStudentIds,
+  enrollmentAudit,
+  frequencyForDays,
+  sortDays,
+} from './enrollments';
+import { linkStudentToFamily, touchesFamilyContact } from './families';
+import {
+  backfillLegacyPayments,
+  recordPaidInFull,
+  syncPaymentStatuses,
+} from './ledger';
+import {
+  SCHOOL_CITY,
+  parseSectionInput,
+  parseStudentUpdate,
+  type SectionInput,
+  type StudentUpdate,
+} from './validation';
+
+type Tx = Prisma.TransactionClient;
+
+export type ImportKind = 'students' | 'sections';
+
+export const IMPORT_KINDS: ImportKind[] = ['students', 'sections'];
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export type ImportRowStatus = 'new' | 'updated' | 'duplicate' | 'invalid';
+
+export type ImportFieldChange = {
+  field: string;
+  from: string | null;
+  to: string | null;
+};
+
+export type ImportRowResult = {
+  // spreadsheet row number, counting the header as row 1
+  row: number;
+  status: ImportRowStatus;
+  label: string;
+  reasons: string[];
+  changes: ImportFieldChange[];
+};
+
+type SectionOp =
+  | { status: 'new'; data: SectionInput }
+  | {
+      status: 'updated';
+      existing: ClassSection;
+      patch: Partial<SectionInput>;
+    };
+
+type StudentOp =
+  | {
+      status: 'new';
+      data: Prisma.StudentUncheckedCreateInput;
+      sectionIds: string[];
+    }
+  | {
+      status: 'updated';
+      existing: Student;
+      patch: Partial<StudentUpdate>;
+      add: string[];
+      cancel: string[];
+    };
+
+export type ImportPlan = {
+  kind: ImportKind;
+  session: string;
+  rows: ImportRowResult[];
+  summary: Record<ImportRowStatus, number>;
+  sectionOps: SectionOp[];
+  studentOps: StudentOp[];
+};
+
+type SheetRow = Record<string, unknown>;
+
+// ----------------- Reading the file -----------------
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// "Start Date", "start_date" and "startdate" all become "startdate".
+function headerKey(header: string) {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function cellValue(value: unknown) {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'string') return value.trim();
+  return value;
+}
+
+/**
+ * Reads the first sheet of a CSV or XLSX file into rows keyed by the
+ * normalized header.
+ */
+export function readSheetRows(file: Buffer): SheetRow[] {
+  let workbook: XLSX.WorkBook;
+
+  try {
+    workbook = XLSX.read(file, { type: 'buffer', cellDates: true });
+  } catch {
+    throw new ImportError('The file is not a readable CSV or Excel file');
+  }
+
+  const first = workbook.SheetNames[0];
+  if (!first) throw new ImportError('The file has no sheets');
+
+  const raw = XLSX.utils.sheet_to_json<SheetRow>(workbook.Sheets[first], {
+    defval: '',
+  });
+
+  if (raw.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(
+      `The file has ${raw.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`
+    );
+  }
+
+  return raw.map((row) =>
+    Object.fromEntries(
+      Object.entries(row).map(([key, value]) => [
+        headerKey(key),
+        cellValue(value),
+      ])
+    )
+  );
+}
+
+// ----------------- Cell helpers -----------------
+
+function pick(row: SheetRow, keys: string[]) {
+  for (const key of keys) {
+    const value = row[key];
+    if (value !== undefined && value !== '') return value;
+  }
+  return undefined;
+}
+
+function hasColumn(rows: SheetRow[], keys: string[]) {
+  return rows.some((row) => keys.some((key) => key in row));
+}
+
+function text(value: unknown) {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+// Accepts "Sugar Land", "sugarland" or "SUGARLAND".
+function matchEnum<T extends string>(values: T[], value: unknown) {
+  const wanted = text(value)
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, '');
+  if (!wanted) return undefined;
+  return values.find((item) => item.replace(/_/g, '') === wanted);
+}
+
+function matchDay(value: unknown) {
+  const wanted = text(value).toLowerCase();
+  if (wanted.length < 3) return undefined;
+  return Object.values(Day).find((day) => day.toLowerCase().startsWith(wanted));
+}
+
+// "Monday & Wednesday", "Mon, Wed" or "Tue/Thu"
+function splitDays(value: unknown) {
+  return text(value)
+    .split(/\s*(?:[,&/+;]|\band\b)\s*/i)
+    .filter(Boolean);
+}
+
+// "$180", "180.00" or 180 -> 18000
+function centsFrom(value: unknown) {
+  if (value === undefined) return undefined;
+  const amount =
+    typeof value === 'number'
+      ? value
+      : Number(text(value).replace(/[$,\s]/g, ''));
+  return Number.isFinite(amount) ? Math.round(amount * 100) : NaN;
+}
+
+function wholeNumber(value: unknown) {
+  if (value === undefined) return undefined;
+  const number = typeof value === 'number' ? value : Number(text(value));
+  return Number.isFinite(number) ? number : NaN;
+}
+
+function diff<T extends Record<string, unknown>>(
+  before: T,
+  patch: Partial<T>
+): ImportFieldChange[] {
+  return Object.keys(patch)
+    .filter((field) => auditValue(before[field]) !== auditValue(patch[field]))
+    .map((field) => ({
+      field,
+      from: auditValue(before[field]),
+      to: auditValue(patch[field]),
+    }));
+}
+
+function summarize(rows: ImportRowResult[]) {
+  const summary: Record<ImportRowStatus, number> = {
+    new: 0,
+    updated: 0,
+    duplicate: 0,
+    invalid: 0,
+  };
+  for (const row of rows) summary[row.status] += 1;
+  return summary;
+}
+
+// ----------------- Sections -----------------
+
+const SECTION_COLUMNS = {
+  school: ['school', 'location'],
+  day: ['day'],
+  label: ['label', 'group'],
+  startDate: ['startdate', 'start'],
+  endDate: ['enddate', 'end'],
+  startTime: ['starttime', 'from'],
+  endTime: ['endtime', 'to'],
+  capacity: ['capacity', 'seats'],
+  price: ['price', 'tuition'],
+  bundlePrice: ['bundleprice', 'bundle'],
+  eligibleClasses: ['eligibleclasses', 'classes', 'grades'],
+};
+
+function sectionKey(section: { school: School; day: Day; label: string }) {
+  return `${section.school}|${section.day}|${section.label.toUpperCase()}`;
+}
+
+async function planSections(
+  db: Tx,
+  actor: AdminActor,
+  session: string,
+  sheet: SheetRow[]
+) {
+  const existing = await db.classSection.findMany({
+    where: {
+      session,
+    },
+    include: {
+      _count: {
+        select: {
+          enrollments: {
+            where: {
+              status: 'ACTIVE',
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const byKey = new Map(
+    existing.map((section) => [sectionKey(section), section])
+  );
+  const seen = new Map<string, number>();
+
+  const rows: ImportRowResult[] = [];
+  const ops: SectionOp[] = [];
+
+  sheet.forEach((cells, index) => {
+    const row = index + 2;
+    const reasons: string[] = [];
+
+    const rawSchool = pick(cells, SECTION_COLUMNS.school);
+    const rawDay = pick(cells, SECTION_COLUMNS.day);
+    const school = matchEnum(Object.values(School), rawSchool);
+    const day = matchDay(rawDay);
+
+    if (!school) reasons.push(`unknown School "${text(rawSchool)}"`);
+    if (!day) reasons.push(`unknown Day "${text(rawDay)}"`);
+
+    const price = centsFrom(pick(cells, SECTION_COLUMNS.price));
+    const bundle = centsFrom(pick(cells, SECTION_COLUMNS.bundlePrice));
+
+    const parsed = parseSectionInput({
+      school,
+      city: school ? SCHOOL_CITY[school] : undefined,
+      day,
+      label: text(pick(cells, SECTION_COLUMNS.label)) || 'A',
+      session,
+      startDate: text(pick(cells, SECTION_COLUMNS.startDate)) || null,
+      endDate: text(pick(cells, SECTION_COLUMNS.endDate)) || null,
+      startTime: text(pick(cells, SECTION_COLUMNS.startTime)) || null,
+      endTime: text(pick(cells, SECTION_COLUMNS.endTime)) || null,
+      capacity: wholeNumber(pick(cells, SECTION_COLUMNS.capacity)) ?? 22,
+      priceCents: price,
+      bundlePriceCents: bundle ?? null,
+      eligibleClasses: splitDays(pick(cells, SECTION_COLUMNS.eligibleClasses)),
+      isActive: true,
+    });
+
+    const label = [
+      text(rawSchool),
+      text(rawDay),
+      text(pick(cells, SECTION_COLUMNS.label)),
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    // unknown school/day are already reported in plain words above
+    if (!parsed.ok) {
+      reasons.push(
+        ...parsed.errors.filter(
+          (error) =>
+            !(school === undefined && /^(school|city)/.test(error)) &&
+            !(day === undefined && error.startsWith('day'))
+        )
+      );
+    }
+
+    if (school && !canAccessSchool(actor, school)) {
+      reasons.push(`you do not have access to ${school}`);
+    }
+
+    if (reasons.length || !parsed.ok) {
+      rows.push({ row, status: 'invalid', label, reasons, changes: [] });
+      return;
+    }
+
+    const data = parsed.data as SectionInput;
+    const key = sectionKey(data);
+
+    const earlier = seen.get(key);
+    if (earlier) {
+      rows.push({
+        row,
+        status: 'duplicate',
+        label,
+        reasons: [`same section as row ${earlier}`],
+        changes: [],
+      });
+      return;
+    }
+    seen.set(key, row);
+
+    const current = byKey.get(key);
+
+    if (!current) {
+      rows.push({ row, status: 'new', label, reasons: [], changes: [] });
+      ops.push({ status: 'new', data });
+      return;
+    }
+
+    // school, day, label and term are the match key; the rest may change
+    const patch: Partial<SectionInput> = {
+      startDate: data.startDate,
+      endDate: data.endDate,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      capacity: data.capacity,
+      priceCents: data.priceCents,
+      bundlePriceCents: data.bundlePriceCents,
+      eligibleClasses: data.eligibleClasses,
+      isActive: data.isActive,
+    };
+    const changes = diff(current, patch);
+
+    if (!changes.length) {
+      rows.push({
+        row,
+        status: 'duplicate',
+        label,
+        reasons: ['already up to date'],
+        changes: [],
+      });
+      return;
+    }
+
+    if (data.capacity < current._count.enrollments) {
+      rows.push({
+        row,
+        status: 'invalid',
+        label,
+        reasons: [
+          `capacity cannot be lower than the ${current._count.enrollments} kids already enrolled`,
+        ],
+        changes,
+      });
+      return;
+    }
+
+    const changed = Object.fromEntries(
+      changes.map((change) => [
+        change.field,
+        patch[change.field as keyof typeof patch],
+      ])
+    ) as Partial<SectionInput>;
+
+    rows.push({ row, status: 'updated', label, reasons: [], changes });
+    ops.push({ status: 'updated', existing: current, patch: changed });
+  });
+
+  return { rows, ops };
+}
+
+// ----------------- Students -----------------
+
+const STUDENT_COLUMNS = {
+  studentName: ['studentname', 'student', 'childname', 'name'],
+  age: ['age'],
+  parentName: ['parentname', 'parent', 'guardian'],
+  phone: ['phone', 'parentphone', 'phonenumber'],
+  email: ['email', 'parentemail'],
+  school: ['school', 'location'],
+  classroom: ['classroom', 'class', 'grade'],
+  days: ['days', 'selecteddays', 'day'],
+  label: ['group', 'label'],
+  paymentStatus: ['paymentstatus', 'status'],
+  paymentMethod: ['paymentmethod', 'method'],
+};
+
+const STUDENT_PAYMENT_COLUMNS = [
+  ...STUDENT_COLUMNS.paymentStatus,
+  ...STUDENT_COLUMNS.paymentMethod,
+];
+
+/** Payment columns need the payments permission on top of records. */
+export function importsPaymentColumns(rows: SheetRow[]) {
+  return hasColumn(rows, STUDENT_PAYMENT_COLUMNS);
+}
+
+function studentKey(student: {
+  school: School;
+  studentName: string;
+  email: string;
+}) {
+  return [
+    student.school,
+    student.studentName.trim().toLowerCase(),
+    student.email.trim().toLowerCase(),
+  ].join('|');
+}
+
+function sectionName(section: { day: string; label: string }) {
+  return `${section.day} ${section.label}`;
+}
+
+async function planStudents(
+  db: Tx,
+  actor: AdminActor,
+  session: string,
+  sheet: SheetRow[]
+) {
+  const [students, sections] = await Promise.all([
+    db.student.findMany({
+      where: {
+        session,
+      },
+      include: {
+        Enrollment: {
+          where: {
+            status: 'ACTIVE',
+          },
+          select: {
+            sectionId: true,
+          },
+        },
+      },
+    }),
+    db.classSection.findMany({
+      where: {
+        session,
+        isActive: true,
+      },
+      include: {
+        _count: {
+          select: {
+            enrollments: {
+              where: {
+                status: 'ACTIVE',
+              },
+            },
+          },
+        },
+      },
+      orderBy: {
+        label: 'asc',
+      },
+    }),
+  ]);
+
+  const byKey = new Map(
+    students.map((student) => [studentKey(student), student])
+  );
+  const sectionById = new Map(sections.map((section) => [section.id, section]));
+  // seats taken so far, including the rows planned above this one
+  const taken = new Map(
+    sections.map((section) => [section.id, section._count.enrollments])
+  );
+  const seen = new Map<string, number>();
+
+  const importsPayments = importsPaymentColumns(sheet);
+
+  const rows: ImportRowResult[] = [];
+  const ops: StudentOp[] = [];
+
+  sheet.forEach((cells, index) => {
+    const row = index + 2;
+    const reasons: string[] = [];
+
+    const rawSchool = pick(cells, STUDENT_COLUMNS.school);
+    const school = matchEnum(Object.values(School), rawSchool);
+    const label =
+      text(pick(cells, STUDENT_COLUMNS.studentName)) || `Row ${row}`;
+
+    if (!school) reasons.push(`unknown School "${text(rawSchool)}"`);
+    else if (!canAccessSchool(actor, school)) {
+      reasons.push(`you do not have access to ${school}`);
+    }
+
+    const rawDays = splitDays(pick(cells, STUDENT_COLUMNS.days));
+    const days: Day[] = [];
+    for (const raw of rawDays) {
+      const day = matchDay(raw);
+      if (day) days.push(day);
+      else reasons.push(`unknown Day "${raw}"`);
+    }
+    if (!rawDays.length) reasons.push('days are required');
+
+    const rawStatus = pick(cells, STUDENT_COLUMNS.paymentStatus);
+    const paymentStatus =
+      rawStatus === undefined
+        ? undefined
+        : (matchEnum(Object.values(PaymentStatus), rawStatus) ??
+          text(rawStatus));
+
+    const body: Record<string, unknown> = {
+      studentName: text(pick(cells, STUDENT_COLUMNS.studentName)),
+      parentName: text(pick(cells, STUDENT_COLUMNS.parentName)),
+      email: text(pick(cells, STUDENT_COLUMNS.email)),
+      phone: text(pick(cells, STUDENT_COLUMNS.phone)),
+      classroom: text(pick(cells, STUDENT_COLUMNS.classroom)) || null,
+      age: wholeNumber(pick(cells, STUDENT_COLUMNS.age)) ?? null,
+    };
+
+    if (importsPayments) {
+      if (paymentStatus !== undefined) body.paymentStatus = paymentStatus;
+      body.paymentMethod =
+        text(pick(cells, STUDENT_COLUMNS.paymentMethod)) || null;
+    }
+
+    const parsed = parseStudentUpdate(body);
+    if (!parsed.ok) reasons.push(...parsed.errors);
+
+    // one section per requested day, in the requested group if given
+    const group = text(pick(cells, STUDENT_COLUMNS.label)).toUpperCase();
+    const wanted: typeof sections = [];
+
+    if (school) {
+      for (const day of sortDays(days) as Day[]) {
+        const section = sections.find(
+          (candidate) =>
+            candidate.school === school &&
+            candidate.day === day &&
+            (!group || candidate.label.toUpperCase() === group)
+        );
+        if (section) wanted.push(section);
+        else
+          reasons.push(
+            `no ${day}${group ? ` ${group}` : ''} section at ${school} this term`
+          );
+      }
+    }
+
+    if (reasons.length || !parsed.ok || !school) {
+      rows.push({ row, status: 'invalid', label, reasons, changes: [] });
+      return;
+    }
+
+    const fields = parsed.data as StudentUpdate;
+    const key = studentKey({ ...fields, school });
+
+    const earlier = seen.get(key);
+    if (earlier) {
+      rows.push({
+        row,
+        status: 'duplicate',
+        label,
+        reasons: [`same student as row ${earlier}`],
+        changes: [],
+      });
+      return;
+    }
+    seen.set(key, row);
+
+    const current = byKey.get(key);
+    const currentIds = current?.Enrollment.map((item) => item.sectionId) ?? [];
+    const wantedIds = wanted.map((section) => section.id);
+    const add = wantedIds.filter((id) => !currentIds.includes(id));
+    const cancel = currentIds.filter((id) => !wantedIds.includes(id));
+
+    const full = add
+      .map((id) => sectionById.get(id))
+      .filter(
+        (section): section is (typeof sections)[number] =>
+          !!section && (taken.get(section.id) ?? 0) >= section.capacity
+      );
+
+    if (full.length) {
+      rows.push({
+        row,
+        status: 'invalid',
+        label,
+        reasons: full.map(
+          (section) =>
+            `${sectionName(section)} is full (${section.capacity} kids)`
+        ),
+        changes: [],
+      });
+      return;
+    }
+
+    for (const id of add) taken.set(id, (taken.get(id) ?? 0) + 1);
+    for (const id of cancel) taken.set(id, (taken.get(id) ?? 0) - 1);
+
+    if (!current) {
+      const selectedDays = sortDays(wanted.map((section) => section.day));
+      const startDates = wanted
+        .map((section) => section.startDate)
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => a.getTime() - b.getTime());
+
+      rows.push({ row, status: 'new', label, reasons: [], changes: [] });
+      ops.push({
+        status: 'new',
+        data: {
+          ...fields,
+          school,
+          city: SCHOOL_CITY[school],
+          session,
+          selectedDays,
+          frequency: frequencyForDays(selectedDays),
+          startDate: startDates[0] ?? new Date(),
+        },
+        sectionIds: wantedIds,
+      });
+      return;
+    }
+
+    const changes = diff(current, fields);
+
+    if (add.length || cancel.length) {
+      const names = (ids: string[]) =>
+        ids
+          .map((id) => sectionById.get(id))
+          .filter((section) => !!section)
+          .map(sectionName)
+          .join(', ') || null;
+
+      changes.push({
+        field: 'sections',
+        from: names(currentIds),
+        to: names(wantedIds),
+      });
+    }
+
+    if (!changes.length) {
+      rows.push({
+        row,
+        status: 'duplicate',
+        label,
+        reasons: ['already up to date'],
+        changes: [],
+      });
+      return;
+    }
+
+    const patch = Object.fromEntries(
+      changes
+        .filter((change) => change.field in fields)
+        .map((change) => [
+          change.field,
+          fields[change.field as keyof StudentUpdate],
+        ])
+    ) as Partial<StudentUpdate>;
+
+    rows.push({ row, status: 'updated', label, reasons: [], changes });
+    ops.push({ status: 'updated', existing: current, patch, add, cancel });
+  });
+
+  return { rows, ops };
+}
+
+// ----------------- Plan / apply -----------------
+
+export async function planImport(
+  db: Tx,
+  actor: AdminActor,
+  {
+    kind,
+    session,
+    rows: sheet,
+  }: { kind: ImportKind; session: string; rows: SheetRow[] }
+): Promise<ImportPlan> {
+  if (kind === 'sections') {
+    const { rows, ops } = await planSections(db, actor, session, sheet);
+    return {
+      kind,
+      session,
+      rows,
+      summary: summarize(rows),
+      sectionOps: ops,
+      studentOps: [],
+    };
+  }
+
+  const { rows, ops } = await planStudents(db, actor, session, sheet);
+  return {
+    kind,
+    session,
+    rows,
+    summary: summarize(rows),
+    sectionOps: [],
+    studentOps: ops,
+  };
+}
+
+/**
+ * Writes the new and updated rows of a plan, then sets the payment status
+ * of everyone whose tuition it changed from their ledger. Must run inside
+ * the same transaction the plan was computed in; any failure rolls back
+ * the whole import.
+ */
+export async function applyImportPlan(
+  tx: Tx,
+  actor: AdminActor,
+  plan: ImportPlan
+) {
+  // existing students whose tuition the import can change: their own row,
+  // or a new price on a section they are in
+  const repriced = await enrolledStudentIds(
+    tx,
+    plan.sectionOps.flatMap((op) =>
+      op.status === 'updated' &&
+      ('priceCents' in op.patch || 'bundlePriceCents' in op.patch)
+        ? [op.existing.id]
+        : []
+    )
+  );
+  const touched = [
+    ...repriced,
+    ...plan.studentOps.flatMap((op) =>
+      op.status === 'updated' ? [op.existing.id] : []
+    ),
+  ];
+  const markedPaid: string[] = [];
+
+  await recordAudit(tx, actor, await backfillLegacyPayments(tx, touched));
+
+  for (const op of plan.sectionOps) {
+    if (op.status === 'new') {
+      const section = await tx.classSection.create({
+        data: op.data,
+      });
+
+      await recordAudit(tx, actor, [
+        {
+          entity: 'ClassSection',
+          entityId: section.id,
+          action: 'CREATE',
+          newValue: `${section.school} ${section.day} ${section.label} (${section.session})`,
+        },
+      ]);
+      continue;
+    }
+
+    await tx.classSection.update({
+      where: {
+        id: op.existing.id,
+      },
+      data: op.patch,
+    });
+
+    await recordAudit(
+      tx,
+      actor,
+      changedFields(op.existing, op.patch, {
+        entity: 'ClassSection',
+        entityId: op.existing.id,
+      })
+    );
+  }
+
+  for (const op of plan.studentOps) {
+    const entries: AuditEntry[] = [];
+    let studentId: string;
+
+    if (op.status === 'new') {
+      const student = await tx.student.create({
+        data: op.data,
+      });
+
+      studentId = student.id;
+      entries.push({
+        entity: 'Student',
+        entityId: student.id,
+        studentId: student.id,
+        action: 'CREATE',
+        newValue: `${student.studentName} (import)`,
+      });
+      entries.push(...(await linkStudentToFamily(tx, student.id)).audit);
+    } else {
+      studentId = op.existing.id;
+
+      if (Object.keys(op.patch).length) {
+        await tx.student.update({
+          where: {
+            id: studentId,
+          },
+          data: op.patch,
+        });
+
+        entries.push(
+          ...changedFields(op.existing, op.patch, {
+            entity: 'Student',
+            entityId: studentId,
+            studentId,
+          })
+        );
+
+        if (touchesFamilyContact(op.patch)) {
+          entries.push(...(await linkStudentToFamily(tx, studentId)).audit);
+        }
+      }
+    }
+
+    const add = op.status === 'new' ? op.sectionIds : op.add;
+    const cancel = op.status === 'new' ? [] : op.cancel;
+
+    if (add.length || cancel.length) {
+      const { changes } = await applyScheduleChange(tx, {
+        studentId,
+        add,
+        cancel,
+      });
+
+      entries.push(...enrollmentAudit(studentId, changes));
+    }
+
+    touched.push(studentId);
+    if ((op.status === 'new' ? op.data : op.patch).paymentStatus === 'PAID') {
+      markedPaid.push(studentId);
+    }
+
+    await recordAudit(tx, actor, entries);
+  }
+
+  // a sheet saying PAID is a payment the ledger hasn't seen yet
+  await recordAudit(tx, actor, [
+    ...(await recordPaidInFull(tx, markedPaid, 'Marked paid in an import')),
+    ...(await syncPaymentStatuses(tx, [...new Set(touched)])),
+  ]);
+}
+
+/** The plan without the internal write operations, for the API response. */
+export function importPreview(plan: ImportPlan) {
+  return {
+    kind: plan.kind,
+    session: plan.session,
+    summary: plan.summary,
+    rows: plan.rows,
+  };
+}
@@ -0,0 +1,444 @@
+// src/lib/invoices.ts
+//
+// Invoice and receipt PDFs for a student, a family or a whole school.
+// Prices come from the pricing engine (via loadAdminStudents) so a PDF
+// always matches the dashboard. Optional settings:
+//   INVOICE_LOGO_PATH – PNG or JPEG drawn in the header (otherwise a
+//                       text wordmark)
+//   INVOICE_ADDRESS   – address lines, separated by "|"
+//   INVOICE_TAX_ID    – EIN printed for reimbursement and tax forms
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import type {
+  ClassSection,
+  Payment,
+  Prisma,
+  School,
+  Term,
+} from '@prisma/client';
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import prisma from './prisma';
+import { isoDate } from './calendar';
+import { loadAdminStudents, type AdminStudentDTO } from './students';
+import { SCHOOL_LABELS } from './validation';
+
+export type InvoiceKind = 'invoice' | 'receipt';
+
+export function isInvoiceKind(value: unknown): value is InvoiceKind {
+  return value === 'invoice' || value === 'receipt';
+}
+
+type InvoiceStudent = {
+  student: AdminStudentDTO;
+  sections: ClassSection[];
+  payments: Payment[];
+};
+
+export type InvoiceDocument = {
+  kind: InvoiceKind;
+  term: Term;
+  number: string;
+  billTo: {
+    name: string;
+    email: string;
+    phone: string;
+  };
+  students: InvoiceStudent[];
+};
+
+// ----------------- Loading -----------------
+
+async function loadInvoiceStudents(
+  term: Term,
+  where: Prisma.StudentWhereInput
+): Promise<InvoiceStudent[]> {
+  const students = await loadAdminStudents(term.code, where);
+  const ids = students.map((student) => student.id);
+
+  const [enrollments, payments] = await Promise.all([
+    prisma.enrollment.findMany({
+      where: {
+        studentId: {
+          in: ids,
+        },
+        status: 'ACTIVE',
+        section: {
+          session: term.code,
+        },
+      },
+      include: {
+        section: true,
+      },
+    }),
+    prisma.payment.findMany({
+      where: {
+        studentId: {
+          in: ids,
+        },
+      },
+      orderBy: {
+        paidAt: 'asc',
+      },
+    }),
+  ]);
+
+  return students.map((student) => ({
+    student,
+    sections: enrollments
+      .filter((enrollment) => enrollment.studentId === student.id)
+      .map((enrollment) => enrollment.section)
+      .sort(
+        (a, b) =>
+          DAY_ORDER.indexOf(a.day) - DAY_ORDER.indexOf(b.day) ||
+          a.label.localeCompare(b.label)
+      ),
+    payments: payments.filter((payment) => payment.studentId === student.id),
+  }));
+}
+
+const DAY_ORDER = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
+function toDocument(
+  kind: InvoiceKind,
+  term: Term,
+  key: string,
+  students: InvoiceStudent[]
+): InvoiceDocument {
+  const first = students[0].student;
+
+  return {
+    kind,
+    term,
+    // stable, so a re-download is the same invoice
+    number: `${term.code}-${key.slice(-8).toUpperCase()}`,
+    billTo: {
+      name: first.parentName,
+      email: first.email,
+      phone: first.phone,
+    },
+    students,
+  };
+}
+
+/** One student's registration in their own term. */
+export async function studentInvoice(
+  kind: InvoiceKind,
+  studentId: string,
+  scope: Prisma.StudentWhereInput
+) {
+  const student = await prisma.student.findUnique({
+    where: {
+      id: studentId,
+    },
+    include: {
+      term: true,
+    },
+  });
+
+  if (!student) return null;
+
+  const rows = await loadInvoiceStudents(student.term, {
+    ...scope,
+    id: studentId,
+  });
+
+  return rows.length ? toDocument(kind, student.term, studentId, rows) : null;
+}
+
+/** Every kid in the family registered in the term, on one document. */
+export async function familyInvoice(
+  kind: InvoiceKind,
+  familyId: string,
+  term: Term,
+  scope: Prisma.StudentWhereInput
+) {
+  const rows = await loadInvoiceStudents(term, {
+    ...scope,
+    familyId,
+  });
+
+  return rows.length ? toDocument(kind, term, familyId, rows) : null;
+}
+
+/** One document per family (or per student without one) at the school. */
+export async function schoolInvoices(
+  kind: InvoiceKind,
+  term: Term,
+  school: School,
+  scope: Prisma.StudentWhereInput
+) {
+  const rows = await loadInvoiceStudents(term, {
+    ...scope,
+    AND: [{ school }],
+  });
+
+  const groups = new Map<string, InvoiceStudent[]>();
+
+  for (const row of rows) {
+    const key = row.student.familyId ?? row.student.id;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  return [...groups.entries()].map(([key, students]) =>
+    toDocument(kind, term, key, students)
+  );
+}
+
+// ----------------- Rendering -----------------
+
+const BRAND_PINK: [number, number, number] = [214, 51, 132];
+
+function dollars(cents: number) {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+  }).format(cents / 100);
+}
+
+function shortDate(date: Date | null) {
+  if (!date) return '—';
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+let logoCache: { data: Buffer; format: 'PNG' | 'JPEG' } | null | undefined;
+
+function loadLogo() {
+  if (logoCache !== undefined) return logoCache;
+
+  const file = process.env.INVOICE_LOGO_PATH;
+  logoCache = null;
+
+  if (file) {
+    try {
+      logoCache = {
+        data: readFileSync(path.resolve(file)),
+        format: /\.jpe?g$/i.test(file) ? 'JPEG' : 'PNG',
+      };
+    } catch (err) {
+      console.error(`Could not read INVOICE_LOGO_PATH ${file}:`, err);
+    }
+  }
+
+  return logoCache;
+}
+
+function drawHeader(doc: jsPDF, invoice: InvoiceDocument) {
+  const logo = loadLogo();
+
+  if (logo) {
+    doc.addImage(logo.data, logo.format, 40, 32, 120, 48);
+  } else {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(24);
+    doc.setTextColor(...BRAND_PINK);
+    doc.text('Baila Kids', 40, 62);
+    doc.setTextColor(0);
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text(invoice.kind === 'invoice' ? 'INVOICE' : 'RECEIPT', 572, 50, {
+    align: 'right',
+  });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(
+    [
+      `No. ${invoice.number}`,
+      `Date: ${shortDate(new Date())}`,
+      `Term: ${invoice.term.label}`,
+    ],
+    572,
+    66,
+    { align: 'right' }
+  );
+
+  const from = [
+    'Baila Kids',
+    ...(process.env.INVOICE_ADDRESS?.split('|').map((line) => line.trim()) ??
+      []),
+    ...(process.env.INVOICE_TAX_ID
+      ? [`Tax ID: ${process.env.INVOICE_TAX_ID}`]
+      : []),
+  ];
+
+  doc.text(from, 40, 100);
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill to', 320, 100);
+  doc.setFont('helvetica', 'normal');
+  doc.text(
+    [invoice.billTo.name, invoice.billTo.email, invoice.billTo.phone].filter(
+      Boolean
+    ),
+    320,
+    112
+  );
+
+  return 100 + Math.max(from.length, 4) * 11 + 14;
+}
+
+type AutoTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+function drawStudent(doc: jsPDF, row: InvoiceStudent, startY: number) {
+  const { student, sections } = row;
+  const pricing = student.pricing;
+  const pricedDays = new Set<string>();
+
+  const body = sections.map((section) => {
+    // the engine charges each day once; see basePriceForSections
+    const charged = !pricedDays.has(section.day);
+    pricedDays.add(section.day);
+
+    return [
+      `${SCHOOL_LABELS[section.school]} · ${section.day}, group ${section.label}`,
+      section.startTime && section.endTime
+        ? `${section.startTime}–${section.endTime}`
+        : '—',
+      `${shortDate(section.startDate)} – ${shortDate(section.endDate)}`,
+      charged ? dollars(section.priceCents) : 'included',
+    ];
+  });
+
+  const adjustments = [
+    ...(pricing.bundleCents
+      ? [['Twice-a-week bundle', dollars(pricing.bundleCents)]]
+      : []),
+    ...pricing.discounts.map((line) => [line.label, dollars(line.amountCents)]),
+    ['Tuition', dollars(student.tuitionCents)],
+  ];
+
+  autoTable(doc, {
+    startY,
+    head: [
+      [
+        {
+          content: `${student.studentName}${student.classroom ? ` (${student.classroom})` : ''}`,
+          colSpan: 4,
+        },
+      ],
+      ['Class', 'Time', 'Dates', 'Price'],
+    ],
+    body: body.length
+      ? body
+      : [[{ content: 'Not enrolled in any class', colSpan: 4 }]],
+    foot: adjustments.map(([label, amount]) => [
+      { content: label, colSpan: 3 },
+      amount,
+    ]),
+    styles: { fontSize: 9, cellPadding: 4 },
+    headStyles: { fillColor: BRAND_PINK },
+    footStyles: {
+      fillColor: [248, 240, 244],
+      textColor: 20,
+      fontStyle: 'normal',
+    },
+    columnStyles: { 3: { halign: 'right' } },
+    theme: 'grid',
+  });
+
+  return (doc as AutoTableDoc).lastAutoTable.finalY + 16;
+}
+
+export function renderInvoicePdf(invoice: InvoiceDocument) {
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  let y = drawHeader(doc, invoice);
+
+  for (const row of invoice.students) {
+    y = drawStudent(doc, row, y);
+  }
+
+  const several = invoice.students.length > 1;
+  const payments = invoice.students.flatMap((row) =>
+    row.payments.map((payment) => ({
+      payment,
+      studentName: row.student.studentName,
+    }))
+  );
+
+  autoTable(doc, {
+    startY: y,
+    head: [
+      [
+        'Payments received',
+        ...(several ? ['Student'] : []),
+        'Method',
+        'Amount',
+      ],
+    ],
+    body: payments.length
+      ? payments.map(({ payment, studentName }) => [
+          `${isoDate(payment.paidAt)}${payment.note ? ` · ${payment.note}` : ''}`,
+          ...(several ? [studentName] : []),
+          payment.method ?? '—',
+          dollars(
+            payment.isRefund ? -payment.amountCents : payment.amountCents
+          ),
+        ])
+      : [[{ content: 'No payments recorded yet', colSpan: several ? 4 : 3 }]],
+    styles: { fontSize: 9, cellPadding: 4 },
+    headStyles: { fillColor: [90, 90, 90] },
+    columnStyles: { [several ? 3 : 2]: { halign: 'right' } },
+    theme: 'grid',
+  });
+
+  y = (doc as AutoTableDoc).lastAutoTable.finalY + 24;
+
+  const sum = (key: 'tuitionCents' | 'paidCents' | 'owedCents') =>
+    invoice.students.reduce((total, row) => total + row.student[key], 0);
+  const owed = sum('owedCents');
+
+  doc.setFontSize(10);
+  doc.text(
+    [
+      `Total tuition: ${dollars(sum('tuitionCents'))}`,
+      `${invoice.kind === 'receipt' ? 'Paid to date' : 'Paid'}: ${dollars(sum('paidCents'))}`,
+    ],
+    572,
+    y,
+    { align: 'right' }
+  );
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(
+    owed > 0 ? `Balance due: ${dollars(owed)}` : 'Paid in full',
+    572,
+    y + 30,
+    { align: 'right' }
+  );
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(
+    invoice.kind === 'receipt'
+      ? 'Thank you! This receipt lists the payments received for the classes above.'
+      : 'Thank you for dancing with Baila Kids.',
+    40,
+    y + 60
+  );
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
+
+export function invoiceFileName(invoice: InvoiceDocument) {
+  const names = invoice.students
+    .map((row) => row.student.studentName)
+    .join(' ')
+    // plain ASCII, so it survives a Content-Disposition header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+
+  return `${invoice.kind}-${invoice.term.code.toLowerCase().replace(/_/g, '-')}-${names || invoice.number}.pdf`;
+}
@@ -0,0 +1,313 @@
+// src/lib/ledger.ts
+//
+// Writes that go with any change to a student's payment ledger or tuition,
+// shared by the payments endpoint, the payment webhook, schedule and
+// discount changes, imports and duplicate merges: the row standing in for
+// a registration paid before the ledger existed, and the payment status
+// that follows from the balance.
+
+import { Prisma, type Student } from '@prisma/client';
+import type { AuditEntry } from './audit';
+import { describePayment, ledgerTotalsByStudent } from './payments';
+import prisma from './prisma';
+import { loadAdminStudents } from './students';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+type LedgerStudent = Pick<
+  Student,
+  'id' | 'session' | 'paymentStatus' | 'createdAt'
+>;
+
+export const LEGACY_PAYMENT_NOTE = 'Paid before the payment ledger';
+
+/**
+ * The student's tuition after discounts. It doesn't depend on payments,
+ * so it can be read outside the transaction that changes the ledger.
+ */
+export async function tuitionFor(
+  student: Pick<Student, 'id' | 'session'>,
+  db: Db = prisma
+) {
+  const [priced] = await loadAdminStudents(
+    student.session,
+    {
+      id: student.id,
+    },
+    db
+  );
+  return priced?.tuitionCents ?? 0;
+}
+
+/** What the ledger is short of the student's tuition, never below zero. */
+export async function owedOnLedger(
+  student: Pick<Student, 'id' | 'session'>,
+  db: Db = prisma
+) {
+  const [tuitionCents, ledger] = await Promise.all([
+    tuitionFor(student, db),
+    ledgerTotalsByStudent([student.id], db),
+  ]);
+  return Math.max(0, tuitionCents - (ledger.get(student.id)?.paidCents ?? 0));
+}
+
+/**
+ * A registration marked PAID before the ledger existed has no rows and
+ * counts as paid in full. Before anything else goes into its ledger, that
+ * payment is written down as a row of its own, so a later refund or
+ * payment adds to it instead of replacing it.
+ */
+export async function backfillLegacyPayment(
+  tx: Tx,
+  student: LedgerStudent,
+  tuitionCents: number
+): Promise<AuditEntry[]> {
+  if (student.paymentStatus !== 'PAID' || tuitionCents <= 0) return [];
+
+  const rows = await tx.payment.count({
+    where: {
+      studentId: student.id,
+    },
+  });
+
+  if (rows) return [];
+
+  const payment = await tx.payment.create({
+    data: {
+      studentId: student.id,
+      amountCents: tuitionCents,
+      paidAt: student.createdAt,
+      note: LEGACY_PAYMENT_NOTE,
+    },
+  });
+
+  return [
+    {
+      entity: 'Payment',
+      entityId: payment.id,
+      studentId: student.id,
+      action: 'CREATE',
+      field: 'ledger',
+      newValue: describePayment(payment),
+    },
+  ];
+}
+
+/**
+ * Sets paymentStatus from the ledger: PAID once it covers tuition, and
+ * back to PENDING when a refund or a removed row leaves a PAID student
+ * owing. With `clearFailure` (a payment just came in) a FAILED charge
+ * goes back to PENDING too.
+ */
+export async function syncPaymentStatus(
+  tx: Tx,
+  student: LedgerStudent,
+  tuitionCents: number,
+  { clearFailure = false }: { clearFailure?: boolean } = {}
+) {
+  const ledger = await ledgerTotalsByStudent([student.id], tx);
+  const covered = (ledger.get(student.id)?.paidCents ?? 0) >= tuitionCents;
+
+  const status: Student['paymentStatus'] = covered
+    ? 'PAID'
+    : student.paymentStatus === 'PAID' ||
+        (clearFailure && student.paymentStatus === 'FAILED')
+      ? 'PENDING'
+      : student.paymentStatus;
+
+  const audit: AuditEntry[] = [];
+
+  if (status !== student.paymentStatus) {
+    await tx.student.update({
+      where: {
+        id: student.id,
+      },
+      data: {
+        paymentStatus: status,
+      },
+    });
+
+    audit.push({
+      entity: 'Student',
+      entityId: student.id,
+      studentId: student.id,
+      action: 'UPDATE',
+      field: 'paymentStatus',
+      oldValue: student.paymentStatus,
+      newValue: status,
+    });
+  }
+
+  return { covered, audit };
+}
+
+// ----------------- Tuition changes -----------------
+
+const LEDGER_STUDENT = {
+  id: true,
+  session: true,
+  paymentStatus: true,
+  createdAt: true,
+  familyId: true,
+} as const;
+
+/**
+ * The students and their siblings in the same term. The sibling discount
+ * goes to whichever kids pay less, so a change to one kid's classes,
+ * discounts or family can move a sibling's tuition too.
+ */
+async function withSiblings(tx: Tx, studentIds: string[]) {
+  const students = await tx.student.findMany({
+    where: { id: { in: studentIds } },
+    select: LEDGER_STUDENT,
+  });
+
+  const families = students.filter((student) => student.familyId);
+  const siblings = families.length
+    ? await tx.student.findMany({
+        where: {
+          id: { notIn: studentIds },
+          OR: families.map((student) => ({
+            familyId: student.familyId,
+            session: student.session,
+          })),
+        },
+        select: LEDGER_STUDENT,
+      })
+    : [];
+
+  return [...students, ...siblings];
+}
+
+/** Tuition for each student, priced from what the transaction sees. */
+async function tuitionByStudent(tx: Tx, students: LedgerStudent[]) {
+  const tuition = new Map<string, number>();
+
+  for (const session of new Set(students.map((student) => student.session))) {
+    const priced = await loadAdminStudents(
+      session,
+      {
+        id: {
+          in: students
+            .filter((student) => student.session === session)
+            .map((student) => student.id),
+        },
+      },
+      tx
+    );
+
+    for (const row of priced) tuition.set(row.id, row.tuitionCents);
+  }
+
+  return tuition;
+}
+
+/**
+ * Call before a write that changes what these students owe (their classes,
+ * discounts or family): writes down pre-ledger payments at the tuition
+ * they were paid against.
+ */
+export async function backfillLegacyPayments(
+  tx: Tx,
+  studentIds: string[]
+): Promise<AuditEntry[]> {
+  if (!studentIds.length) return [];
+
+  const paid = (await withSiblings(tx, studentIds)).filter(
+    (student) => student.paymentStatus === 'PAID'
+  );
+  const tuition = await tuitionByStudent(tx, paid);
+  const audit: AuditEntry[] = [];
+
+  for (const student of paid) {
+    audit.push(
+      ...(await backfillLegacyPayment(
+        tx,
+        student,
+        tuition.get(student.id) ?? 0
+      ))
+    );
+  }
+
+  return audit;
+}
+
+/**
+ * Call after such a write: sets each student's paymentStatus from the new
+ * tuition. A kid left with no tuition (no classes, a full scholarship)
+ * keeps their status, and so does a PAID sibling with no ledger rows: it
+ * was not backfilled and still counts as paid in full (see balanceFor).
+ */
+export async function syncPaymentStatuses(
+  tx: Tx,
+  studentIds: string[]
+): Promise<AuditEntry[]> {
+  if (!studentIds.length) return [];
+
+  const students = await withSiblings(tx, studentIds);
+  const [tuition, ledger] = await Promise.all([
+    tuitionByStudent(tx, students),
+    ledgerTotalsByStudent(
+      students.map((student) => student.id),
+      tx
+    ),
+  ]);
+  const audit: AuditEntry[] = [];
+
+  for (const student of students) {
+    const tuitionCents = tuition.get(student.id) ?? 0;
+
+    if (tuitionCents <= 0) continue;
+    if (student.paymentStatus === 'PAID' && !ledger.has(student.id)) continue;
+
+    const synced = await syncPaymentStatus(tx, student, tuitionCents);
+    audit.push(...synced.audit);
+  }
+
+  return audit;
+}
+
+/**
+ * Writes down whatever the ledger is short of tuition as one payment, for
+ * a PAID status that comes from outside the ledger (an imported sheet).
+ * Follow it with syncPaymentStatuses.
+ */
+export async function recordPaidInFull(
+  tx: Tx,
+  studentIds: string[],
+  note: string
+): Promise<AuditEntry[]> {
+  if (!studentIds.length) return [];
+
+  const students = await tx.student.findMany({
+    where: { id: { in: studentIds } },
+    select: LEDGER_STUDENT,
+  });
+  const audit: AuditEntry[] = [];
+
+  for (const student of students) {
+    const owed = await owedOnLedger(student, tx);
+    if (owed <= 0) continue;
+
+    const payment = await tx.payment.create({
+      data: {
+        studentId: student.id,
+        amountCents: owed,
+        paidAt: new Date(),
+        note,
+      },
+    });
+
+    audit.push({
+      entity: 'Payment',
+      entityId: payment.id,
+      studentId: student.id,
+      action: 'CREATE',
+      field: 'ledger',
+      newValue: describePayment(payment),
+    });
+  }
+
+  return audit;
+}
@@ -0,0 +1,165 @@
+// src/lib/mailer.ts
+//
+// Delivers plain-text email. EMAIL_TRANSPORT picks how:
+//   smtp   – the SMTP_* server (the default in production)
+//   outbox – writes .eml files to EMAIL_OUTBOX_DIR instead of sending
+//            (the default everywhere else)
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import nodemailer from 'nodemailer';
+import path from 'path';
+
+export type OutgoingEmail = {
+  to: string;
+  subject: string;
+  body: string;
+};
+
+/** One open connection; send() as many messages as needed, then close(). */
+export type MailSession = {
+  send(message: OutgoingEmail): Promise<void>;
+  close(): Promise<void>;
+};
+
+export type MailTransport = {
+  name: 'smtp' | 'outbox';
+  open(): Promise<MailSession>;
+};
+
+// ----------------- Message format -----------------
+
+// RFC 2047 so accents in names survive old mail servers
+function encodeHeader(value: string) {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function stripHeaderBreaks(value: string) {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+export function buildMimeMessage(from: string, message: OutgoingEmail) {
+  const domain = /@([^>\s]+)/.exec(from)?.[1] ?? 'localhost';
+  const body = Buffer.from(message.body.replace(/\r?\n/g, '\r\n'))
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `From: ${stripHeaderBreaks(from)}`,
+    `To: ${stripHeaderBreaks(message.to)}`,
+    `Subject: ${encodeHeader(stripHeaderBreaks(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+function emailFrom() {
+  const from = process.env.EMAIL_FROM;
+  if (!from) throw new Error('EMAIL_FROM must be set to send email');
+  return from;
+}
+
+// ----------------- Outbox -----------------
+
+function outboxTransport(): MailTransport {
+  const dir = path.resolve(process.env.EMAIL_OUTBOX_DIR ?? '.outbox');
+  const from = process.env.EMAIL_FROM ?? 'Baila Kids <no-reply@localhost>';
+
+  return {
+    name: 'outbox',
+    async open() {
+      await mkdir(dir, { recursive: true });
+
+      return {
+        async send(message) {
+          const file = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`;
+          await writeFile(
+            path.join(dir, file),
+            buildMimeMessage(from, message)
+          );
+        },
+        async close() {},
+      };
+    },
+  };
+}
+
+// ----------------- SMTP -----------------
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+function smtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error('SMTP_HOST must be set to send email');
+
+  // 465 speaks TLS from the start; anything else upgrades with STARTTLS
+  const port = Number(process.env.SMTP_PORT ?? 587);
+  const secure = process.env.SMTP_SECURE
+    ? process.env.SMTP_SECURE === 'true'
+    : port === 465;
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS ?? '';
+  const from = emailFrom();
+
+  return {
+    name: 'smtp',
+    async open() {
+      // a pool of one keeps a single connection open for the whole batch
+      const transporter = nodemailer.createTransport({
+        host,
+        port,
+        secure,
+        // never send the password over a connection that didn't upgrade
+        requireTLS: Boolean(user) && !secure,
+        auth: user ? { user, pass } : undefined,
+        pool: true,
+        maxConnections: 1,
+        connectionTimeout: SMTP_TIMEOUT_MS,
+        greetingTimeout: SMTP_TIMEOUT_MS,
+        socketTimeout: SMTP_TIMEOUT_MS,
+      });
+
+      try {
+        // connects, upgrades and logs in, so bad settings fail up front
+        await transporter.verify();
+      } catch (err) {
+        transporter.close();
+        throw err;
+      }
+
+      return {
+        async send(message) {
+          await transporter.sendMail({
+            from,
+            to: message.to,
+            subject: message.subject,
+            text: message.body,
+          });
+        },
+        async close() {
+          transporter.close();
+        },
+      };
+    },
+  };
+}
+
+// ----------------- Transport -----------------
+
+export function getMailTransport(): MailTransport {
+  const kind =
+    process.env.EMAIL_TRANSPORT ??
+    (process.env.NODE_ENV === 'production' ? 'smtp' : 'outbox');
+
+  if (kind === 'smtp') return smtpTransport();
+  if (kind === 'outbox') return outboxTransport();
+
+  throw new Error(`Unknown EMAIL_TRANSPORT "${kind}" (use smtp or outbox)`);
+}
@@ -0,0 +1,84 @@
+// src/lib/payments.ts
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+export type LedgerTotals = {
+  // payments minus refunds
+  paidCents: number;
+  paymentCount: number;
+};
+
+/**
+ * Net amount recorded in the ledger for each student.
+ * Students with no ledger rows are absent from the map.
+ */
+export async function ledgerTotalsByStudent(
+  studentIds: string[],
+  db: Db = prisma
+) {
+  const totals = new Map<string, LedgerTotals>();
+  if (!studentIds.length) return totals;
+
+  const rows = await db.payment.groupBy({
+    by: ['studentId', 'isRefund'],
+    where: {
+      studentId: {
+        in: studentIds,
+      },
+    },
+    _sum: {
+      amountCents: true,
+    },
+    _count: {
+      _all: true,
+    },
+  });
+
+  for (const row of rows) {
+    const entry = totals.get(row.studentId) ?? {
+      paidCents: 0,
+      paymentCount: 0,
+    };
+    const amount = row._sum.amountCents ?? 0;
+
+    entry.paidCents += row.isRefund ? -amount : amount;
+    entry.paymentCount += row._count._all;
+    totals.set(row.studentId, entry);
+  }
+
+  return totals;
+}
+
+/** Ledger row as it reads in the audit history. */
+export function describePayment(payment: {
+  amountCents: number;
+  isRefund: boolean;
+  method: string | null;
+}) {
+  const amount = (payment.amountCents / 100).toFixed(2);
+  const kind = payment.isRefund ? 'Refund' : 'Payment';
+  return `${kind} $${amount}${payment.method ? ` (${payment.method})` : ''}`;
+}
+
+export function toPaymentDTO(payment: {
+  id: string;
+  amountCents: number;
+  method: string | null;
+  paidAt: Date;
+  note: string | null;
+  isRefund: boolean;
+  createdAt: Date;
+}) {
+  return {
+    id: payment.id,
+    amountCents: payment.amountCents,
+    method: payment.method,
+    paidAt: payment.paidAt.toISOString(),
+    note: payment.note,
+    isRefund: payment.isRefund,
+    createdAt: payment.createdAt.toISOString(),
+  };
+}
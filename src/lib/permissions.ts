@@ -0,0 +1,142 @@
+// src/lib/permissions.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AdminRole, School } from '@prisma/client';
+import prisma from './prisma';
+import { getSession } from './auth';
+
+export type AdminActor = {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  schools: School[];
+};
+
+// Owners and office staff work across every location. Instructors and
+// read-only accounts only see the schools assigned to them.
+const ALL_SCHOOL_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF'];
+
+const PAYMENT_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF'];
+
+const RECORD_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF'];
+
+const SECTION_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF'];
+
+const ENROLLMENT_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF'];
+
+// Putting a kid into a class that is already full is the owner's call.
+const CAPACITY_OVERRIDE_ROLES: AdminRole[] = ['OWNER'];
+
+const EMAIL_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF'];
+
+// Instructors can text their own classes, e.g. a same-day cancellation.
+const SMS_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF', 'INSTRUCTOR'];
+
+// Instructors take attendance for their own schools.
+const ATTENDANCE_ROLES: AdminRole[] = ['OWNER', 'OFFICE_STAFF', 'INSTRUCTOR'];
+
+/**
+ * Loads the signed-in admin fresh from the database so role and school
+ * changes apply on the next request instead of when the cookie expires.
+ */
+export async function getActor(
+  req: NextApiRequest
+): Promise<AdminActor | null> {
+  const session = await getSession(req);
+  if (!session) return null;
+
+  const user = await prisma.adminUser.findUnique({
+    where: {
+      id: session.userId,
+    },
+  });
+
+  if (!user || !user.isActive) return null;
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    schools: user.schools,
+  };
+}
+
+/**
+ * Resolves the actor or answers 401 itself. Handlers should return
+ * early when this gives back null.
+ */
+export async function requireActor(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const actor = await getActor(req);
+
+  if (!actor) {
+    res.status(401).json({
+      error: 'Not authenticated',
+    });
+    return null;
+  }
+
+  return actor;
+}
+
+export function hasRole(actor: AdminActor, roles: AdminRole[]) {
+  return roles.includes(actor.role);
+}
+
+/** null means every school. */
+export function allowedSchools(actor: AdminActor): School[] | null {
+  return hasRole(actor, ALL_SCHOOL_ROLES) ? null : actor.schools;
+}
+
+export function canAccessSchool(actor: AdminActor, school: School) {
+  const allowed = allowedSchools(actor);
+  return allowed === null || allowed.includes(school);
+}
+
+/** Prisma `where` fragment limiting a query to the actor's schools. */
+export function schoolScope(actor: AdminActor) {
+  const allowed = allowedSchools(actor);
+  return allowed === null ? {} : { school: { in: allowed } };
+}
+
+export function canEditPayments(actor: AdminActor) {
+  return hasRole(actor, PAYMENT_ROLES);
+}
+
+export function canEditRecords(actor: AdminActor) {
+  return hasRole(actor, RECORD_ROLES);
+}
+
+export function canManageSections(actor: AdminActor) {
+  return hasRole(actor, SECTION_ROLES);
+}
+
+export function canManageEnrollments(actor: AdminActor) {
+  return hasRole(actor, ENROLLMENT_ROLES);
+}
+
+export function canOverrideCapacity(actor: AdminActor) {
+  return hasRole(actor, CAPACITY_OVERRIDE_ROLES);
+}
+
+export function canRecordAttendance(actor: AdminActor) {
+  return hasRole(actor, ATTENDANCE_ROLES);
+}
+
+export function canSendEmail(actor: AdminActor) {
+  return hasRole(actor, EMAIL_ROLES);
+}
+
+export function canSendSms(actor: AdminActor) {
+  return hasRole(actor, SMS_ROLES);
+}
+
+export function forbidden(res: NextApiResponse, error = 'Forbidden') {
+  return res.status(403).json({
+    error,
+  });
+}
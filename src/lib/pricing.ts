@@ -0,0 +1,152 @@
+// src/lib/pricing.ts
+//
+// Single source of tuition numbers. Prices come from the sections a
+// student is actually enrolled in (ACTIVE enrollments), never from the
+// days they picked on the registration form, less any sibling discount,
+// promo code or scholarship.
+
+export type PricedSection = {
+  day: string;
+  priceCents: number;
+  bundlePriceCents: number | null;
+};
+
+export type DiscountRule = {
+  kind: 'PERCENT' | 'AMOUNT';
+  // percent (1-100) or cents
+  value: number;
+};
+
+export type Discount = {
+  kind: 'sibling' | 'promo' | 'scholarship';
+  label: string;
+  rule: DiscountRule;
+};
+
+export type PriceLine = {
+  kind: Discount['kind'];
+  label: string;
+  // negative
+  amountCents: number;
+};
+
+export type PriceBreakdown = {
+  // every enrolled day at its own price
+  baseCents: number;
+  // bundle price minus the per-day total, when the bundle applies
+  bundleCents: number;
+  discounts: PriceLine[];
+  finalCents: number;
+};
+
+/**
+ * Twice-a-week students pay the bundle price when one of their sections
+ * defines it; otherwise each enrolled day is charged at its own price.
+ */
+export function basePriceForSections(sections: PricedSection[]) {
+  const byDay = new Map<string, PricedSection>();
+
+  for (const section of sections) {
+    if (!byDay.has(section.day)) byDay.set(section.day, section);
+  }
+
+  const perDay = Array.from(byDay.values());
+  const baseCents = perDay.reduce(
+    (total, section) => total + section.priceCents,
+    0
+  );
+
+  if (perDay.length >= 2) {
+    const bundle = perDay.find(
+      (section) => section.bundlePriceCents != null
+    )?.bundlePriceCents;
+    if (bundle != null) return { baseCents, bundleCents: bundle - baseCents };
+  }
+
+  return { baseCents, bundleCents: 0 };
+}
+
+/** What a rule takes off `subtotal`; never more than the subtotal. */
+export function discountCents(rule: DiscountRule, subtotal: number) {
+  const amount =
+    rule.kind === 'PERCENT'
+      ? Math.round((subtotal * rule.value) / 100)
+      : rule.value;
+
+  return Math.max(0, Math.min(subtotal, amount));
+}
+
+/**
+ * Base, bundle, then each discount in the order given, each applied to
+ * what's left after the ones before it. Callers pass sibling, promo,
+ * scholarship, so a percentage scholarship covers the family's share.
+ */
+export function priceBreakdown(
+  sections: PricedSection[],
+  discounts: Discount[] = []
+): PriceBreakdown {
+  const { baseCents, bundleCents } = basePriceForSections(sections);
+  const lines: PriceLine[] = [];
+  let subtotal = baseCents + bundleCents;
+
+  for (const discount of discounts) {
+    const amount = discountCents(discount.rule, subtotal);
+    if (!amount) continue;
+
+    subtotal -= amount;
+    lines.push({
+      kind: discount.kind,
+      label: discount.label,
+      amountCents: -amount,
+    });
+  }
+
+  return {
+    baseCents,
+    bundleCents,
+    discounts: lines,
+    finalCents: subtotal,
+  };
+}
+
+/** "10%" or "$25.00". */
+export function describeRule(rule: DiscountRule) {
+  return rule.kind === 'PERCENT'
+    ? `${rule.value}%`
+    : `$${(rule.value / 100).toFixed(2)}`;
+}
+
+export type Balance = {
+  tuitionCents: number;
+  paidCents: number;
+  owedCents: number;
+};
+
+/**
+ * Registrations marked PAID before the payment ledger existed have no
+ * ledger rows; they count as paid in full rather than owing everything.
+ * The first change to their ledger writes that payment down as a row
+ * (see ledger.ts), so from then on the ledger alone decides.
+ */
+export function balanceFor({
+  tuitionCents,
+  ledgerPaidCents,
+  paymentCount,
+  paymentStatus,
+}: {
+  tuitionCents: number;
+  ledgerPaidCents: number;
+  paymentCount: number;
+  paymentStatus: string;
+}): Balance {
+  const paidCents =
+    paymentStatus === 'PAID' && paymentCount === 0
+      ? tuitionCents
+      : ledgerPaidCents;
+
+  return {
+    tuitionCents,
+    paidCents,
+    owedCents: Math.max(0, tuitionCents - paidCents),
+  };
+}
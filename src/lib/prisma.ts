@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 
 const globalForPrisma = global as unknown as { prisma: PrismaClient };
 
@@ -10,4 +10,66 @@ export const prisma =
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
 
+/** True when a write hit a @@unique / @unique constraint. */
+export function isUniqueViolation(err: unknown) {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError &&
+    err.code === 'P2002'
+  );
+}
+
+/**
+ * True when Postgres aborted a serializable transaction because another
+ * one changed the rows it read. Running it again is safe.
+ */
+export function isSerializationFailure(err: unknown) {
+  return (
+    err instanceof Prisma.PrismaClientKnownRequestError &&
+    err.code === 'P2034'
+  );
+}
+
+/** A serializable transaction lost to concurrent writes on every try. */
+export class BusyError extends Error {
+  constructor(
+    message: string,
+    public status = 409
+  ) {
+    super(message);
+    this.name = 'BusyError';
+  }
+}
+
+const SERIALIZABLE_ATTEMPTS = 3;
+
+/**
+ * Runs `fn` in a serializable transaction, so a check and the write that
+ * depends on it (a free seat, a promo code's last use) can't both pass for
+ * two requests at once: Postgres aborts one, and the retry sees the other's
+ * write. After the last try it throws BusyError with `busyMessage`.
+ */
+export async function serializableTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>,
+  {
+    timeout,
+    busyMessage,
+  }: {
+    timeout?: number;
+    busyMessage: string;
+  }
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(fn, {
+        isolationLevel: Prisma.TransactionIsolationLevel.Serializable,
+        ...(timeout ? { timeout } : {}),
+      });
+    } catch (err) {
+      if (!isSerializationFailure(err)) throw err;
+
+      if (attempt >= SERIALIZABLE_ATTEMPTS) throw new BusyError(busyMessage);
+    }
+  }
+}
+
 export default prisma;
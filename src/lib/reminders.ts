@@ -0,0 +1,224 @@
+// src/lib/reminders.ts
+//
+// Payment reminders for families that still owe tuition. The cadence lives
+// in AppConfig; every reminder is a logged `payment_reminder` email, and
+// that log is what decides who is due again.
+
+import { Prisma, type Term } from '@prisma/client';
+import prisma from './prisma';
+import { loadConfig, readConfig, saveConfig, writeConfig } from './config';
+import type { AdminActor } from './permissions';
+import {
+  EMAIL_TEMPLATES,
+  renderEmails,
+  sendEmails,
+  type EmailSender,
+  type SkippedRecipient,
+} from './email';
+import { loadAdminStudents } from './students';
+import { listTerms } from './terms';
+import type { ParseResult } from './validation';
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SETTINGS_KEY = 'paymentReminders';
+const LAST_RUN_KEY = 'paymentReminders.lastRun';
+
+export const REMINDER_SENDER: EmailSender = {
+  id: null,
+  email: 'payment-reminders',
+};
+
+// ----------------- Settings -----------------
+
+export type ReminderSettings = {
+  enabled: boolean;
+  // days to wait after a reminder before sending the next one
+  intervalDays: number;
+};
+
+const DEFAULT_SETTINGS: ReminderSettings = {
+  enabled: false,
+  intervalDays: 7,
+};
+
+export type ReminderRun = {
+  at: string;
+  sent: number;
+  failed: number;
+  skipped: number;
+};
+
+export function loadReminderSettings() {
+  return loadConfig(SETTINGS_KEY, DEFAULT_SETTINGS);
+}
+
+export async function loadLastReminderRun() {
+  return (await readConfig<ReminderRun>(LAST_RUN_KEY)) as ReminderRun | null;
+}
+
+export function parseReminderSettings(
+  body: Record<string, unknown>
+): ParseResult<ReminderSettings> {
+  const errors: string[] = [];
+
+  if (typeof body.enabled !== 'boolean') {
+    errors.push('enabled must be true or false');
+  }
+
+  const intervalDays = body.intervalDays;
+  if (
+    typeof intervalDays !== 'number' ||
+    !Number.isInteger(intervalDays) ||
+    intervalDays < 1 ||
+    intervalDays > 60
+  ) {
+    errors.push('intervalDays must be a whole number from 1 to 60');
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      enabled: body.enabled as boolean,
+      intervalDays: intervalDays as number,
+    },
+  };
+}
+
+export function saveReminderSettings(
+  tx: Tx,
+  actor: AdminActor,
+  settings: ReminderSettings
+) {
+  return saveConfig(tx, actor, SETTINGS_KEY, settings);
+}
+
+// ----------------- Planning -----------------
+
+export type ReminderCandidate = {
+  studentId: string;
+  studentName: string;
+  school: string;
+  session: string;
+  owedCents: number;
+  lastRemindedAt: string | null;
+  due: boolean;
+};
+
+// Only terms still running get reminders: the current term and any whose
+// last class day hasn't passed. A term without an end date (most migrated
+// legacy terms) counts as finished unless it's the current one.
+function isRunning(term: Term, now: Date) {
+  return (
+    term.isCurrent ||
+    (term.endDate !== null && term.endDate.getTime() + DAY_MS > now.getTime())
+  );
+}
+
+/**
+ * Every student in a running term who owes money and isn't marked PAID,
+ * with whether a reminder is due under the current cadence.
+ */
+export async function planReminders(
+  settings: ReminderSettings,
+  scope: Prisma.StudentWhereInput = {},
+  now = new Date()
+) {
+  // half a day of slack so a daily cron a few seconds early still counts
+  const cutoff = now.getTime() - (settings.intervalDays - 0.5) * DAY_MS;
+  const candidates: ReminderCandidate[] = [];
+
+  const terms = (await listTerms()).filter((term) => isRunning(term, now));
+
+  for (const term of terms) {
+    const students = await loadAdminStudents(term.code, scope);
+
+    for (const student of students) {
+      if (student.owedCents <= 0 || student.paymentStatus === 'PAID') {
+        continue;
+      }
+
+      candidates.push({
+        studentId: student.id,
+        studentName: student.studentName,
+        school: student.school,
+        session: term.code,
+        owedCents: student.owedCents,
+        lastRemindedAt: student.lastRemindedAt,
+        due:
+          !student.lastRemindedAt ||
+          Date.parse(student.lastRemindedAt) <= cutoff,
+      });
+    }
+  }
+
+  return candidates;
+}
+
+// ----------------- Sending -----------------
+
+/**
+ * Emails every due candidate with the payment reminder template, one
+ * term at a time, and remembers the run for the dashboard.
+ */
+export async function sendDueReminders(
+  candidates: ReminderCandidate[],
+  sender: EmailSender = REMINDER_SENDER
+) {
+  const template = EMAIL_TEMPLATES.payment_reminder;
+  const terms = new Map(
+    (await listTerms()).map((term) => [term.code, term.label])
+  );
+  const due = candidates.filter((candidate) => candidate.due);
+
+  let sent = 0;
+  let failed = 0;
+  const skipped: SkippedRecipient[] = [];
+
+  for (const session of new Set(due.map((candidate) => candidate.session))) {
+    const termLabel = terms.get(session) ?? session;
+
+    const rendered = await renderEmails(
+      {
+        session,
+        studentIds: due
+          .filter((candidate) => candidate.session === session)
+          .map((candidate) => candidate.studentId),
+        template: 'payment_reminder',
+        subject: template.subject,
+        body: template.body,
+        date: null,
+        reason: null,
+      },
+      termLabel,
+      {}
+    );
+
+    skipped.push(...rendered.skipped);
+
+    if (rendered.messages.length) {
+      const result = await sendEmails(
+        sender,
+        'payment_reminder',
+        rendered.messages
+      );
+      sent += result.sent;
+      failed += result.failed;
+    }
+  }
+
+  const run: ReminderRun = {
+    at: new Date().toISOString(),
+    sent,
+    failed,
+    skipped: skipped.length,
+  };
+
+  await writeConfig(prisma, LAST_RUN_KEY, run);
+
+  return { ...run, skippedRecipients: skipped };
+}
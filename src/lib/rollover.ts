@@ -0,0 +1,210 @@
+// src/lib/rollover.ts
+//
+// Copies a term's active class sections into another term. The preview
+// and the commit share one plan so nothing unexpected gets written.
+
+import { Prisma, type ClassSection, type Term } from '@prisma/client';
+import { recordAudit } from './audit';
+import type { AdminActor } from './permissions';
+
+type Tx = Prisma.TransactionClient;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RolloverError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'RolloverError';
+  }
+}
+
+export type RolloverOptions = {
+  from: Term;
+  to: Term;
+  // +5 raises prices 5%, -10 lowers them 10%
+  pricePercent: number;
+  scope: Prisma.ClassSectionWhereInput;
+};
+
+export type RolloverRow = {
+  sourceId: string;
+  school: ClassSection['school'];
+  day: ClassSection['day'];
+  label: string;
+  startDate: string | null;
+  endDate: string | null;
+  capacity: number;
+  priceCents: number;
+  bundlePriceCents: number | null;
+  status: 'create' | 'conflict';
+  reason: string | null;
+};
+
+export type RolloverPlan = {
+  from: string;
+  to: string;
+  // how far section dates move, in days (always whole weeks); null when
+  // no section being copied has dates
+  shiftDays: number | null;
+  rows: RolloverRow[];
+  creates: Prisma.ClassSectionUncheckedCreateInput[];
+};
+
+/**
+ * Days between the two terms' start dates, rounded to whole weeks so a
+ * Tuesday section still starts on a Tuesday. null when either term has
+ * no start date.
+ */
+export function termShiftDays(from: Term, to: Term) {
+  if (!from.startDate || !to.startDate) return null;
+  const days = (to.startDate.getTime() - from.startDate.getTime()) / DAY_MS;
+  return Math.round(days / 7) * 7;
+}
+
+function shiftDate(date: Date | null, shiftDays: number | null) {
+  if (!date || shiftDays === null) return null;
+  return new Date(date.getTime() + shiftDays * DAY_MS);
+}
+
+export function adjustPrice(cents: number, pricePercent: number) {
+  return Math.max(0, Math.round(cents * (1 + pricePercent / 100)));
+}
+
+function sectionKey(section: {
+  city: string;
+  school: string;
+  day: string;
+  label: string;
+}) {
+  return [section.city, section.school, section.day, section.label].join('|');
+}
+
+export async function planRollover(
+  db: Tx,
+  { from, to, pricePercent, scope }: RolloverOptions
+): Promise<RolloverPlan> {
+  const [sources, existing] = await Promise.all([
+    db.classSection.findMany({
+      where: {
+        session: from.code,
+        isActive: true,
+        ...scope,
+      },
+      orderBy: [
+        { city: 'asc' },
+        { school: 'asc' },
+        { day: 'asc' },
+        { label: 'asc' },
+      ],
+    }),
+    db.classSection.findMany({
+      where: {
+        session: to.code,
+      },
+    }),
+  ]);
+
+  const taken = new Map(
+    existing.map((section) => [sectionKey(section), section])
+  );
+  const shiftDays = termShiftDays(from, to);
+
+  // without both start dates there's no way to move class dates, and
+  // copying the sections without them would quietly lose them
+  if (
+    shiftDays === null &&
+    sources.some((source) => source.startDate || source.endDate)
+  ) {
+    const undated = [from, to].filter((term) => !term.startDate);
+    throw new RolloverError(
+      `${undated.map((term) => term.label).join(' and ')} ${undated.length === 1 ? 'has' : 'have'} no start date, so class dates can't be moved. Set it with npm run term:create first.`
+    );
+  }
+
+  const rows: RolloverRow[] = [];
+  const creates: Prisma.ClassSectionUncheckedCreateInput[] = [];
+
+  for (const source of sources) {
+    const data = {
+      city: source.city,
+      school: source.school,
+      day: source.day,
+      label: source.label,
+      session: to.code,
+      startDate: shiftDate(source.startDate, shiftDays),
+      endDate: shiftDate(source.endDate, shiftDays),
+      startTime: source.startTime,
+      endTime: source.endTime,
+      capacity: source.capacity,
+      priceCents: adjustPrice(source.priceCents, pricePercent),
+      bundlePriceCents:
+        source.bundlePriceCents === null
+          ? null
+          : adjustPrice(source.bundlePriceCents, pricePercent),
+      eligibleClasses: source.eligibleClasses,
+    };
+
+    const conflict = taken.get(sectionKey(source));
+
+    rows.push({
+      sourceId: source.id,
+      school: data.school,
+      day: data.day,
+      label: data.label,
+      startDate: data.startDate ? data.startDate.toISOString() : null,
+      endDate: data.endDate ? data.endDate.toISOString() : null,
+      capacity: data.capacity,
+      priceCents: data.priceCents,
+      bundlePriceCents: data.bundlePriceCents,
+      status: conflict ? 'conflict' : 'create',
+      reason: conflict
+        ? `${to.label} already has a ${source.day} ${source.label} section at ${source.school}${conflict.isActive ? '' : ' (inactive)'}`
+        : null,
+    });
+
+    if (!conflict) creates.push(data);
+  }
+
+  return {
+    from: from.code,
+    to: to.code,
+    shiftDays,
+    rows,
+    creates,
+  };
+}
+
+/** Creates the non-conflicting sections of a plan, auditing each one. */
+export async function applyRollover(
+  tx: Tx,
+  actor: AdminActor,
+  plan: RolloverPlan
+) {
+  for (const data of plan.creates) {
+    const section = await tx.classSection.create({
+      data,
+    });
+
+    await recordAudit(tx, actor, [
+      {
+        entity: 'ClassSection',
+        entityId: section.id,
+        action: 'CREATE',
+        newValue: `${section.school} ${section.day} ${section.label} (${section.session}, rolled over from ${plan.from})`,
+      },
+    ]);
+  }
+}
+
+/** The plan without the create payloads, for the API response. */
+export function rolloverPreview(plan: RolloverPlan) {
+  return {
+    from: plan.from,
+    to: plan.to,
+    shiftDays: plan.shiftDays,
+    rows: plan.rows,
+  };
+}
@@ -0,0 +1,87 @@
+// src/lib/sections.ts
+//
+// Section rows as the dashboard sees them. Shared by the sections
+// endpoint and exports.
+
+import { Prisma, type ClassSection } from '@prisma/client';
+import prisma from './prisma';
+
+export function toSectionDTO(section: ClassSection, enrolled: number) {
+  const capacity = section.capacity;
+
+  return {
+    id: section.id,
+
+    city: section.city,
+    school: section.school,
+
+    day: section.day,
+    label: section.label,
+
+    startDate: section.startDate
+      ? section.startDate.toISOString()
+      : null,
+
+    endDate: section.endDate
+      ? section.endDate.toISOString()
+      : null,
+
+    startTime: section.startTime,
+    endTime: section.endTime,
+
+    priceCents: section.priceCents,
+    bundlePriceCents: section.bundlePriceCents,
+
+    eligibleClasses: section.eligibleClasses,
+
+    isActive: section.isActive,
+
+    enrolled,
+    capacity,
+
+    seatsRemaining: Math.max(
+      0,
+      capacity - enrolled
+    ),
+
+    isFull: enrolled >= capacity,
+  };
+}
+
+export type SectionDTO = ReturnType<typeof toSectionDTO>;
+
+export async function loadSections(
+  session: string,
+  scope: Prisma.ClassSectionWhereInput = {},
+  { includeInactive = false }: { includeInactive?: boolean } = {}
+): Promise<SectionDTO[]> {
+  const sections = await prisma.classSection.findMany({
+    where: {
+      session,
+      ...(includeInactive ? {} : { isActive: true }),
+      ...scope,
+    },
+
+    include: {
+      enrollments: {
+        where: {
+          status: 'ACTIVE',
+        },
+        select: {
+          id: true,
+        },
+      },
+    },
+
+    orderBy: [
+      { city: 'asc' },
+      { school: 'asc' },
+      { day: 'asc' },
+      { label: 'asc' },
+    ],
+  });
+
+  return sections.map((section) =>
+    toSectionDTO(section, section.enrollments.length)
+  );
+}
@@ -0,0 +1,93 @@
+// src/lib/session.ts
+//
+// Signed admin session cookie. Only depends on `jose` so it can be
+// imported from the edge middleware as well as from API routes.
+
+import { SignJWT, jwtVerify } from 'jose';
+
+export const SESSION_COOKIE = 'bk_admin_session';
+
+const SESSION_TTL_SECONDS = 60 * 60 * 12;
+
+export type AdminSession = {
+  userId: string;
+  email: string;
+  name: string;
+};
+
+function secretKey() {
+  const secret = process.env.ADMIN_SESSION_SECRET;
+
+  if (!secret || secret.length < 32) {
+    throw new Error(
+      'ADMIN_SESSION_SECRET must be set to at least 32 characters'
+    );
+  }
+
+  return new TextEncoder().encode(secret);
+}
+
+export async function createSessionToken(session: AdminSession) {
+  return new SignJWT({
+    email: session.email,
+    name: session.name,
+  })
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(session.userId)
+    .setIssuedAt()
+    .setExpirationTime(`${SESSION_TTL_SECONDS}s`)
+    .sign(secretKey());
+}
+
+export async function verifySessionToken(
+  token: string | undefined | null
+): Promise<AdminSession | null> {
+  if (!token) return null;
+
+  try {
+    const { payload } = await jwtVerify(token, secretKey(), {
+      algorithms: ['HS256'],
+    });
+
+    if (
+      typeof payload.sub !== 'string' ||
+      typeof payload.email !== 'string' ||
+      typeof payload.name !== 'string'
+    ) {
+      return null;
+    }
+
+    return {
+      userId: payload.sub,
+      email: payload.email,
+      name: payload.name,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function cookieAttributes(maxAge: number) {
+  const attributes = [
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAge}`,
+  ];
+
+  if (process.env.NODE_ENV === 'production') {
+    attributes.push('Secure');
+  }
+
+  return attributes.join('; ');
+}
+
+export function sessionCookie(token: string) {
+  return `${SESSION_COOKIE}=${token}; ${cookieAttributes(
+    SESSION_TTL_SECONDS
+  )}`;
+}
+
+export function clearedSessionCookie() {
+  return `${SESSION_COOKIE}=; ${cookieAttributes(0)}`;
+}
@@ -0,0 +1,379 @@
+// src/lib/sms.ts
+//
+// Text messages to parents. SMS_PROVIDER picks the gateway:
+//   twilio – Twilio's REST API (the default in production)
+//   stub   – appends each text to SMS_OUTBOX_FILE instead of sending
+//            (the default everywhere else)
+
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import { Prisma, type SmsMessage } from '@prisma/client';
+import prisma from './prisma';
+import { recordAudit } from './audit';
+import type { AdminActor } from './permissions';
+import { SCHOOL_LABELS, normalizePhone, type ParseResult } from './validation';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+// ----------------- Providers -----------------
+
+export type SmsProvider = {
+  name: 'twilio' | 'stub';
+  send(to: string, body: string): Promise<{ id: string | null }>;
+};
+
+/** The provider refused because the number replied STOP. */
+export class SmsOptedOutError extends Error {}
+
+function stubProvider(): SmsProvider {
+  const file = path.resolve(
+    process.env.SMS_OUTBOX_FILE ?? path.join('.outbox', 'sms.jsonl')
+  );
+
+  return {
+    name: 'stub',
+    async send(to, body) {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(
+        file,
+        `${JSON.stringify({ at: new Date().toISOString(), to, body })}\n`
+      );
+      return { id: null };
+    },
+  };
+}
+
+// Twilio error for a number that has unsubscribed
+const TWILIO_UNSUBSCRIBED = 21610;
+
+// a class broadcast sends one text after another, so a hung request
+// would hold up everyone after it
+const TWILIO_TIMEOUT_MS = 15_000;
+
+function twilioProvider(): SmsProvider {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID;
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const from = process.env.TWILIO_FROM;
+
+  if (!accountSid || !authToken || !from) {
+    throw new Error(
+      'TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM must be set to send texts'
+    );
+  }
+
+  const url = `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`;
+  const auth = Buffer.from(`${accountSid}:${authToken}`).toString('base64');
+
+  return {
+    name: 'twilio',
+    async send(to, body) {
+      const signal = AbortSignal.timeout(TWILIO_TIMEOUT_MS);
+      let response: Response;
+      let result: { sid?: string; code?: number; message?: string };
+
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${auth}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ To: to, From: from, Body: body }),
+          signal,
+        });
+        result = await response.json().catch((err) => {
+          if (signal.aborted) throw err;
+          return {};
+        });
+      } catch (err) {
+        if (signal.aborted) {
+          throw new Error(
+            `Twilio did not answer within ${TWILIO_TIMEOUT_MS / 1000} seconds`
+          );
+        }
+        throw err;
+      }
+
+      if (result.code === TWILIO_UNSUBSCRIBED) {
+        throw new SmsOptedOutError(`${to} has opted out of texts`);
+      }
+
+      if (!response.ok) {
+        throw new Error(
+          `Twilio ${response.status}: ${result.message ?? response.statusText}`
+        );
+      }
+
+      return { id: result.sid ?? null };
+    },
+  };
+}
+
+export function getSmsProvider(): SmsProvider {
+  const kind =
+    process.env.SMS_PROVIDER ??
+    (process.env.NODE_ENV === 'production' ? 'twilio' : 'stub');
+
+  if (kind === 'twilio') return twilioProvider();
+  if (kind === 'stub') return stubProvider();
+
+  throw new Error(`Unknown SMS_PROVIDER "${kind}" (use twilio or stub)`);
+}
+
+// ----------------- Opt-outs -----------------
+
+export async function optedOutPhones(phones: string[], db: Db = prisma) {
+  const rows = await db.smsOptOut.findMany({
+    where: {
+      phone: {
+        in: phones,
+      },
+    },
+  });
+
+  return new Set(rows.map((row) => row.phone));
+}
+
+/** Records or clears an opt-out for the student's phone. */
+export async function setSmsOptOut(
+  tx: Tx,
+  actor: AdminActor,
+  student: { id: string; phone: string },
+  optedOut: boolean
+) {
+  const phone = normalizePhone(student.phone);
+  if (!phone) return false;
+
+  const existing = await tx.smsOptOut.findUnique({
+    where: {
+      phone,
+    },
+  });
+
+  if (optedOut === Boolean(existing)) return true;
+
+  if (optedOut) {
+    await tx.smsOptOut.create({
+      data: {
+        phone,
+        source: `admin:${actor.email}`,
+      },
+    });
+  } else {
+    await tx.smsOptOut.delete({
+      where: {
+        phone,
+      },
+    });
+  }
+
+  await recordAudit(tx, actor, [
+    {
+      entity: 'SmsOptOut',
+      entityId: phone,
+      studentId: student.id,
+      action: optedOut ? 'CREATE' : 'DELETE',
+      field: 'smsOptOut',
+      oldValue: !optedOut,
+      newValue: optedOut,
+    },
+  ]);
+
+  return true;
+}
+
+// ----------------- Section broadcast -----------------
+
+// Three SMS segments; longer texts get split awkwardly on some phones.
+const MAX_MESSAGE_LENGTH = 400;
+
+export type BroadcastInput = {
+  sectionId: string;
+  message: string;
+};
+
+export function parseBroadcastInput(
+  body: Record<string, unknown>
+): ParseResult<BroadcastInput> {
+  const errors: string[] = [];
+
+  if (typeof body.sectionId !== 'string' || !body.sectionId) {
+    errors.push('sectionId is required');
+  }
+
+  const message = typeof body.message === 'string' ? body.message.trim() : '';
+  if (!message || message.length > MAX_MESSAGE_LENGTH) {
+    errors.push(`message is required (up to ${MAX_MESSAGE_LENGTH} characters)`);
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      sectionId: body.sectionId as string,
+      message,
+    },
+  };
+}
+
+/** What parents actually receive. */
+export function smsText(message: string) {
+  return `Baila Kids: ${message} Reply STOP to opt out.`;
+}
+
+export type SmsRecipient = {
+  phone: string;
+  students: { id: string; studentName: string }[];
+};
+
+export type SmsSkipped = {
+  studentId: string;
+  studentName: string;
+  reason: string;
+};
+
+/**
+ * Parents of every kid actively enrolled in the section, one entry per
+ * phone so siblings don't get the same text twice.
+ */
+export async function planSectionBroadcast(sectionId: string) {
+  const section = await prisma.classSection.findUnique({
+    where: {
+      id: sectionId,
+    },
+    include: {
+      enrollments: {
+        where: {
+          status: 'ACTIVE',
+        },
+        include: {
+          student: true,
+        },
+      },
+    },
+  });
+
+  if (!section) return null;
+
+  const phones = new Map<string, SmsRecipient>();
+  const skipped: SmsSkipped[] = [];
+
+  for (const { student } of section.enrollments) {
+    const phone = normalizePhone(student.phone);
+
+    if (!phone) {
+      skipped.push({
+        studentId: student.id,
+        studentName: student.studentName,
+        reason: `${student.phone || 'No phone'} is not a textable number`,
+      });
+      continue;
+    }
+
+    const recipient = phones.get(phone) ?? { phone, students: [] };
+    recipient.students.push({
+      id: student.id,
+      studentName: student.studentName,
+    });
+    phones.set(phone, recipient);
+  }
+
+  const optedOut = await optedOutPhones([...phones.keys()]);
+  const recipients: SmsRecipient[] = [];
+
+  for (const recipient of phones.values()) {
+    if (!optedOut.has(recipient.phone)) {
+      recipients.push(recipient);
+      continue;
+    }
+
+    for (const student of recipient.students) {
+      skipped.push({
+        studentId: student.id,
+        studentName: student.studentName,
+        reason: 'Parent opted out of texts',
+      });
+    }
+  }
+
+  return {
+    section,
+    title: `${section.day} ${section.label} at ${SCHOOL_LABELS[section.school]}`,
+    recipients,
+    skipped,
+  };
+}
+
+/**
+ * Texts each recipient and logs one row per student. A provider opt-out
+ * is remembered so the next broadcast skips that phone up front.
+ */
+export async function sendSectionBroadcast(
+  actor: AdminActor,
+  sectionId: string,
+  recipients: SmsRecipient[],
+  message: string
+) {
+  const provider = getSmsProvider();
+  const text = smsText(message);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const recipient of recipients) {
+    let providerId: string | null = null;
+    let error: string | null = null;
+
+    try {
+      providerId = (await provider.send(recipient.phone, text)).id;
+      sent += 1;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      failed += 1;
+
+      if (err instanceof SmsOptedOutError) {
+        await prisma.smsOptOut.upsert({
+          where: {
+            phone: recipient.phone,
+          },
+          create: {
+            phone: recipient.phone,
+            source: provider.name,
+          },
+          update: {},
+        });
+      }
+    }
+
+    await prisma.smsMessage.createMany({
+      data: recipient.students.map((student) => ({
+        studentId: student.id,
+        sectionId,
+        toPhone: recipient.phone,
+        body: text,
+        status: error ? ('FAILED' as const) : ('SENT' as const),
+        error,
+        provider: provider.name,
+        providerId,
+        sentById: actor.id,
+        sentByEmail: actor.email,
+      })),
+    });
+  }
+
+  return { sent, failed };
+}
+
+export function toSmsLogDTO(message: SmsMessage) {
+  return {
+    id: message.id,
+    createdAt: message.createdAt.toISOString(),
+    toPhone: message.toPhone,
+    body: message.body,
+    status: message.status,
+    error: message.error,
+    sentByEmail: message.sentByEmail,
+  };
+}
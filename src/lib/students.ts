@@ -0,0 +1,481 @@
+// src/lib/students.ts
+//
+// Builds the student rows shown on the dashboard. Shared by the students
+// endpoint, the totals endpoint and exports so they all agree.
+
+import { Prisma } from '@prisma/client';
+import prisma from './prisma';
+import { frequencyForDays, sortDays } from './enrollments';
+import { ledgerTotalsByStudent } from './payments';
+import { normalizePhone } from './validation';
+import {
+  discountsFor,
+  loadSiblingDiscount,
+  siblingDiscountIds,
+} from './discounts';
+import {
+  balanceFor,
+  basePriceForSections,
+  priceBreakdown,
+  type PriceBreakdown,
+  type PricedSection,
+} from './pricing';
+
+// ----------------- Types -----------------
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+type CityKey = 'HOUSTON' | 'DALLAS';
+
+type SchoolKey =
+  | 'KATY'
+  | 'SUGARLAND'
+  | 'ALLEN'
+  | 'FRISCO'
+  | 'CASTLE_HILLS'
+  | 'NORTH_DALLAS'
+  | 'PRESTON_TRAIL';
+
+type SessionKey = 'A' | 'B';
+
+type DayKey =
+  | 'Monday'
+  | 'Tuesday'
+  | 'Wednesday'
+  | 'Thursday'
+  | 'Friday';
+
+type PaymentStatus = 'PENDING' | 'PAID' | 'FAILED';
+
+type Frequency = 'ONCE_A_WEEK' | 'TWICE_A_WEEK';
+
+interface StudentRow {
+  id: string;
+  studentName: string;
+  age: number | null;
+  parentName: string;
+  phone: string;
+  email: string;
+  city: CityKey;
+  school: SchoolKey;
+  classroom: string | null;
+  frequency: Frequency;
+  selectedDays: string[];
+  startDate: Date;
+  paymentStatus: PaymentStatus;
+  paymentMethod: string | null;
+  liabilityAccepted: boolean;
+  waiverName: string | null;
+  waiverAddress: string | null;
+  familyId: string | null;
+  createdAt: Date;
+  promoCode: string | null;
+  scholarshipKind: 'PERCENT' | 'AMOUNT' | null;
+  scholarshipValue: number | null;
+  scholarshipNote: string | null;
+}
+
+export type AdminStudentDTO = {
+  id: string;
+  studentName: string;
+  age: number | null;
+  parentName: string;
+  phone: string;
+  email: string;
+
+  city: CityKey;
+  school: SchoolKey;
+  classroom: string | null;
+
+  frequency: Frequency;
+  selectedDays: string[];
+
+  startDate: string;
+  sessionLabel?: SessionKey | null;
+  startDatesByDay?: Partial<Record<DayKey, string>>;
+  sectionIds: string[];
+
+  paymentStatus: PaymentStatus;
+  paymentMethod?: string | null;
+  paymentCount: number;
+  // computed from ACTIVE enrollments, discounts and the payment ledger;
+  // tuitionCents is pricing.finalCents
+  pricing: PriceBreakdown;
+  promoCode: string | null;
+  scholarshipKind: 'PERCENT' | 'AMOUNT' | null;
+  scholarshipValue: number | null;
+  scholarshipNote: string | null;
+  tuitionCents: number;
+  paidCents: number;
+  owedCents: number;
+  // last payment reminder email that went out, ISO
+  lastRemindedAt: string | null;
+  // the parent's phone is on the SMS opt-out list
+  smsOptOut: boolean;
+  familyId: string | null;
+
+  liabilityAccepted?: boolean;
+  waiverName?: string | null;
+  waiverAddress?: string | null;
+};
+
+type JoinedRow = {
+  studentid: string | null;
+  sectionid: string | null;
+  day: string | null;
+  label: string | null;
+  startdate: Date | null;
+  pricecents: number | null;
+  bundlepricecents: number | null;
+};
+
+type Agg = {
+  days: Set<string>;
+  sectionIds: string[];
+  priced: PricedSection[];
+  starts: number[];
+  labels: Record<SessionKey, number>;
+  byDay: Map<string, string>;
+};
+
+// ----------------- Helpers -----------------
+
+function isDayKey(x: string): x is DayKey {
+  return (
+    x === 'Monday' ||
+    x === 'Tuesday' ||
+    x === 'Wednesday' ||
+    x === 'Thursday' ||
+    x === 'Friday'
+  );
+}
+
+// ----------------- Loader -----------------
+
+export async function loadAdminStudents(
+  session: string,
+  scope: Prisma.StudentWhereInput = {},
+  db: Db = prisma
+): Promise<AdminStudentDTO[]> {
+  // 1) Load students for the selected session
+  const students = (await db.student.findMany({
+    where: {
+      session,
+      ...scope,
+    },
+    orderBy: {
+      studentName: 'asc',
+    },
+  })) as unknown as StudentRow[];
+
+  // 2) Load ACTIVE enrollment information
+  const joined = await db.$queryRaw<JoinedRow[]>`
+    SELECT
+      "Enrollment"."studentId"          AS studentid,
+      "ClassSection"."id"               AS sectionid,
+      "ClassSection"."day"::text        AS day,
+      "ClassSection"."label"            AS label,
+      "ClassSection"."startDate"        AS startdate,
+      "ClassSection"."priceCents"       AS pricecents,
+      "ClassSection"."bundlePriceCents" AS bundlepricecents
+    FROM "Enrollment"
+    JOIN "ClassSection"
+      ON "Enrollment"."sectionId" = "ClassSection"."id"
+    WHERE "ClassSection"."session" = ${session}
+      AND "Enrollment"."status" = 'ACTIVE'::"public"."EnrollmentStatus"
+  `;
+
+  // 3) Load payment ledger totals
+  const ledger = await ledgerTotalsByStudent(
+    students.map((student) => student.id),
+    db
+  );
+
+  // 4) Load when each student was last sent a payment reminder
+  const reminders = await db.emailMessage.groupBy({
+    by: ['studentId'],
+    where: {
+      studentId: {
+        in: students.map((student) => student.id),
+      },
+      template: 'payment_reminder',
+      status: 'SENT',
+    },
+    _max: {
+      createdAt: true,
+    },
+  });
+
+  const lastReminded = new Map(
+    reminders.map((row) => [row.studentId, row._max.createdAt])
+  );
+
+  // 5) Load SMS opt-outs for the parents' phones
+  const phones = new Map(
+    students.map((student) => [student.id, normalizePhone(student.phone)])
+  );
+
+  const optOuts = new Set(
+    (
+      await db.smsOptOut.findMany({
+        where: {
+          phone: {
+            in: [...phones.values()].filter(
+              (phone): phone is string => phone !== null
+            ),
+          },
+        },
+      })
+    ).map((row) => row.phone)
+  );
+
+  // 6) Aggregate enrollment information by student
+  const byStudent = new Map<string, Agg>();
+
+  for (const row of joined) {
+    if (!row.studentid) continue;
+
+    const entry: Agg = byStudent.get(row.studentid) ?? {
+      days: new Set<string>(),
+      sectionIds: [],
+      priced: [],
+      starts: [],
+      labels: {
+        A: 0,
+        B: 0,
+      },
+      byDay: new Map<string, string>(),
+    };
+
+    if (row.day) {
+      entry.days.add(row.day.trim());
+    }
+
+    if (row.sectionid) {
+      entry.sectionIds.push(row.sectionid);
+    }
+
+    if (row.day && typeof row.pricecents === 'number') {
+      entry.priced.push({
+        day: row.day.trim(),
+        priceCents: row.pricecents,
+        bundlePriceCents: row.bundlepricecents,
+      });
+    }
+
+    if (row.label === 'A' || row.label === 'B') {
+      entry.labels[row.label] += 1;
+    }
+
+    if (
+      row.startdate instanceof Date &&
+      !Number.isNaN(row.startdate.getTime())
+    ) {
+      const timestamp = row.startdate.getTime();
+      entry.starts.push(timestamp);
+
+      if (row.day) {
+        const day = row.day.trim();
+        const iso = row.startdate.toISOString();
+        const existing = entry.byDay.get(day);
+
+        if (!existing || timestamp < new Date(existing).getTime()) {
+          entry.byDay.set(day, iso);
+        }
+      }
+    }
+
+    byStudent.set(row.studentid, entry);
+  }
+
+  // 7) Load what decides discounts: the term's siblings (in any school,
+  //    so everyone sees the same price) and the promo codes in use
+  const familyIds = [
+    ...new Set(
+      students
+        .map((student) => student.familyId)
+        .filter((id): id is string => id !== null)
+    ),
+  ];
+
+  const [siblingSettings, siblings, promos] = await Promise.all([
+    loadSiblingDiscount(db),
+    familyIds.length
+      ? db.student.findMany({
+          where: {
+            session,
+            familyId: {
+              in: familyIds,
+            },
+          },
+          select: {
+            id: true,
+            familyId: true,
+            createdAt: true,
+          },
+        })
+      : [],
+    db.promoCode.findMany({
+      where: {
+        code: {
+          in: students
+            .map((student) => student.promoCode)
+            .filter((code): code is string => code !== null),
+        },
+      },
+    }),
+  ]);
+
+  const discountedSiblings = siblingDiscountIds(
+    siblings.map((sibling) => {
+      const base = basePriceForSections(
+        byStudent.get(sibling.id)?.priced ?? []
+      );
+      return {
+        ...sibling,
+        subtotalCents: base.baseCents + base.bundleCents,
+      };
+    })
+  );
+
+  const promoByCode = new Map(promos.map((promo) => [promo.code, promo]));
+
+  // 8) Build response used by the admin page
+  const data: AdminStudentDTO[] = students.map((student) => {
+    const agg = byStudent.get(student.id);
+
+    // Prefer actual enrollment days.
+    // Fall back to Student.selectedDays for older records.
+    const fromEnrollments = agg
+      ? Array.from(agg.days)
+      : undefined;
+
+    const selectedDays = sortDays(
+      fromEnrollments ?? student.selectedDays ?? []
+    );
+
+    // Determine A/B group from actual enrolled sections.
+    let sessionLabel: SessionKey | null = null;
+
+    if (agg) {
+      if (agg.labels.A > 0 || agg.labels.B > 0) {
+        sessionLabel =
+          agg.labels.A >= agg.labels.B ? 'A' : 'B';
+      }
+    }
+
+    // Earliest enrolled section start date.
+    // Fall back to Student.startDate.
+    const earliestTs =
+      agg && agg.starts.length > 0
+        ? Math.min(...agg.starts)
+        : student.startDate.getTime();
+
+    // Start date for each enrolled day.
+    const startDatesByDay: Partial<
+      Record<DayKey, string>
+    > = {};
+
+    if (agg) {
+      for (const [day, iso] of agg.byDay.entries()) {
+        if (isDayKey(day)) {
+          startDatesByDay[day] = iso;
+        }
+      }
+    }
+
+    const frequency: Frequency = frequencyForDays(selectedDays);
+
+    const pricing = priceBreakdown(
+      agg?.priced ?? [],
+      discountsFor(student, {
+        sibling: discountedSiblings.has(student.id) ? siblingSettings : null,
+        promo: student.promoCode
+          ? (promoByCode.get(student.promoCode) ?? null)
+          : null,
+      })
+    );
+
+    const balance = balanceFor({
+      tuitionCents: pricing.finalCents,
+      ledgerPaidCents: ledger.get(student.id)?.paidCents ?? 0,
+      paymentCount: ledger.get(student.id)?.paymentCount ?? 0,
+      paymentStatus: student.paymentStatus,
+    });
+
+    return {
+      id: student.id,
+      studentName: student.studentName,
+      age: student.age,
+
+      parentName: student.parentName,
+      phone: student.phone,
+      email: student.email,
+
+      city: student.city,
+      school: student.school,
+      classroom: student.classroom,
+
+      frequency,
+      selectedDays,
+
+      startDate: new Date(earliestTs).toISOString(),
+      sessionLabel,
+      startDatesByDay,
+      sectionIds: agg?.sectionIds ?? [],
+
+      paymentStatus: student.paymentStatus,
+      paymentMethod: student.paymentMethod,
+      paymentCount: ledger.get(student.id)?.paymentCount ?? 0,
+      pricing,
+      promoCode: student.promoCode,
+      scholarshipKind: student.scholarshipKind,
+      scholarshipValue: student.scholarshipValue,
+      scholarshipNote: student.scholarshipNote,
+      tuitionCents: balance.tuitionCents,
+      paidCents: balance.paidCents,
+      owedCents: balance.owedCents,
+      lastRemindedAt:
+        lastReminded.get(student.id)?.toISOString() ?? null,
+      smsOptOut: optOuts.has(phones.get(student.id) ?? ''),
+      familyId: student.familyId,
+
+      liabilityAccepted: student.liabilityAccepted,
+      waiverName: student.waiverName,
+      waiverAddress: student.waiverAddress,
+    };
+  });
+
+  return data;
+}
+
+// ----------------- Totals -----------------
+
+export type StudentTotals = {
+  students: number;
+  registrations: number;
+  tuitionCents: number;
+  paidCents: number;
+  owedCents: number;
+};
+
+export function summarizeStudents(students: AdminStudentDTO[]): StudentTotals {
+  return students.reduce<StudentTotals>(
+    (totals, student) => ({
+      students: totals.students + 1,
+      // each enrolled day counts as one class registration
+      registrations:
+        totals.registrations + Math.max(student.selectedDays.length, 1),
+      tuitionCents: totals.tuitionCents + student.tuitionCents,
+      paidCents: totals.paidCents + student.paidCents,
+      owedCents: totals.owedCents + student.owedCents,
+    }),
+    {
+      students: 0,
+      registrations: 0,
+      tuitionCents: 0,
+      paidCents: 0,
+      owedCents: 0,
+    }
+  );
+}
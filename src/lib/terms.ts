@@ -0,0 +1,67 @@
+// src/lib/terms.ts
+//
+// School terms live in the Term table. Every other table stores the term
+// code in its `session` column, and the API keeps taking `?session=<code>`.
+
+import { Prisma, type Term } from '@prisma/client';
+import prisma from './prisma';
+import { isTermCode } from './validation';
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/** Resolves a `session` query/body value to an existing term, or null. */
+export async function findTerm(value: unknown, db: Db = prisma) {
+  if (!isTermCode(value)) return null;
+
+  return db.term.findUnique({
+    where: {
+      code: value,
+    },
+  });
+}
+
+// Month each season starts in, for terms without a start date
+const SEASON_MONTHS: Record<string, number> = {
+  WINTER: 0,
+  SPRING: 1,
+  SUMMER: 5,
+  FALL: 7,
+};
+
+/**
+ * When the term starts, for sorting. Terms migrated from the old enum
+ * have no dates, so FALL_2025 is placed by its season and year instead of
+ * alphabetically (which would put SPRING_2026 ahead of FALL_2026).
+ */
+function termStart(term: Term) {
+  if (term.startDate) return term.startDate.getTime();
+
+  const match = /^([A-Z]+)_(\d{4})$/.exec(term.code);
+  if (!match || !(match[1] in SEASON_MONTHS)) return -Infinity;
+
+  return Date.UTC(Number(match[2]), SEASON_MONTHS[match[1]]);
+}
+
+/** Newest term first. */
+export async function listTerms({
+  includeInactive = false,
+}: { includeInactive?: boolean } = {}) {
+  const terms = await prisma.term.findMany({
+    where: includeInactive ? {} : { isActive: true },
+  });
+
+  return terms.sort(
+    (a, b) => termStart(b) - termStart(a) || b.code.localeCompare(a.code)
+  );
+}
+
+export function toTermDTO(term: Term) {
+  return {
+    code: term.code,
+    label: term.label,
+    startDate: term.startDate ? term.startDate.toISOString() : null,
+    endDate: term.endDate ? term.endDate.toISOString() : null,
+    isActive: term.isActive,
+    isCurrent: term.isCurrent,
+  };
+}
@@ -0,0 +1,629 @@
+// src/lib/validation.ts
+//
+// Small hand-rolled validators for admin API payloads. Each parser
+// collects every problem it finds so the dashboard can show them together.
+
+import {
+  AttendanceStatus,
+  City,
+  Day,
+  PaymentStatus,
+  School,
+  WaitlistStatus,
+} from '@prisma/client';
+
+export type ParseResult<T> =
+  { ok: true; data: T } | { ok: false; errors: string[] };
+
+export const SCHOOL_CITY: Record<School, City> = {
+  KATY: 'HOUSTON',
+  SUGARLAND: 'HOUSTON',
+  ALLEN: 'DALLAS',
+  FRISCO: 'DALLAS',
+  CASTLE_HILLS: 'DALLAS',
+  NORTH_DALLAS: 'DALLAS',
+  PRESTON_TRAIL: 'DALLAS',
+};
+
+export const SCHOOL_LABELS: Record<School, string> = {
+  SUGARLAND: 'Sugar Land',
+  KATY: 'Katy',
+  ALLEN: 'Allen',
+  FRISCO: 'Frisco',
+  CASTLE_HILLS: 'Castle Hills',
+  NORTH_DALLAS: 'North Dallas',
+  PRESTON_TRAIL: 'Preston Trail',
+};
+
+export function isEnumValue<T extends Record<string, string>>(
+  values: T,
+  value: unknown
+): value is T[keyof T] {
+  return (
+    typeof value === 'string' &&
+    (Object.values(values) as string[]).includes(value)
+  );
+}
+
+// Term codes such as FALL_2026. Whether the term exists is checked
+// against the Term table by the caller.
+const TERM_CODE_PATTERN = /^[A-Z][A-Z0-9_]{1,39}$/;
+
+export function isTermCode(value: unknown): value is string {
+  return typeof value === 'string' && TERM_CODE_PATTERN.test(value);
+}
+
+// 24h "15:30" or 12h "3:30 PM"
+const TIME_PATTERN =
+  /^(([01]?\d|2[0-3]):[0-5]\d|(0?[1-9]|1[0-2]):[0-5]\d\s?[AaPp][Mm])$/;
+
+function parseDateValue(value: unknown): Date | null | undefined {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') return undefined;
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+function isWholeNumber(value: unknown, min: number, max: number) {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+// ----------------- Class sections -----------------
+
+export type SectionInput = {
+  city: City;
+  school: School;
+  day: Day;
+  label: string;
+  session: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  startTime: string | null;
+  endTime: string | null;
+  capacity: number;
+  priceCents: number;
+  bundlePriceCents: number | null;
+  eligibleClasses: string[];
+  isActive: boolean;
+};
+
+/**
+ * Validates a section payload. With `partial` only the keys present in
+ * the body are checked and returned, for PUT.
+ */
+export function parseSectionInput(
+  body: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {}
+): ParseResult<Partial<SectionInput>> {
+  const errors: string[] = [];
+  const data: Partial<SectionInput> = {};
+  const has = (key: string) => !partial || key in body;
+
+  if (has('school')) {
+    if (isEnumValue(School, body.school)) data.school = body.school;
+    else
+      errors.push(`school must be one of ${Object.values(School).join(', ')}`);
+  }
+
+  if (has('city') || data.school) {
+    const city =
+      body.city ?? (data.school ? SCHOOL_CITY[data.school] : undefined);
+    if (isEnumValue(City, city)) data.city = city;
+    else errors.push(`city must be one of ${Object.values(City).join(', ')}`);
+  }
+
+  if (data.school && data.city && SCHOOL_CITY[data.school] !== data.city) {
+    errors.push(`${data.school} is not in ${data.city}`);
+  }
+
+  if (has('day')) {
+    if (isEnumValue(Day, body.day)) data.day = body.day;
+    else errors.push(`day must be one of ${Object.values(Day).join(', ')}`);
+  }
+
+  if (has('label')) {
+    const label = typeof body.label === 'string' ? body.label.trim() : '';
+    if (label && label.length <= 10) data.label = label;
+    else errors.push('label is required (up to 10 characters)');
+  }
+
+  if (has('session')) {
+    if (isTermCode(body.session)) data.session = body.session;
+    else errors.push('session is not a valid term code');
+  }
+
+  for (const key of ['startDate', 'endDate'] as const) {
+    if (!has(key)) continue;
+    const value = parseDateValue(body[key] ?? null);
+    if (value === undefined) errors.push(`${key} must be a date`);
+    else data[key] = value;
+  }
+
+  if (data.startDate && data.endDate && data.endDate < data.startDate) {
+    errors.push('endDate must be on or after startDate');
+  }
+
+  for (const key of ['startTime', 'endTime'] as const) {
+    if (!has(key)) continue;
+    const value = body[key];
+    if (value === null || value === undefined || value === '') {
+      data[key] = null;
+    } else if (typeof value === 'string' && TIME_PATTERN.test(value.trim())) {
+      data[key] = value.trim();
+    } else {
+      errors.push(`${key} must look like 15:30 or 3:30 PM`);
+    }
+  }
+
+  if (has('capacity')) {
+    if (isWholeNumber(body.capacity, 1, 200))
+      data.capacity = body.capacity as number;
+    else errors.push('capacity must be a whole number between 1 and 200');
+  }
+
+  if (has('priceCents')) {
+    if (isWholeNumber(body.priceCents, 0, 10_000_000)) {
+      data.priceCents = body.priceCents as number;
+    } else {
+      errors.push('priceCents must be a whole number of cents');
+    }
+  }
+
+  if (has('bundlePriceCents')) {
+    const value = body.bundlePriceCents;
+    if (value === null || value === undefined) data.bundlePriceCents = null;
+    else if (isWholeNumber(value, 0, 10_000_000))
+      data.bundlePriceCents = value as number;
+    else
+      errors.push('bundlePriceCents must be a whole number of cents or null');
+  }
+
+  if (has('eligibleClasses')) {
+    const value = body.eligibleClasses ?? [];
+    if (
+      Array.isArray(value) &&
+      value.every((item) => typeof item === 'string')
+    ) {
+      data.eligibleClasses = (value as string[])
+        .map((item) => item.trim())
+        .filter(Boolean);
+    } else {
+      errors.push('eligibleClasses must be a list of class names');
+    }
+  }
+
+  if (has('isActive')) {
+    const value = body.isActive ?? true;
+    if (typeof value === 'boolean') data.isActive = value;
+    else errors.push('isActive must be true or false');
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, data };
+}
+
+// ----------------- Students -----------------
+
+export type StudentUpdate = {
+  studentName: string;
+  parentName: string;
+  phone: string;
+  email: string;
+  classroom: string | null;
+  age: number | null;
+  liabilityAccepted: boolean;
+  waiverName: string | null;
+  waiverAddress: string | null;
+  paymentStatus: PaymentStatus;
+  paymentMethod: string | null;
+};
+
+export const PAYMENT_FIELDS = ['paymentStatus', 'paymentMethod'] as const;
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Digits with the usual separators; at least 10 digits for a US number.
+const PHONE_PATTERN = /^\+?[\d\s().-]{10,20}$/;
+
+/**
+ * "(713) 555-0100", "713.555.0100" and "+1 713 555 0100" all become
+ * "+17135550100". Numbers without a country code are taken as US.
+ * null when the value isn't a usable phone number.
+ */
+export function normalizePhone(value: string) {
+  const trimmed = value.trim();
+  if (!PHONE_PATTERN.test(trimmed)) return null;
+
+  const digits = trimmed.replace(/\D/g, '');
+
+  if (trimmed.startsWith('+')) {
+    return digits.length >= 10 && digits.length <= 15 ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+
+  return null;
+}
+
+function optionalText(
+  value: unknown,
+  maxLength: number
+): string | null | undefined {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) return undefined;
+  return trimmed || null;
+}
+
+/**
+ * Validates a PUT /api/admin/students payload. Only keys present in the
+ * body are returned; unknown keys are ignored.
+ */
+export function parseStudentUpdate(
+  body: Record<string, unknown>
+): ParseResult<Partial<StudentUpdate>> {
+  const errors: string[] = [];
+  const data: Partial<StudentUpdate> = {};
+
+  for (const key of ['studentName', 'parentName'] as const) {
+    if (!(key in body)) continue;
+    const value = typeof body[key] === 'string' ? body[key].trim() : '';
+    if (value && value.length <= 120) data[key] = value;
+    else errors.push(`${key} is required (up to 120 characters)`);
+  }
+
+  if ('email' in body) {
+    const value =
+      typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    if (EMAIL_PATTERN.test(value)) data.email = value;
+    else errors.push('email must be a valid email address');
+  }
+
+  if ('phone' in body) {
+    const value =
+      typeof body.phone === 'string' ? normalizePhone(body.phone) : null;
+    if (value) {
+      data.phone = value;
+    } else {
+      errors.push('phone must be a phone number with area code');
+    }
+  }
+
+  const textFields = [
+    ['classroom', 60],
+    ['waiverName', 120],
+    ['waiverAddress', 250],
+    ['paymentMethod', 60],
+  ] as const;
+
+  for (const [key, maxLength] of textFields) {
+    if (!(key in body)) continue;
+    const value = optionalText(body[key], maxLength);
+    if (value === undefined) {
+      errors.push(`${key} must be text up to ${maxLength} characters`);
+    } else {
+      data[key] = value;
+    }
+  }
+
+  if ('age' in body) {
+    if (body.age === null || body.age === '') data.age = null;
+    else if (isWholeNumber(body.age, 1, 18)) data.age = body.age as number;
+    else errors.push('age must be a whole number between 1 and 18');
+  }
+
+  if ('liabilityAccepted' in body) {
+    if (typeof body.liabilityAccepted === 'boolean') {
+      data.liabilityAccepted = body.liabilityAccepted;
+    } else {
+      errors.push('liabilityAccepted must be true or false');
+    }
+  }
+
+  if ('paymentStatus' in body) {
+    if (isEnumValue(PaymentStatus, body.paymentStatus)) {
+      data.paymentStatus = body.paymentStatus;
+    } else {
+      errors.push(
+        `paymentStatus must be one of ${Object.values(PaymentStatus).join(', ')}`
+      );
+    }
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, data };
+}
+
+// ----------------- Payments -----------------
+
+export type PaymentInput = {
+  amountCents: number;
+  method: string | null;
+  paidAt: Date;
+  note: string | null;
+  isRefund: boolean;
+};
+
+export function parsePaymentInput(
+  body: Record<string, unknown>
+): ParseResult<PaymentInput> {
+  const errors: string[] = [];
+
+  if (!isWholeNumber(body.amountCents, 1, 10_000_000)) {
+    errors.push('amountCents must be a positive whole number of cents');
+  }
+
+  const method = optionalText(body.method, 60);
+  if (method === undefined) {
+    errors.push('method must be text up to 60 characters');
+  }
+
+  const note = optionalText(body.note, 250);
+  if (note === undefined) {
+    errors.push('note must be text up to 250 characters');
+  }
+
+  const paidAt =
+    body.paidAt === undefined ? new Date() : parseDateValue(body.paidAt);
+  if (!paidAt) {
+    errors.push('paidAt must be a date');
+  }
+
+  const isRefund = body.isRefund ?? false;
+  if (typeof isRefund !== 'boolean') {
+    errors.push('isRefund must be true or false');
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      amountCents: body.amountCents as number,
+      method: method ?? null,
+      paidAt: paidAt as Date,
+      note: note ?? null,
+      isRefund: isRefund as boolean,
+    },
+  };
+}
+
+// ----------------- Attendance -----------------
+
+export type AttendanceInput = {
+  sectionId: string;
+  date: string;
+  marks: { enrollmentId: string; status: AttendanceStatus | null }[];
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseAttendanceInput(
+  body: Record<string, unknown>
+): ParseResult<AttendanceInput> {
+  const errors: string[] = [];
+
+  if (typeof body.sectionId !== 'string' || !body.sectionId) {
+    errors.push('sectionId is required');
+  }
+
+  if (typeof body.date !== 'string' || !ISO_DATE_PATTERN.test(body.date)) {
+    errors.push('date must look like 2026-09-08');
+  }
+
+  const marks = Array.isArray(body.marks) ? body.marks : null;
+
+  if (!marks || !marks.length) {
+    errors.push('marks must be a non-empty list');
+  } else if (
+    !marks.every(
+      (mark) =>
+        typeof mark === 'object' &&
+        mark !== null &&
+        typeof mark.enrollmentId === 'string' &&
+        (mark.status === null || isEnumValue(AttendanceStatus, mark.status))
+    )
+  ) {
+    errors.push(
+      `each mark needs an enrollmentId and a status of ${Object.values(AttendanceStatus).join(', ')} or null`
+    );
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      sectionId: body.sectionId as string,
+      date: body.date as string,
+      marks: marks as AttendanceInput['marks'],
+    },
+  };
+}
+
+// ----------------- Closures -----------------
+
+export type ClosureInput = {
+  school: School;
+  session: string;
+  date: Date;
+  reason: string;
+};
+
+export function parseClosureInput(
+  body: Record<string, unknown>
+): ParseResult<ClosureInput> {
+  const errors: string[] = [];
+
+  if (!isEnumValue(School, body.school)) {
+    errors.push(`school must be one of ${Object.values(School).join(', ')}`);
+  }
+
+  if (!isTermCode(body.session)) {
+    errors.push('session is not a valid term code');
+  }
+
+  if (typeof body.date !== 'string' || !ISO_DATE_PATTERN.test(body.date)) {
+    errors.push('date must look like 2026-11-26');
+  }
+
+  const reason = optionalText(body.reason, 120);
+  if (!reason) {
+    errors.push('reason is required (up to 120 characters)');
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      school: body.school as School,
+      session: body.session as string,
+      date: new Date(`${body.date as string}T00:00:00.000Z`),
+      reason: reason as string,
+    },
+  };
+}
+
+// ----------------- Waiting list -----------------
+
+export type WaitlistInput = {
+  studentName: string;
+  parentName: string;
+  phone: string;
+  email: string;
+  classroom: string | null;
+  age: number;
+  city: City;
+  school: School;
+  requestedDay: Day;
+  session: string;
+  notes: string | null;
+};
+
+export type WaitlistStatusChange = {
+  status: WaitlistStatus;
+  // YYYY-MM-DD; only read when offering a seat
+  offerExpiresAt: string | null;
+};
+
+/**
+ * Validates a waiting-list entry. With `partial` only the keys present in
+ * the body are checked and returned, for PUT. The city always follows the
+ * school.
+ */
+export function parseWaitlistInput(
+  body: Record<string, unknown>,
+  { partial = false }: { partial?: boolean } = {}
+): ParseResult<Partial<WaitlistInput>> {
+  const errors: string[] = [];
+  const data: Partial<WaitlistInput> = {};
+  const has = (key: string) => !partial || key in body;
+
+  for (const key of ['studentName', 'parentName'] as const) {
+    if (!has(key)) continue;
+    const value = typeof body[key] === 'string' ? body[key].trim() : '';
+    if (value && value.length <= 120) data[key] = value;
+    else errors.push(`${key} is required (up to 120 characters)`);
+  }
+
+  if (has('email')) {
+    const value =
+      typeof body.email === 'string' ? body.email.trim().toLowerCase() : '';
+    if (EMAIL_PATTERN.test(value)) data.email = value;
+    else errors.push('email must be a valid email address');
+  }
+
+  if (has('phone')) {
+    const value =
+      typeof body.phone === 'string' ? normalizePhone(body.phone) : null;
+    if (value) data.phone = value;
+    else errors.push('phone must be a phone number with area code');
+  }
+
+  const textFields = [
+    ['classroom', 60],
+    ['notes', 1000],
+  ] as const;
+
+  for (const [key, maxLength] of textFields) {
+    if (!has(key)) continue;
+    const value = optionalText(body[key], maxLength);
+    if (value === undefined) {
+      errors.push(`${key} must be text up to ${maxLength} characters`);
+    } else {
+      data[key] = value;
+    }
+  }
+
+  if (has('age')) {
+    if (isWholeNumber(body.age, 1, 18)) data.age = body.age as number;
+    else errors.push('age must be a whole number between 1 and 18');
+  }
+
+  if (has('school')) {
+    if (isEnumValue(School, body.school)) {
+      data.school = body.school;
+      data.city = SCHOOL_CITY[body.school];
+    } else {
+      errors.push(`school must be one of ${Object.values(School).join(', ')}`);
+    }
+  }
+
+  if (has('requestedDay')) {
+    if (isEnumValue(Day, body.requestedDay)) {
+      data.requestedDay = body.requestedDay;
+    } else {
+      errors.push(
+        `requestedDay must be one of ${Object.values(Day).join(', ')}`
+      );
+    }
+  }
+
+  if (has('session')) {
+    if (isTermCode(body.session)) data.session = body.session;
+    else errors.push('session is not a valid term code');
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, data };
+}
+
+/** null when the body doesn't ask for a status change. */
+export function parseWaitlistStatusChange(
+  body: Record<string, unknown>
+): ParseResult<WaitlistStatusChange | null> {
+  if (!('status' in body)) return { ok: true, data: null };
+
+  const errors: string[] = [];
+
+  if (!isEnumValue(WaitlistStatus, body.status)) {
+    errors.push(
+      `status must be one of ${Object.values(WaitlistStatus).join(', ')}`
+    );
+  }
+
+  const { offerExpiresAt = null } = body;
+
+  if (
+    offerExpiresAt !== null &&
+    (typeof offerExpiresAt !== 'string' ||
+      !ISO_DATE_PATTERN.test(offerExpiresAt))
+  ) {
+    errors.push('offerExpiresAt must look like 2026-09-30');
+  }
+
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    data: {
+      status: body.status as WaitlistStatus,
+      offerExpiresAt: offerExpiresAt as string | null,
+    },
+  };
+}
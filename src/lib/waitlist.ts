@@ -0,0 +1,419 @@
+// src/lib/waitlist.ts
+//
+// Families waiting for a seat. Each school, requested day and term is its
+// own line, served in the order families joined it. An entry goes from
+// WAITING through CONTACTED and OFFERED to ACCEPTED when the child is
+// enrolled, or ends DECLINED or EXPIRED. Closed entries stay for the
+// record; an offer that isn't taken up by its deadline expires and the
+// next family in line is up.
+
+import {
+  Day,
+  Prisma,
+  type WaitingList,
+  type WaitlistStatus,
+} from '@prisma/client';
+import prisma from './prisma';
+import { recordAudit, type AuditActor } from './audit';
+import {
+  EnrollmentError,
+  SectionFullError,
+  assertSeatAvailable,
+  type CapacityOverride,
+} from './enrollments';
+import { isEnumValue, type WaitlistStatusChange } from './validation';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// how long a family has to answer when the admin doesn't pick a date
+const DEFAULT_OFFER_DAYS = 3;
+
+// lapsed offers are expired by the app, not by an admin
+const WAITLIST_ACTOR: AuditActor = {
+  id: null,
+  email: 'waitlist-offers',
+};
+
+export class WaitlistError extends Error {
+  constructor(
+    message: string,
+    public status = 400
+  ) {
+    super(message);
+    this.name = 'WaitlistError';
+  }
+}
+
+// ----------------- Statuses -----------------
+
+/** Still in line for a seat; the other statuses are closed. */
+export const OPEN_WAITLIST_STATUSES: WaitlistStatus[] = [
+  'WAITING',
+  'CONTACTED',
+  'OFFERED',
+];
+
+// Changes an admin can make by hand. ACCEPTED only comes from enrolling
+// the child, and a closed entry can be put back in line.
+const STATUS_CHANGES: Record<WaitlistStatus, WaitlistStatus[]> = {
+  WAITING: ['CONTACTED', 'OFFERED', 'DECLINED'],
+  CONTACTED: ['WAITING', 'OFFERED', 'DECLINED'],
+  OFFERED: ['WAITING', 'CONTACTED', 'DECLINED', 'EXPIRED'],
+  ACCEPTED: [],
+  DECLINED: ['WAITING'],
+  EXPIRED: ['WAITING', 'OFFERED'],
+};
+
+const STATUS_TIMESTAMPS: Partial<
+  Record<
+    WaitlistStatus,
+    'contactedAt' | 'offeredAt' | 'acceptedAt' | 'declinedAt' | 'expiredAt'
+  >
+> = {
+  CONTACTED: 'contactedAt',
+  OFFERED: 'offeredAt',
+  ACCEPTED: 'acceptedAt',
+  DECLINED: 'declinedAt',
+  EXPIRED: 'expiredAt',
+};
+
+function isOpen(status: WaitlistStatus) {
+  return OPEN_WAITLIST_STATUSES.includes(status);
+}
+
+// Deadlines are stored as the UTC midnight of their last day, like promo
+// code expiry dates.
+function startOfDay(date: Date) {
+  return new Date(`${date.toISOString().slice(0, 10)}T00:00:00.000Z`);
+}
+
+// ----------------- Queue -----------------
+
+function lineOf(entry: WaitingList): Prisma.WaitingListWhereInput {
+  return {
+    session: entry.session,
+    school: entry.school,
+    requestedDay: entry.requestedDay,
+  };
+}
+
+/** Open entries that joined the same line earlier. */
+async function familiesAhead(db: Db, entry: WaitingList) {
+  return db.waitingList.count({
+    where: {
+      ...lineOf(entry),
+      status: {
+        in: OPEN_WAITLIST_STATUSES,
+      },
+      createdAt: {
+        lt: entry.createdAt,
+      },
+    },
+  });
+}
+
+function aheadMessage(ahead: number, day: string) {
+  return `${ahead} ${ahead === 1 ? 'family is' : 'families are'} ahead in line for ${day}`;
+}
+
+export type WaitlistEntryDTO = WaitingList & {
+  // 1 for the family that's next in its line; null once the entry is closed
+  position: number | null;
+};
+
+export async function toWaitlistDTO(
+  db: Db,
+  entry: WaitingList
+): Promise<WaitlistEntryDTO> {
+  return {
+    ...entry,
+    position: isOpen(entry.status)
+      ? (await familiesAhead(db, entry)) + 1
+      : null,
+  };
+}
+
+/** Waiting-list rows for a term, newest first, as the endpoint returns them. */
+export async function loadWaitlist(
+  session: string,
+  scope: Prisma.WaitingListWhereInput = {}
+): Promise<WaitlistEntryDTO[]> {
+  const entries = await prisma.waitingList.findMany({
+    where: {
+      session,
+      ...scope,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+
+  // the scope only narrows schools, so every line here is complete
+  const lineLengths = new Map<string, number>();
+  const positions = new Map<string, number>();
+
+  for (const entry of [...entries].reverse()) {
+    if (!isOpen(entry.status)) continue;
+    const line = `${entry.school}|${entry.requestedDay}`;
+    const position = (lineLengths.get(line) ?? 0) + 1;
+    lineLengths.set(line, position);
+    positions.set(entry.id, position);
+  }
+
+  return entries.map((entry) => ({
+    ...entry,
+    position: positions.get(entry.id) ?? null,
+  }));
+}
+
+// ----------------- Offers -----------------
+
+/**
+ * Expires offers whose deadline has passed, so the next family in line is
+ * up. Runs whenever the list is read or changed rather than on a timer.
+ */
+export async function expireWaitlistOffers(
+  tx: Tx,
+  where: Prisma.WaitingListWhereInput = {},
+  now = new Date()
+) {
+  const lapsed = await tx.waitingList.findMany({
+    where: {
+      ...where,
+      status: 'OFFERED',
+      offerExpiresAt: {
+        lt: startOfDay(now),
+      },
+    },
+    select: {
+      id: true,
+    },
+  });
+
+  let expired = 0;
+
+  for (const { id } of lapsed) {
+    // another request may have expired or answered it meanwhile
+    const { count } = await tx.waitingList.updateMany({
+      where: {
+        id,
+        status: 'OFFERED',
+      },
+      data: {
+        status: 'EXPIRED',
+        expiredAt: now,
+      },
+    });
+
+    if (!count) continue;
+    expired += 1;
+
+    await recordAudit(tx, WAITLIST_ACTOR, [
+      {
+        entity: 'WaitingList',
+        entityId: id,
+        action: 'UPDATE',
+        field: 'status',
+        oldValue: 'OFFERED',
+        newValue: 'EXPIRED',
+      },
+    ]);
+  }
+
+  return expired;
+}
+
+/**
+ * The update that moves an entry to a new status, stamped with when it
+ * happened. A seat can only be offered to the family at the front of its
+ * line; the offer stands through offerExpiresAt, three days out unless
+ * the admin picks a date. Offering again moves the deadline.
+ */
+export async function waitlistStatusUpdate(
+  tx: Tx,
+  entry: WaitingList,
+  { status, offerExpiresAt }: WaitlistStatusChange,
+  now = new Date()
+): Promise<Partial<WaitingList>> {
+  if (status === entry.status && status !== 'OFFERED') return {};
+
+  if (
+    status !== entry.status &&
+    !STATUS_CHANGES[entry.status].includes(status)
+  ) {
+    throw new WaitlistError(
+      status === 'ACCEPTED'
+        ? 'Enroll the child from the waiting list to accept an offer'
+        : `Cannot move an entry from ${entry.status.toLowerCase()} to ${status.toLowerCase()}`,
+      409
+    );
+  }
+
+  const timestamp = STATUS_TIMESTAMPS[status];
+  const update: Partial<WaitingList> = {
+    status,
+    ...(timestamp ? { [timestamp]: now } : {}),
+  };
+
+  if (status !== 'OFFERED') return update;
+
+  await expireWaitlistOffers(tx, lineOf(entry), now);
+
+  const ahead = await familiesAhead(tx, entry);
+
+  if (ahead > 0) {
+    throw new WaitlistError(aheadMessage(ahead, entry.requestedDay), 409);
+  }
+
+  const today = startOfDay(now);
+  const deadline = offerExpiresAt
+    ? new Date(`${offerExpiresAt}T00:00:00.000Z`)
+    : new Date(today.getTime() + DEFAULT_OFFER_DAYS * DAY_MS);
+
+  if (deadline < today) {
+    throw new WaitlistError('The offer deadline cannot be in the past');
+  }
+
+  return {
+    ...update,
+    offerExpiresAt: deadline,
+  };
+}
+
+// ----------------- Enrolling -----------------
+
+/**
+ * Turns a waiting-list entry into a Student with an ACTIVE enrollment
+ * and marks the entry ACCEPTED. Families are served strictly in the order
+ * they joined the list for the same school, day and term. With an override
+ * the kid goes into the requested (or first) section even when it's full.
+ */
+export async function promoteWaitlistEntry(
+  tx: Tx,
+  entryId: string,
+  {
+    sectionId,
+    override = null,
+  }: { sectionId?: string; override?: CapacityOverride | null } = {}
+) {
+  const found = await tx.waitingList.findUnique({
+    where: {
+      id: entryId,
+    },
+  });
+
+  if (!found) {
+    throw new EnrollmentError('Waiting-list entry not found', 404);
+  }
+
+  await expireWaitlistOffers(tx, lineOf(found));
+
+  const entry = await tx.waitingList.findUniqueOrThrow({
+    where: {
+      id: entryId,
+    },
+  });
+
+  if (!isOpen(entry.status)) {
+    throw new EnrollmentError(
+      `${entry.studentName} is no longer waiting (${entry.status.toLowerCase()})`,
+      409
+    );
+  }
+
+  if (!isEnumValue(Day, entry.requestedDay)) {
+    throw new EnrollmentError(
+      `Requested day "${entry.requestedDay}" is not a class day`
+    );
+  }
+
+  const day = entry.requestedDay;
+
+  const ahead = await familiesAhead(tx, entry);
+
+  if (ahead > 0) {
+    throw new EnrollmentError(aheadMessage(ahead, day), 409);
+  }
+
+  const candidates = await tx.classSection.findMany({
+    where: {
+      session: entry.session,
+      school: entry.school,
+      day,
+      isActive: true,
+      ...(sectionId ? { id: sectionId } : {}),
+    },
+    include: {
+      _count: {
+        select: {
+          enrollments: {
+            where: {
+              status: 'ACTIVE',
+            },
+          },
+        },
+      },
+    },
+    orderBy: {
+      label: 'asc',
+    },
+  });
+
+  if (!candidates.length) {
+    throw new EnrollmentError(
+      `No ${day} section is open at this school for this term`,
+      404
+    );
+  }
+
+  const section =
+    candidates.find(
+      (candidate) => candidate._count.enrollments < candidate.capacity
+    ) ?? (override ? candidates[0] : undefined);
+
+  if (!section) {
+    throw new SectionFullError(`${day} is still full`);
+  }
+
+  const overbooked = await assertSeatAvailable(tx, section.id, override);
+
+  const student = await tx.student.create({
+    data: {
+      studentName: entry.studentName,
+      age: entry.age,
+      parentName: entry.parentName,
+      phone: entry.phone,
+      email: entry.email,
+      city: entry.city,
+      classroom: entry.classroom,
+      school: entry.school,
+      frequency: 'ONCE_A_WEEK',
+      selectedDays: [day],
+      startDate: section.startDate ?? new Date(),
+      session: entry.session,
+    },
+  });
+
+  const enrollment = await tx.enrollment.create({
+    data: {
+      studentId: student.id,
+      sectionId: section.id,
+      session: section.session,
+    },
+  });
+
+  await tx.waitingList.update({
+    where: {
+      id: entry.id,
+    },
+    data: {
+      status: 'ACCEPTED',
+      acceptedAt: new Date(),
+    },
+  });
+
+  return { entry, student, section, enrollment, overbooked };
+}
@@ -0,0 +1,479 @@
+// src/lib/webhooks.ts
+//
+// Online payments reported by the payment provider's webhook.
+// PAYMENT_PROVIDER picks how deliveries are read:
+//   stripe – Stripe events signed with the endpoint's signing secret
+//            (the default in production)
+//   fake   – the local stand-in used by `npm run payments:fake`
+//            (the default everywhere else)
+// Both verify an HMAC-SHA256 signature with PAYMENT_WEBHOOK_SECRET.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { Prisma, type PaymentEventResult, type Student } from '@prisma/client';
+import prisma, { isUniqueViolation } from './prisma';
+import { recordAudit, type AuditActor, type AuditEntry } from './audit';
+import { backfillLegacyPayment, syncPaymentStatus, tuitionFor } from './ledger';
+import { describePayment } from './payments';
+
+type Tx = Prisma.TransactionClient;
+type Db = Tx | typeof prisma;
+
+// ----------------- Providers -----------------
+
+/** What the provider told us happened to a payment. */
+export type ProviderPayment = {
+  outcome: 'SUCCEEDED' | 'FAILED';
+  // the student id or invoice number given at checkout
+  reference: string | null;
+  // the provider's id for the charge; one ledger row per charge
+  externalId: string;
+  amountCents: number;
+  method: string;
+  occurredAt: Date;
+};
+
+export type ProviderEvent = {
+  id: string;
+  type: string;
+  // null for event types that aren't about a payment
+  payment: ProviderPayment | null;
+};
+
+export type PaymentProvider = {
+  name: 'stripe' | 'fake';
+  /** Checks the signature and reads the event, or throws WebhookError. */
+  parseEvent(body: Buffer, headers: IncomingHttpHeaders): ProviderEvent;
+};
+
+/** The delivery is unsigned, wrongly signed or unreadable. */
+export class WebhookError extends Error {}
+
+function webhookSecret() {
+  const secret = process.env.PAYMENT_WEBHOOK_SECRET;
+
+  if (!secret) {
+    throw new Error('PAYMENT_WEBHOOK_SECRET must be set to accept payments');
+  }
+
+  return secret;
+}
+
+function hmacHex(secret: string, payload: Buffer | string) {
+  return createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function sameHex(expected: string, given: string) {
+  const a = Buffer.from(expected, 'hex');
+  const b = Buffer.from(given, 'hex');
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function parseJson(body: Buffer) {
+  try {
+    return JSON.parse(body.toString('utf8')) as unknown;
+  } catch {
+    throw new WebhookError('Body is not JSON');
+  }
+}
+
+const text = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const cents = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0
+    ? value
+    : null;
+
+// How old a signed Stripe delivery may be, against replays
+const STRIPE_TOLERANCE_SECONDS = 300;
+
+type StripeObject = Record<string, unknown> & {
+  metadata?: Record<string, unknown>;
+};
+
+function stripePayment(
+  type: string,
+  object: StripeObject,
+  created: Date
+): ProviderPayment | null {
+  const reference =
+    text(object.client_reference_id) ?? text(object.metadata?.reference);
+  const paymentIntent = text(object.payment_intent);
+
+  switch (type) {
+    // Checkout: client_reference_id carries the reference
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded':
+    case 'checkout.session.async_payment_failed': {
+      // a bank debit completes the session before the money arrives
+      if (
+        type === 'checkout.session.completed' &&
+        object.payment_status !== 'paid'
+      ) {
+        return null;
+      }
+
+      return {
+        outcome: type.endsWith('failed') ? 'FAILED' : 'SUCCEEDED',
+        reference,
+        externalId: paymentIntent ?? String(object.id),
+        amountCents: cents(object.amount_total) ?? 0,
+        method: 'Card (online)',
+        occurredAt: created,
+      };
+    }
+
+    // Payment links and custom flows: metadata.reference
+    case 'payment_intent.succeeded':
+    case 'payment_intent.payment_failed':
+      return {
+        outcome: type.endsWith('failed') ? 'FAILED' : 'SUCCEEDED',
+        reference,
+        externalId: String(object.id),
+        amountCents:
+          cents(
+            type.endsWith('failed') ? object.amount : object.amount_received
+          ) ?? 0,
+        method: 'Card (online)',
+        occurredAt: created,
+      };
+
+    default:
+      return null;
+  }
+}
+
+function stripeProvider(): PaymentProvider {
+  const secret = webhookSecret();
+
+  return {
+    name: 'stripe',
+    parseEvent(body, headers) {
+      const header = String(headers['stripe-signature'] ?? '');
+      const parts = header.split(',').map((part) => part.split('='));
+      const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+      const signatures = parts
+        .filter(([key]) => key === 'v1')
+        .map(([, value]) => value ?? '');
+
+      if (!timestamp || !signatures.length) {
+        throw new WebhookError('Missing Stripe-Signature header');
+      }
+
+      if (Math.abs(Date.now() / 1000 - timestamp) > STRIPE_TOLERANCE_SECONDS) {
+        throw new WebhookError('Signature timestamp is too old');
+      }
+
+      const expected = hmacHex(secret, `${timestamp}.${body.toString('utf8')}`);
+
+      if (!signatures.some((signature) => sameHex(expected, signature))) {
+        throw new WebhookError('Signature does not match');
+      }
+
+      const event = parseJson(body) as {
+        id?: unknown;
+        type?: unknown;
+        created?: unknown;
+        data?: { object?: StripeObject };
+      };
+
+      const id = text(event.id);
+      const type = text(event.type);
+
+      if (!id || !type) {
+        throw new WebhookError('Event has no id or type');
+      }
+
+      const created =
+        typeof event.created === 'number'
+          ? new Date(event.created * 1000)
+          : new Date();
+
+      return {
+        id,
+        type,
+        payment: event.data?.object
+          ? stripePayment(type, event.data.object, created)
+          : null,
+      };
+    },
+  };
+}
+
+/**
+ * The fake provider's event, as posted by scripts/fake-payment.mjs:
+ *   { id, type: 'payment.succeeded' | 'payment.failed', reference,
+ *     paymentId, amountCents }
+ * signed in the X-Fake-Signature header with the hex HMAC of the body.
+ */
+function fakeProvider(): PaymentProvider {
+  const secret = webhookSecret();
+
+  return {
+    name: 'fake',
+    parseEvent(body, headers) {
+      const signature = String(headers['x-fake-signature'] ?? '');
+
+      if (!signature || !sameHex(hmacHex(secret, body), signature)) {
+        throw new WebhookError('Signature does not match');
+      }
+
+      const event = parseJson(body) as Record<string, unknown>;
+      const id = text(event.id);
+      const type = text(event.type);
+
+      if (!id || !type) {
+        throw new WebhookError('Event has no id or type');
+      }
+
+      const outcome =
+        type === 'payment.succeeded'
+          ? 'SUCCEEDED'
+          : type === 'payment.failed'
+            ? 'FAILED'
+            : null;
+
+      return {
+        id,
+        type,
+        payment: outcome
+          ? {
+              outcome,
+              reference: text(event.reference),
+              externalId: text(event.paymentId) ?? id,
+              amountCents: cents(event.amountCents) ?? 0,
+              method: 'Card (fake provider)',
+              occurredAt: new Date(),
+            }
+          : null,
+      };
+    },
+  };
+}
+
+export function getPaymentProvider(): PaymentProvider {
+  const kind =
+    process.env.PAYMENT_PROVIDER ??
+    (process.env.NODE_ENV === 'production' ? 'stripe' : 'fake');
+
+  if (kind === 'stripe') return stripeProvider();
+  if (kind === 'fake') return fakeProvider();
+
+  throw new Error(`Unknown PAYMENT_PROVIDER "${kind}" (use stripe or fake)`);
+}
+
+// ----------------- Matching -----------------
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// "FALL_2026-1A2B3C4D", the number printed on a student's invoice
+const INVOICE_NUMBER_PATTERN = /^([A-Z0-9_]+)-([0-9A-F]{8})$/i;
+
+/**
+ * The student a payment reference points at: their id, or the number on
+ * their invoice. A family invoice number is not a student and won't match.
+ */
+export async function findStudentByReference(
+  reference: string,
+  db: Db = prisma
+) {
+  if (UUID_PATTERN.test(reference)) {
+    return db.student.findUnique({
+      where: {
+        id: reference.toLowerCase(),
+      },
+    });
+  }
+
+  const invoice = INVOICE_NUMBER_PATTERN.exec(reference);
+  if (!invoice) return null;
+
+  const matches = await db.student.findMany({
+    where: {
+      session: invoice[1].toUpperCase(),
+      id: {
+        endsWith: invoice[2].toLowerCase(),
+      },
+    },
+    take: 2,
+  });
+
+  return matches.length === 1 ? matches[0] : null;
+}
+
+// ----------------- Applying events -----------------
+
+type AppliedEvent = {
+  result: PaymentEventResult;
+  studentId: string | null;
+  paymentId: string | null;
+};
+
+export type WebhookOutcome = Omit<AppliedEvent, 'result'> & {
+  result: PaymentEventResult | 'DUPLICATE';
+};
+
+/**
+ * Records the event once. A successful payment adds a ledger row and marks
+ * the student PAID when it covers the balance; a failed one marks an
+ * unpaid student FAILED. Redelivered events, and a second event about a
+ * charge already in the ledger, change nothing.
+ */
+export async function applyProviderEvent(
+  provider: PaymentProvider['name'],
+  event: ProviderEvent
+): Promise<WebhookOutcome> {
+  const actor: AuditActor = { id: null, email: `webhook:${provider}` };
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const seen = await tx.paymentWebhookEvent.findUnique({
+        where: {
+          provider_eventId: {
+            provider,
+            eventId: event.id,
+          },
+        },
+      });
+
+      if (seen) {
+        return {
+          result: 'DUPLICATE' as const,
+          studentId: seen.studentId,
+          paymentId: seen.paymentId,
+        };
+      }
+
+      const payment = event.payment;
+      const student = payment?.reference
+        ? await findStudentByReference(payment.reference, tx)
+        : null;
+
+      let outcome: AppliedEvent;
+
+      if (!payment) {
+        outcome = { result: 'IGNORED', studentId: null, paymentId: null };
+      } else if (!student) {
+        outcome = { result: 'UNMATCHED', studentId: null, paymentId: null };
+      } else if (payment.outcome === 'SUCCEEDED') {
+        outcome = await recordSucceeded(tx, actor, student, payment);
+      } else {
+        outcome = await recordFailed(tx, actor, student);
+      }
+
+      await tx.paymentWebhookEvent.create({
+        data: {
+          provider,
+          eventId: event.id,
+          type: event.type,
+          reference: payment?.reference ?? null,
+          studentId: outcome.studentId,
+          amountCents: payment?.amountCents ?? null,
+          result: outcome.result,
+          paymentId: outcome.paymentId,
+        },
+      });
+
+      return outcome;
+    });
+  } catch (err) {
+    // the same event delivered twice at once: the other one recorded it
+    if (isUniqueViolation(err)) {
+      return { result: 'DUPLICATE', studentId: null, paymentId: null };
+    }
+    throw err;
+  }
+}
+
+type StudentRow = Pick<
+  Student,
+  'id' | 'session' | 'paymentStatus' | 'createdAt'
+>;
+
+async function recordSucceeded(
+  tx: Tx,
+  actor: AuditActor,
+  student: StudentRow,
+  payment: ProviderPayment
+): Promise<AppliedEvent> {
+  const tuitionCents = await tuitionFor(student);
+  const audit: AuditEntry[] = [];
+
+  let ledgerRow = await tx.payment.findUnique({
+    where: {
+      externalId: payment.externalId,
+    },
+  });
+
+  if (!ledgerRow) {
+    audit.push(...(await backfillLegacyPayment(tx, student, tuitionCents)));
+
+    ledgerRow = await tx.payment.create({
+      data: {
+        studentId: student.id,
+        amountCents: payment.amountCents,
+        method: payment.method,
+        paidAt: payment.occurredAt,
+        note: `Online payment ${payment.externalId}`,
+        externalId: payment.externalId,
+      },
+    });
+
+    audit.push({
+      entity: 'Payment',
+      entityId: ledgerRow.id,
+      studentId: student.id,
+      action: 'CREATE',
+      field: 'ledger',
+      newValue: describePayment(ledgerRow),
+    });
+  }
+
+  // a payment that doesn't cover the balance still clears a failure
+  const synced = await syncPaymentStatus(tx, student, tuitionCents, {
+    clearFailure: true,
+  });
+  audit.push(...synced.audit);
+
+  await recordAudit(tx, actor, audit);
+
+  return {
+    result: synced.covered ? 'PAID' : 'PARTIAL',
+    studentId: student.id,
+    paymentId: ledgerRow.id,
+  };
+}
+
+async function recordFailed(
+  tx: Tx,
+  actor: AuditActor,
+  student: StudentRow
+): Promise<AppliedEvent> {
+  // a failed retry doesn't undo a registration that is already paid
+  if (student.paymentStatus === 'PENDING') {
+    await tx.student.update({
+      where: {
+        id: student.id,
+      },
+      data: {
+        paymentStatus: 'FAILED',
+      },
+    });
+
+    await recordAudit(tx, actor, [
+      {
+        entity: 'Student',
+        entityId: student.id,
+        studentId: student.id,
+        action: 'UPDATE',
+        field: 'paymentStatus',
+        oldValue: student.paymentStatus,
+        newValue: 'FAILED',
+      },
+    ]);
+  }
+
+  return { result: 'FAILED', studentId: student.id, paymentId: null };
+}
@@ -0,0 +1,30 @@
+// src/middleware.ts
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { SESSION_COOKIE, verifySessionToken } from './lib/session';
+
+export async function middleware(req: NextRequest) {
+  const session = await verifySessionToken(
+    req.cookies.get(SESSION_COOKIE)?.value
+  );
+
+  if (session) return NextResponse.next();
+
+  if (req.nextUrl.pathname.startsWith('/api/')) {
+    return NextResponse.json(
+      { error: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = req.nextUrl.clone();
+  loginUrl.pathname = '/login';
+  loginUrl.search = '';
+  loginUrl.searchParams.set('next', req.nextUrl.pathname);
+
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ['/', '/api/admin/:path*'],
+};
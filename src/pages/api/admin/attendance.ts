@@ -0,0 +1,130 @@
+// src/pages/api/admin/attendance.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  canRecordAttendance,
+  forbidden,
+  requireActor,
+} from '../../../lib/permissions';
+import {
+  loadSectionAttendance,
+  saveAttendance,
+} from '../../../lib/attendance';
+import { EnrollmentError } from '../../../lib/enrollments';
+import { parseAttendanceInput } from '../../../lib/validation';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    // =====================================================
+    // GET ?sectionId=
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const { sectionId } = req.query;
+
+      if (typeof sectionId !== 'string' || !sectionId) {
+        return res.status(400).json({
+          error: 'Missing sectionId',
+        });
+      }
+
+      const data = await loadSectionAttendance(sectionId);
+
+      if (!data) {
+        return res.status(404).json({
+          error: 'Section not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, data.section.school)) {
+        return forbidden(res);
+      }
+
+      return res.status(200).json(data);
+    }
+
+    // =====================================================
+    // PUT (marks for one meeting)
+    // =====================================================
+
+    if (req.method === 'PUT') {
+      if (!canRecordAttendance(actor)) {
+        return forbidden(res, 'Your role cannot take attendance');
+      }
+
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const parsed = parseAttendanceInput(body);
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid attendance',
+          details: parsed.errors,
+        });
+      }
+
+      const { sectionId, date, marks } = parsed.data;
+
+      const section = await prisma.classSection.findUnique({
+        where: {
+          id: sectionId,
+        },
+        select: {
+          school: true,
+        },
+      });
+
+      if (!section) {
+        return res.status(404).json({
+          error: 'Section not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, section.school)) {
+        return forbidden(res);
+      }
+
+      await prisma.$transaction((tx) =>
+        saveAttendance(tx, actor, { sectionId, date, marks })
+      );
+
+      return res.status(200).json(await loadSectionAttendance(sectionId));
+    }
+
+    res.setHeader('Allow', ['GET', 'PUT']);
+
+    return res.status(405).json({
+      error: 'Method not allowed',
+    });
+  } catch (err: unknown) {
+    if (err instanceof EnrollmentError) {
+      return res.status(err.status).json({
+        error: err.message,
+      });
+    }
+
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/attendance error:`, err);
+
+    return res.status(500).json({
+      error:
+        req.method === 'GET'
+          ? 'Failed to load attendance'
+          : 'Failed to save attendance',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,78 @@
+// src/pages/api/admin/calendar.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import { requireActor, schoolScope } from '../../../lib/permissions';
+import {
+  feedUrl,
+  loadClosures,
+  sectionMeetings,
+  toClosureDTO,
+} from '../../../lib/calendar';
+import { findTerm } from '../../../lib/terms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const term = await findTerm(req.query.session);
+
+    if (!term) {
+      return res.status(400).json({
+        error: 'Missing or invalid session',
+      });
+    }
+
+    const scope = schoolScope(actor);
+
+    const [sections, closures] = await Promise.all([
+      prisma.classSection.findMany({
+        where: {
+          session: term.code,
+          isActive: true,
+          ...scope,
+        },
+        orderBy: [{ school: 'asc' }, { day: 'asc' }, { label: 'asc' }],
+      }),
+      loadClosures(term.code, scope),
+    ]);
+
+    return res.status(200).json({
+      session: term.code,
+      sections: sections.map((section) => ({
+        id: section.id,
+        school: section.school,
+        day: section.day,
+        label: section.label,
+        startTime: section.startTime,
+        endTime: section.endTime,
+        meetings: sectionMeetings(section, closures),
+        feedUrl: feedUrl(req, 'section', section.id),
+      })),
+      closures: closures.map(toClosureDTO),
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/admin/calendar error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to load the calendar',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,74 @@
+// src/pages/api/admin/calendar/feed.ts
+//
+// Hands out a student's subscribable .ics link so the office can send it
+// to the family.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../../lib/prisma';
+import {
+  canAccessSchool,
+  forbidden,
+  requireActor,
+} from '../../../../lib/permissions';
+import { feedUrl } from '../../../../lib/calendar';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const { studentId } = req.query;
+
+    if (typeof studentId !== 'string' || !studentId) {
+      return res.status(400).json({
+        error: 'Missing studentId',
+      });
+    }
+
+    const student = await prisma.student.findUnique({
+      where: {
+        id: studentId,
+      },
+      select: {
+        id: true,
+        school: true,
+      },
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, student.school)) {
+      return forbidden(res);
+    }
+
+    return res.status(200).json({
+      url: feedUrl(req, 'student', student.id),
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/admin/calendar/feed error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to create the calendar link',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,102 @@
+// src/pages/api/admin/capacity.ts
+//
+// GET ?session= lists the actor's sections that are over capacity or past
+// the fill threshold, with the threshold; PUT saves the threshold.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import {
+  canManageSections,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import {
+  capacityAlerts,
+  loadCapacitySettings,
+  parseCapacitySettings,
+  saveCapacitySettings,
+} from '../../../lib/capacity';
+import { loadSections } from '../../../lib/sections';
+import { findTerm } from '../../../lib/terms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    // =====================================================
+    // GET
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const term = await findTerm(req.query.session);
+
+      if (!term) {
+        return res.status(400).json({
+          error: 'Missing or invalid session',
+        });
+      }
+
+      const [settings, sections] = await Promise.all([
+        loadCapacitySettings(),
+        loadSections(term.code, schoolScope(actor)),
+      ]);
+
+      return res.status(200).json({
+        settings,
+        alerts: capacityAlerts(sections, settings),
+      });
+    }
+
+    // =====================================================
+    // PUT
+    // =====================================================
+
+    if (req.method === 'PUT') {
+      if (!canManageSections(actor)) {
+        return forbidden(res, 'Your role cannot change capacity alerts');
+      }
+
+      const parsed = parseCapacitySettings(
+        (req.body ?? {}) as Record<string, unknown>
+      );
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid capacity settings',
+          details: parsed.errors,
+        });
+      }
+
+      await prisma.$transaction((tx) =>
+        saveCapacitySettings(tx, actor, parsed.data)
+      );
+
+      return res.status(200).json({ settings: parsed.data });
+    }
+
+    res.setHeader('Allow', ['GET', 'PUT']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/capacity error:`, err);
+
+    return res.status(500).json({
+      error:
+        req.method === 'PUT'
+          ? 'Failed to save capacity settings'
+          : 'Failed to load capacity alerts',
+      detail,
+    });
+  }
+}
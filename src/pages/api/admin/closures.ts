@@ -0,0 +1,173 @@
+// src/pages/api/admin/closures.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma, { isUniqueViolation } from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  canManageSections,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import { recordAudit } from '../../../lib/audit';
+import { isoDate, loadClosures, toClosureDTO } from '../../../lib/calendar';
+import { findTerm } from '../../../lib/terms';
+import { SCHOOL_LABELS, parseClosureInput } from '../../../lib/validation';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    // =====================================================
+    // GET ?session=
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const term = await findTerm(req.query.session);
+
+      if (!term) {
+        return res.status(400).json({
+          error: 'Missing or invalid session',
+        });
+      }
+
+      const closures = await loadClosures(term.code, schoolScope(actor));
+
+      return res.status(200).json(closures.map(toClosureDTO));
+    }
+
+    if (req.method !== 'POST' && req.method !== 'DELETE') {
+      res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canManageSections(actor)) {
+      return forbidden(res, 'Your role cannot change the class calendar');
+    }
+
+    // =====================================================
+    // POST
+    // =====================================================
+
+    if (req.method === 'POST') {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const parsed = parseClosureInput(body);
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid closure',
+          details: parsed.errors,
+        });
+      }
+
+      const input = parsed.data;
+
+      if (!(await findTerm(input.session))) {
+        return res.status(400).json({
+          error: 'Invalid closure',
+          details: [`${input.session} is not a known term`],
+        });
+      }
+
+      if (!canAccessSchool(actor, input.school)) {
+        return forbidden(res);
+      }
+
+      try {
+        const created = await prisma.$transaction(async (tx) => {
+          const closure = await tx.closure.create({
+            data: input,
+          });
+
+          await recordAudit(tx, actor, [
+            {
+              entity: 'Closure',
+              entityId: closure.id,
+              action: 'CREATE',
+              newValue: `${closure.school} ${isoDate(closure.date)}: ${closure.reason}`,
+            },
+          ]);
+
+          return closure;
+        });
+
+        return res.status(201).json(toClosureDTO(created));
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          return res.status(409).json({
+            error: `${SCHOOL_LABELS[input.school]} is already closed on ${isoDate(input.date)}`,
+          });
+        }
+        throw err;
+      }
+    }
+
+    // =====================================================
+    // DELETE ?id=
+    // =====================================================
+
+    const { id } = req.query;
+
+    if (typeof id !== 'string' || !id) {
+      return res.status(400).json({
+        error: 'Missing id',
+      });
+    }
+
+    const existing = await prisma.closure.findUnique({
+      where: {
+        id,
+      },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Closure not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, existing.school)) {
+      return forbidden(res);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.closure.delete({
+        where: {
+          id,
+        },
+      });
+
+      await recordAudit(tx, actor, [
+        {
+          entity: 'Closure',
+          entityId: id,
+          action: 'DELETE',
+          oldValue: `${existing.school} ${isoDate(existing.date)}: ${existing.reason}`,
+        },
+      ]);
+    });
+
+    return res.status(200).json({ ok: true });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/closures error:`, err);
+
+    return res.status(500).json({
+      error:
+        req.method === 'GET'
+          ? 'Failed to load closures'
+          : 'Failed to save closure',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,93 @@
+// src/pages/api/admin/discounts.ts
+//
+// GET lists the sibling discount setting and every promo code with how
+// often it has been used; PUT saves the sibling discount.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import {
+  canEditPayments,
+  forbidden,
+  requireActor,
+} from '../../../lib/permissions';
+import {
+  loadSiblingDiscount,
+  parseSiblingDiscount,
+  promoCodeUses,
+  saveSiblingDiscount,
+  toPromoCodeDTO,
+} from '../../../lib/discounts';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (req.method !== 'GET' && req.method !== 'PUT') {
+      res.setHeader('Allow', ['GET', 'PUT']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canEditPayments(actor)) {
+      return forbidden(res, 'Your role cannot change discounts');
+    }
+
+    // =====================================================
+    // GET
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const [sibling, promos, uses] = await Promise.all([
+        loadSiblingDiscount(),
+        prisma.promoCode.findMany({
+          orderBy: [{ isActive: 'desc' }, { code: 'asc' }],
+        }),
+        promoCodeUses(),
+      ]);
+
+      return res.status(200).json({
+        sibling,
+        promoCodes: promos.map((promo) =>
+          toPromoCodeDTO(promo, uses.get(promo.code) ?? 0)
+        ),
+      });
+    }
+
+    // =====================================================
+    // PUT (sibling discount)
+    // =====================================================
+
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const parsed = parseSiblingDiscount(body);
+
+    if (!parsed.ok) {
+      return res.status(400).json({
+        error: 'Invalid sibling discount',
+        details: parsed.errors,
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await saveSiblingDiscount(tx, actor, parsed.data);
+    });
+
+    return res.status(200).json({ sibling: parsed.data });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/discounts error:`, err);
+
+    return res.status(500).json({
+      error: 'Failed to process discounts',
+      detail,
+    });
+  }
+}
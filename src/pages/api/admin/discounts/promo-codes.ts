@@ -0,0 +1,169 @@
+// src/pages/api/admin/discounts/promo-codes.ts
+//
+// POST creates a promo code; PUT ?code= changes its description, expiry,
+// usage limit or turns it off.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma, { isUniqueViolation } from '../../../../lib/prisma';
+import {
+  canEditPayments,
+  forbidden,
+  requireActor,
+} from '../../../../lib/permissions';
+import { changedFields, recordAudit } from '../../../../lib/audit';
+import {
+  expiryDate,
+  parsePromoCodeInput,
+  parsePromoCodeUpdate,
+  promoCodeUses,
+  toPromoCodeDTO,
+} from '../../../../lib/discounts';
+import { describeRule } from '../../../../lib/pricing';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (req.method !== 'POST' && req.method !== 'PUT') {
+      res.setHeader('Allow', ['POST', 'PUT']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canEditPayments(actor)) {
+      return forbidden(res, 'Your role cannot change discounts');
+    }
+
+    const body = (req.body ?? {}) as Record<string, unknown>;
+
+    // =====================================================
+    // POST
+    // =====================================================
+
+    if (req.method === 'POST') {
+      const parsed = parsePromoCodeInput(body);
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid promo code',
+          details: parsed.errors,
+        });
+      }
+
+      const input = parsed.data;
+
+      try {
+        const created = await prisma.$transaction(async (tx) => {
+          const promo = await tx.promoCode.create({
+            data: {
+              ...input,
+              expiresAt: expiryDate(input.expiresAt),
+            },
+          });
+
+          await recordAudit(tx, actor, [
+            {
+              entity: 'PromoCode',
+              entityId: promo.code,
+              action: 'CREATE',
+              newValue: `${describeRule(promo)} off${input.expiresAt ? ` until ${input.expiresAt}` : ''}${input.maxUses ? `, ${input.maxUses} uses` : ''}`,
+            },
+          ]);
+
+          return promo;
+        });
+
+        return res.status(201).json(toPromoCodeDTO(created, 0));
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          return res.status(409).json({
+            error: `${input.code} already exists`,
+          });
+        }
+        throw err;
+      }
+    }
+
+    // =====================================================
+    // PUT ?code=
+    // =====================================================
+
+    const { code } = req.query;
+
+    if (typeof code !== 'string' || !code) {
+      return res.status(400).json({
+        error: 'Missing code',
+      });
+    }
+
+    const parsed = parsePromoCodeUpdate(body);
+
+    if (!parsed.ok) {
+      return res.status(400).json({
+        error: 'Invalid promo code',
+        details: parsed.errors,
+      });
+    }
+
+    const existing = await prisma.promoCode.findUnique({
+      where: {
+        code: code.toUpperCase(),
+      },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Promo code not found',
+      });
+    }
+
+    const { expiresAt, ...rest } = parsed.data;
+    const patch = {
+      ...rest,
+      ...(expiresAt !== undefined && { expiresAt: expiryDate(expiresAt) }),
+    };
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const promo = await tx.promoCode.update({
+        where: {
+          code: existing.code,
+        },
+        data: patch,
+      });
+
+      await recordAudit(
+        tx,
+        actor,
+        changedFields(existing, patch, {
+          entity: 'PromoCode',
+          entityId: existing.code,
+        })
+      );
+
+      return promo;
+    });
+
+    const uses = await promoCodeUses();
+
+    return res
+      .status(200)
+      .json(toPromoCodeDTO(updated, uses.get(updated.code) ?? 0));
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/discounts/promo-codes error:`, err);
+
+    return res.status(500).json({
+      error: 'Failed to save promo code',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,98 @@
+// src/pages/api/admin/discounts/student.ts
+//
+// PUT { studentId, promoCode?, scholarship? } applies or removes a promo
+// code and sets or clears a scholarship. Omitted fields are left alone.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma, {
+  BusyError,
+  serializableTransaction,
+} from '../../../../lib/prisma';
+import {
+  canAccessSchool,
+  canEditPayments,
+  forbidden,
+  requireActor,
+} from '../../../../lib/permissions';
+import {
+  DiscountError,
+  parseStudentDiscountInput,
+  saveStudentDiscounts,
+} from '../../../../lib/discounts';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'PUT') {
+    res.setHeader('Allow', ['PUT']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (!canEditPayments(actor)) {
+      return forbidden(res, 'Your role cannot change discounts');
+    }
+
+    const parsed = parseStudentDiscountInput(
+      (req.body ?? {}) as Record<string, unknown>
+    );
+
+    if (!parsed.ok) {
+      return res.status(400).json({
+        error: 'Invalid discount',
+        details: parsed.errors,
+      });
+    }
+
+    const student = await prisma.student.findUnique({
+      where: {
+        id: parsed.data.studentId,
+      },
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, student.school)) {
+      return forbidden(res);
+    }
+
+    try {
+      await serializableTransaction(
+        (tx) => saveStudentDiscounts(tx, actor, parsed.data),
+        {
+          busyMessage:
+            'This promo code was being applied at the same time; try again',
+        }
+      );
+    } catch (err) {
+      if (err instanceof DiscountError || err instanceof BusyError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      throw err;
+    }
+
+    return res.status(200).json({ ok: true });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('PUT /api/admin/discounts/student error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to save discount',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,102 @@
+// src/pages/api/admin/duplicates.ts
+//
+// Likely duplicate registrations in a term (same kid, same parent email or
+// phone) across students and the waiting list, and merging them.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import {
+  canEditRecords,
+  canManageEnrollments,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import {
+  MergeError,
+  findDuplicateGroups,
+  mergeDuplicates,
+  parseMergeInput,
+} from '../../../lib/duplicates';
+import { findTerm } from '../../../lib/terms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    // =====================================================
+    // GET ?session=
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const term = await findTerm(req.query.session);
+
+      if (!term) {
+        return res.status(400).json({
+          error: 'Missing or invalid session',
+        });
+      }
+
+      const groups = await findDuplicateGroups(
+        prisma,
+        term.code,
+        schoolScope(actor)
+      );
+
+      return res.status(200).json(groups);
+    }
+
+    // =====================================================
+    // POST { session, keep, merge }
+    // =====================================================
+
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canEditRecords(actor) || !canManageEnrollments(actor)) {
+      return forbidden(res, 'Your role cannot merge student records');
+    }
+
+    const parsed = parseMergeInput((req.body ?? {}) as Record<string, unknown>);
+
+    if (!parsed.ok) {
+      return res.status(400).json({
+        error: 'Invalid merge',
+        details: parsed.errors,
+      });
+    }
+
+    try {
+      const result = await prisma.$transaction((tx) =>
+        mergeDuplicates(tx, actor, parsed.data, schoolScope(actor))
+      );
+
+      return res.status(200).json(result);
+    } catch (err) {
+      if (err instanceof MergeError) {
+        return res.status(err.status).json({ error: err.message });
+      }
+      throw err;
+    }
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/duplicates error:`, err);
+
+    return res.status(500).json({
+      error: 'Failed to process duplicates',
+      detail,
+    });
+  }
+}
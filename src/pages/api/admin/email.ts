@@ -0,0 +1,120 @@
+// src/pages/api/admin/email.ts
+//
+// GET lists the templates and placeholders for the compose screen.
+// POST { commit: false } renders a preview; { commit: true } sends.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  canSendEmail,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import {
+  EMAIL_PLACEHOLDERS,
+  EMAIL_TEMPLATES,
+  parseEmailRequest,
+  renderEmails,
+  sendEmails,
+} from '../../../lib/email';
+import { findTerm } from '../../../lib/terms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    // =====================================================
+    // GET
+    // =====================================================
+
+    if (req.method === 'GET') {
+      return res.status(200).json({
+        templates: Object.entries(EMAIL_TEMPLATES).map(([key, template]) => ({
+          key,
+          ...template,
+        })),
+        placeholders: Object.entries(EMAIL_PLACEHOLDERS).map(
+          ([name, description]) => ({ name, description })
+        ),
+      });
+    }
+
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    // =====================================================
+    // POST
+    // =====================================================
+
+    if (!canSendEmail(actor)) {
+      return forbidden(res, 'Your role cannot email families');
+    }
+
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const parsed = parseEmailRequest(body);
+
+    if (!parsed.ok) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        details: parsed.errors,
+      });
+    }
+
+    const term = await findTerm(parsed.data.session);
+
+    if (!term) {
+      return res.status(400).json({
+        error: 'Invalid email',
+        details: [`${parsed.data.session} is not a known term`],
+      });
+    }
+
+    const { messages, skipped } = await renderEmails(
+      parsed.data,
+      term.label,
+      schoolScope(actor)
+    );
+
+    if (body.commit !== true) {
+      return res.status(200).json({
+        committed: false,
+        count: messages.length,
+        preview: messages[0] ?? null,
+        skipped,
+      });
+    }
+
+    const result = await sendEmails(actor, parsed.data.template, messages);
+
+    return res.status(200).json({
+      committed: true,
+      count: messages.length,
+      sent: result.sent,
+      failed: result.failed,
+      skipped,
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/email error:`, err);
+
+    return res.status(500).json({
+      error:
+        req.method === 'GET'
+          ? 'Failed to load email templates'
+          : 'Failed to send email',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,237 @@
+// src/pages/api/admin/enrollments.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma, { BusyError } from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  canManageEnrollments,
+  canOverrideCapacity,
+  forbidden,
+  requireActor,
+} from '../../../lib/permissions';
+import {
+  EnrollmentError,
+  SectionFullError,
+  applyScheduleChange,
+  enrollmentAudit,
+  enrollmentTransaction,
+  parseCapacityOverride,
+} from '../../../lib/enrollments';
+import { recordAudit } from '../../../lib/audit';
+import {
+  backfillLegacyPayments,
+  syncPaymentStatuses,
+} from '../../../lib/ledger';
+
+// ----------------- Local types -----------------
+
+type ChangePayload = {
+  studentId?: unknown;
+  add?: unknown;
+  cancel?: unknown;
+  // { reason } to take seats in a full section
+  override?: unknown;
+};
+
+// ----------------- Helpers -----------------
+
+function isIdList(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) &&
+    value.every((item) => typeof item === 'string' && item.length > 0)
+  );
+}
+
+async function loadEnrollments(studentId: string) {
+  const rows = await prisma.enrollment.findMany({
+    where: {
+      studentId,
+    },
+    include: {
+      section: true,
+    },
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    status: row.status,
+    createdAt: row.createdAt.toISOString(),
+    sectionId: row.sectionId,
+    school: row.section.school,
+    day: row.section.day,
+    label: row.section.label,
+    startTime: row.section.startTime,
+    endTime: row.section.endTime,
+  }));
+}
+
+// ----------------- Handler -----------------
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    // =====================================================
+    // GET
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const { studentId } = req.query;
+
+      if (typeof studentId !== 'string' || !studentId) {
+        return res.status(400).json({
+          error: 'Missing studentId',
+        });
+      }
+
+      const student = await prisma.student.findUnique({
+        where: {
+          id: studentId,
+        },
+        select: {
+          school: true,
+        },
+      });
+
+      if (!student) {
+        return res.status(404).json({
+          error: 'Student not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, student.school)) {
+        return forbidden(res);
+      }
+
+      return res.status(200).json(await loadEnrollments(studentId));
+    }
+
+    // =====================================================
+    // POST (add / cancel / move)
+    // =====================================================
+
+    if (req.method === 'POST') {
+      if (!canManageEnrollments(actor)) {
+        return forbidden(res, 'Your role cannot change schedules');
+      }
+
+      const body = (req.body ?? {}) as ChangePayload;
+      const add = body.add ?? [];
+      const cancel = body.cancel ?? [];
+
+      if (typeof body.studentId !== 'string' || !body.studentId) {
+        return res.status(400).json({
+          error: 'Missing studentId',
+        });
+      }
+
+      if (!isIdList(add) || !isIdList(cancel)) {
+        return res.status(400).json({
+          error: 'add and cancel must be lists of section ids',
+        });
+      }
+
+      if (!add.length && !cancel.length) {
+        return res.status(400).json({
+          error: 'Nothing to change',
+        });
+      }
+
+      if (add.some((id) => cancel.includes(id))) {
+        return res.status(400).json({
+          error: 'A section cannot be added and cancelled at once',
+        });
+      }
+
+      const override = parseCapacityOverride(body.override);
+
+      if (!override.ok) {
+        return res.status(400).json({
+          error: 'Invalid override',
+          details: override.errors,
+        });
+      }
+
+      if (override.data && !canOverrideCapacity(actor)) {
+        return forbidden(res, 'Your role cannot overbook a class');
+      }
+
+      const studentId = body.studentId;
+
+      const student = await prisma.student.findUnique({
+        where: {
+          id: studentId,
+        },
+        select: {
+          school: true,
+        },
+      });
+
+      if (!student) {
+        return res.status(404).json({
+          error: 'Student not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, student.school)) {
+        return forbidden(res);
+      }
+
+      await enrollmentTransaction(async (tx) => {
+        const backfilled = await backfillLegacyPayments(tx, [studentId]);
+        const { changes } = await applyScheduleChange(tx, {
+          studentId,
+          add,
+          cancel,
+          override: override.data,
+        });
+
+        await recordAudit(tx, actor, [
+          ...backfilled,
+          ...enrollmentAudit(studentId, changes, override.data),
+          ...(await syncPaymentStatuses(tx, [studentId])),
+        ]);
+      });
+
+      return res.status(200).json(await loadEnrollments(studentId));
+    }
+
+    // =====================================================
+    // Unsupported method
+    // =====================================================
+
+    res.setHeader('Allow', ['GET', 'POST']);
+
+    return res.status(405).json({
+      error: 'Method not allowed',
+    });
+  } catch (err: unknown) {
+    if (err instanceof EnrollmentError || err instanceof BusyError) {
+      return res.status(err.status).json({
+        error: err.message,
+        ...(err instanceof SectionFullError ? { full: true } : {}),
+      });
+    }
+
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/enrollments error:`, err);
+
+    return res.status(500).json({
+      error: 'Server error',
+      detail,
+    });
+  }
+}
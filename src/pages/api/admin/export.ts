@@ -0,0 +1,74 @@
+// src/pages/api/admin/export.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireActor, schoolScope } from '../../../lib/permissions';
+import { loadAdminStudents } from '../../../lib/students';
+import { loadSections } from '../../../lib/sections';
+import { loadWaitlist } from '../../../lib/waitlist';
+import { buildSessionWorkbook, exportFileName } from '../../../lib/export';
+import { findTerm } from '../../../lib/terms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { session } = req.query;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const term = await findTerm(session);
+
+    if (!term) {
+      return res.status(400).json({
+        error: 'Missing or invalid session',
+      });
+    }
+
+    const scope = schoolScope(actor);
+
+    const [students, sections, waitlist] = await Promise.all([
+      loadAdminStudents(term.code, scope),
+      loadSections(term.code, scope),
+      loadWaitlist(term.code, scope),
+    ]);
+
+    const file = buildSessionWorkbook({
+      session: term.code,
+      students,
+      sections,
+      waitlist,
+    });
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    );
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exportFileName(term.code)}"`
+    );
+
+    return res.status(200).send(file);
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/admin/export error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to build the export',
+      detail,
+    });
+  }
+}
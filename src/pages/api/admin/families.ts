@@ -0,0 +1,112 @@
+// src/pages/api/admin/families.ts
+//
+// GET ?studentId= returns the student's family: guardians, every child in
+// every term and the combined balance. POST { studentId } links a student
+// registered since the last backfill to their family; students created or
+// edited through the dashboard are linked as they are saved.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  canEditRecords,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import { recordAudit } from '../../../lib/audit';
+import { linkStudentToFamily, loadFamily } from '../../../lib/families';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (req.method !== 'GET' && req.method !== 'POST') {
+      res.setHeader('Allow', ['GET', 'POST']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (req.method === 'POST' && !canEditRecords(actor)) {
+      return forbidden(res, 'Your role cannot edit student records');
+    }
+
+    const { studentId } =
+      req.method === 'POST'
+        ? ((req.body ?? {}) as { studentId?: unknown })
+        : req.query;
+
+    if (typeof studentId !== 'string' || !studentId) {
+      return res.status(400).json({
+        error: 'Missing studentId',
+      });
+    }
+
+    const student = await prisma.student.findUnique({
+      where: {
+        id: studentId,
+      },
+      select: {
+        school: true,
+        familyId: true,
+      },
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, student.school)) {
+      return forbidden(res);
+    }
+
+    // GET only reads; linking writes Family rows and the audit log
+    const familyId =
+      req.method === 'POST'
+        ? await prisma.$transaction(async (tx) => {
+            const linked = await linkStudentToFamily(tx, studentId);
+            await recordAudit(tx, actor, linked.audit);
+            return linked.familyId;
+          })
+        : student.familyId;
+
+    if (!familyId) {
+      return res.status(404).json({
+        error: 'This student is not linked to a family yet',
+        unlinked: true,
+      });
+    }
+
+    const family = await loadFamily(familyId, schoolScope(actor));
+
+    if (!family) {
+      return res.status(404).json({
+        error: 'Family not found',
+      });
+    }
+
+    return res.status(200).json(family);
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/families error:`, err);
+
+    return res.status(500).json({
+      error:
+        req.method === 'POST'
+          ? 'Failed to link the family'
+          : 'Failed to load family',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,179 @@
+// src/pages/api/admin/import.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma, { BusyError, isUniqueViolation } from '../../../lib/prisma';
+import {
+  canEditPayments,
+  canEditRecords,
+  canManageEnrollments,
+  canManageSections,
+  forbidden,
+  requireActor,
+} from '../../../lib/permissions';
+import {
+  EnrollmentError,
+  enrollmentTransaction,
+} from '../../../lib/enrollments';
+import {
+  IMPORT_KINDS,
+  ImportError,
+  applyImportPlan,
+  importPreview,
+  importsPaymentColumns,
+  planImport,
+  readSheetRows,
+  type ImportKind,
+} from '../../../lib/import';
+import { findTerm } from '../../../lib/terms';
+
+// Files arrive base64-encoded in the JSON body.
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '8mb',
+    },
+  },
+};
+
+type ImportPayload = {
+  session?: unknown;
+  kind?: unknown;
+  file?: unknown;
+  commit?: unknown;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const body = (req.body ?? {}) as ImportPayload;
+    const { session, kind, file } = body;
+    const commit = body.commit === true;
+
+    const term = await findTerm(session);
+
+    if (!term) {
+      return res.status(400).json({
+        error: 'Missing or invalid session',
+      });
+    }
+
+    if (!IMPORT_KINDS.includes(kind as ImportKind)) {
+      return res.status(400).json({
+        error: `kind must be one of ${IMPORT_KINDS.join(', ')}`,
+      });
+    }
+
+    if (typeof file !== 'string' || !file) {
+      return res.status(400).json({
+        error: 'Missing file',
+      });
+    }
+
+    const rows = readSheetRows(Buffer.from(file, 'base64'));
+
+    if (!rows.length) {
+      return res.status(400).json({
+        error: 'The file has no data rows',
+      });
+    }
+
+    if (kind === 'sections' && !canManageSections(actor)) {
+      return forbidden(res, 'Your role cannot change class sections');
+    }
+
+    if (
+      kind === 'students' &&
+      (!canEditRecords(actor) || !canManageEnrollments(actor))
+    ) {
+      return forbidden(res, 'Your role cannot import registrations');
+    }
+
+    if (
+      kind === 'students' &&
+      importsPaymentColumns(rows) &&
+      !canEditPayments(actor)
+    ) {
+      return forbidden(res, 'Your role cannot import payment details');
+    }
+
+    const input = { kind: kind as ImportKind, session: term.code, rows };
+
+    // =====================================================
+    // Dry run
+    // =====================================================
+
+    if (!commit) {
+      const plan = await prisma.$transaction((tx) =>
+        planImport(tx, actor, input)
+      );
+
+      return res.status(200).json({
+        committed: false,
+        ...importPreview(plan),
+      });
+    }
+
+    // =====================================================
+    // Commit (re-planned inside the transaction)
+    // =====================================================
+
+    const plan = await enrollmentTransaction(
+      async (tx) => {
+        const result = await planImport(tx, actor, input);
+        await applyImportPlan(tx, actor, result);
+        return result;
+      },
+      {
+        timeout: 60_000,
+      }
+    );
+
+    return res.status(200).json({
+      committed: true,
+      ...importPreview(plan),
+    });
+  } catch (err: unknown) {
+    if (err instanceof ImportError) {
+      return res.status(400).json({
+        error: err.message,
+      });
+    }
+
+    if (err instanceof EnrollmentError || err instanceof BusyError) {
+      return res.status(err.status).json({
+        error: `Nothing was imported: ${err.message}`,
+      });
+    }
+
+    if (isUniqueViolation(err)) {
+      return res.status(409).json({
+        error:
+          'Nothing was imported: the data changed since the preview, please preview again',
+      });
+    }
+
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('POST /api/admin/import error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to import',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,176 @@
+// src/pages/api/admin/invoices.ts
+//
+// GET ?kind=invoice|receipt with one of
+//   studentId=            – that student's PDF
+//   familyId=&session=    – one PDF for the family's kids in the term
+//   session=&school=      – a zip with one PDF per family at the school
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { School } from '@prisma/client';
+import prisma from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import {
+  familyInvoice,
+  invoiceFileName,
+  isInvoiceKind,
+  renderInvoicePdf,
+  schoolInvoices,
+  studentInvoice,
+  type InvoiceDocument,
+} from '../../../lib/invoices';
+import { findTerm } from '../../../lib/terms';
+import { isEnumValue } from '../../../lib/validation';
+import { zipFiles } from '../../../lib/zip';
+
+function sendPdf(res: NextApiResponse, invoice: InvoiceDocument) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader(
+    'Content-Disposition',
+    `attachment; filename="${invoiceFileName(invoice)}"`
+  );
+
+  return res.status(200).send(renderInvoicePdf(invoice));
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const {
+      kind = 'invoice',
+      studentId,
+      familyId,
+      session,
+      school,
+    } = req.query;
+
+    if (!isInvoiceKind(kind)) {
+      return res.status(400).json({
+        error: 'kind must be invoice or receipt',
+      });
+    }
+
+    const scope = schoolScope(actor);
+
+    // =====================
+    // One student
+    // =====================
+    if (typeof studentId === 'string' && studentId) {
+      const student = await prisma.student.findUnique({
+        where: {
+          id: studentId,
+        },
+        select: {
+          school: true,
+        },
+      });
+
+      if (!student) {
+        return res.status(404).json({
+          error: 'Student not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, student.school)) {
+        return forbidden(res);
+      }
+
+      const invoice = await studentInvoice(kind, studentId, scope);
+
+      if (!invoice) {
+        return res.status(404).json({
+          error: 'Student not found',
+        });
+      }
+
+      return sendPdf(res, invoice);
+    }
+
+    const term = await findTerm(session);
+
+    if (!term) {
+      return res.status(400).json({
+        error: 'Missing or invalid session',
+      });
+    }
+
+    // =====================
+    // One family
+    // =====================
+    if (typeof familyId === 'string' && familyId) {
+      const invoice = await familyInvoice(kind, familyId, term, scope);
+
+      if (!invoice) {
+        return res.status(404).json({
+          error: 'No students in this family for the term',
+        });
+      }
+
+      return sendPdf(res, invoice);
+    }
+
+    // =====================
+    // Every family at a school
+    // =====================
+    if (!isEnumValue(School, school)) {
+      return res.status(400).json({
+        error: 'Provide studentId, familyId or school',
+      });
+    }
+
+    if (!canAccessSchool(actor, school)) {
+      return forbidden(res);
+    }
+
+    const invoices = await schoolInvoices(kind, term, school, scope);
+
+    if (!invoices.length) {
+      return res.status(404).json({
+        error: 'No students at this school for the term',
+      });
+    }
+
+    const file = zipFiles(
+      invoices.map((invoice) => ({
+        name: invoiceFileName(invoice),
+        data: renderInvoicePdf(invoice),
+      }))
+    );
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${kind}s-${term.code.toLowerCase().replace(/_/g, '-')}-${school.toLowerCase().replace(/_/g, '-')}.zip"`
+    );
+
+    return res.status(200).send(file);
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/admin/invoices error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to build the invoice',
+      detail,
+    });
+  }
+}
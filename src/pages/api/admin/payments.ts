@@ -0,0 +1,228 @@
+// src/pages/api/admin/payments.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  canEditPayments,
+  forbidden,
+  requireActor,
+} from '../../../lib/permissions';
+import { recordAudit } from '../../../lib/audit';
+import {
+  backfillLegacyPayment,
+  syncPaymentStatus,
+  tuitionFor,
+} from '../../../lib/ledger';
+import { describePayment, toPaymentDTO } from '../../../lib/payments';
+import { parsePaymentInput } from '../../../lib/validation';
+
+// ----------------- Handler -----------------
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    // =====================================================
+    // GET
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const { studentId } = req.query;
+
+      if (typeof studentId !== 'string' || !studentId) {
+        return res.status(400).json({
+          error: 'Missing studentId',
+        });
+      }
+
+      const student = await prisma.student.findUnique({
+        where: {
+          id: studentId,
+        },
+      });
+
+      if (!student) {
+        return res.status(404).json({
+          error: 'Student not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, student.school)) {
+        return forbidden(res);
+      }
+
+      const payments = await prisma.payment.findMany({
+        where: {
+          studentId,
+        },
+        orderBy: {
+          paidAt: 'desc',
+        },
+      });
+
+      return res.status(200).json(payments.map(toPaymentDTO));
+    }
+
+    if (req.method !== 'POST' && req.method !== 'DELETE') {
+      res.setHeader('Allow', ['GET', 'POST', 'DELETE']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canEditPayments(actor)) {
+      return forbidden(res, 'Your role cannot change payments');
+    }
+
+    // =====================================================
+    // POST
+    // =====================================================
+
+    if (req.method === 'POST') {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const { studentId } = body;
+
+      if (typeof studentId !== 'string' || !studentId) {
+        return res.status(400).json({
+          error: 'Missing studentId',
+        });
+      }
+
+      const parsed = parsePaymentInput(body);
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid payment',
+          details: parsed.errors,
+        });
+      }
+
+      const student = await prisma.student.findUnique({
+        where: {
+          id: studentId,
+        },
+      });
+
+      if (!student) {
+        return res.status(404).json({
+          error: 'Student not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, student.school)) {
+        return forbidden(res);
+      }
+
+      const tuitionCents = await tuitionFor(student);
+
+      const payment = await prisma.$transaction(async (tx) => {
+        const legacy = await backfillLegacyPayment(tx, student, tuitionCents);
+
+        const created = await tx.payment.create({
+          data: {
+            ...parsed.data,
+            studentId,
+            recordedById: actor.id,
+          },
+        });
+
+        const synced = await syncPaymentStatus(tx, student, tuitionCents, {
+          clearFailure: !created.isRefund,
+        });
+
+        await recordAudit(tx, actor, [
+          ...legacy,
+          {
+            entity: 'Payment',
+            entityId: created.id,
+            studentId,
+            action: 'CREATE',
+            field: 'ledger',
+            newValue: describePayment(created),
+          },
+          ...synced.audit,
+        ]);
+
+        return created;
+      });
+
+      return res.status(201).json(toPaymentDTO(payment));
+    }
+
+    // =====================================================
+    // DELETE (remove a mistaken ledger entry)
+    // =====================================================
+
+    const { id } = req.query;
+
+    if (typeof id !== 'string' || !id) {
+      return res.status(400).json({
+        error: 'Missing id',
+      });
+    }
+
+    const payment = await prisma.payment.findUnique({
+      where: {
+        id,
+      },
+      include: {
+        student: true,
+      },
+    });
+
+    if (!payment) {
+      return res.status(404).json({
+        error: 'Payment not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, payment.student.school)) {
+      return forbidden(res);
+    }
+
+    const tuitionCents = await tuitionFor(payment.student);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.payment.delete({
+        where: {
+          id,
+        },
+      });
+
+      const synced = await syncPaymentStatus(tx, payment.student, tuitionCents);
+
+      await recordAudit(tx, actor, [
+        {
+          entity: 'Payment',
+          entityId: id,
+          studentId: payment.studentId,
+          action: 'DELETE',
+          field: 'ledger',
+          oldValue: describePayment(payment),
+        },
+        ...synced.audit,
+      ]);
+    });
+
+    return res.status(200).json({
+      ok: true,
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/payments error:`, err);
+
+    return res.status(500).json({
+      error: 'Server error',
+      detail,
+    });
+  }
+}
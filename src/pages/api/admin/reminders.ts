@@ -0,0 +1,107 @@
+// src/pages/api/admin/reminders.ts
+//
+// Payment reminder settings and a manual run. GET shows the settings, the
+// last scheduled run and who owes money; PUT saves the settings; POST
+// sends the reminders that are due now, within the actor's schools.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import {
+  canSendEmail,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import {
+  loadLastReminderRun,
+  loadReminderSettings,
+  parseReminderSettings,
+  planReminders,
+  saveReminderSettings,
+  sendDueReminders,
+} from '../../../lib/reminders';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'POST') {
+      res.setHeader('Allow', ['GET', 'PUT', 'POST']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canSendEmail(actor)) {
+      return forbidden(res, 'Your role cannot send payment reminders');
+    }
+
+    // =====================================================
+    // GET
+    // =====================================================
+
+    if (req.method === 'GET') {
+      const settings = await loadReminderSettings();
+
+      return res.status(200).json({
+        settings,
+        lastRun: await loadLastReminderRun(),
+        students: await planReminders(settings, schoolScope(actor)),
+      });
+    }
+
+    // =====================================================
+    // PUT
+    // =====================================================
+
+    if (req.method === 'PUT') {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const parsed = parseReminderSettings(body);
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid reminder settings',
+          details: parsed.errors,
+        });
+      }
+
+      await prisma.$transaction(async (tx) => {
+        await saveReminderSettings(tx, actor, parsed.data);
+      });
+
+      return res.status(200).json({ settings: parsed.data });
+    }
+
+    // =====================================================
+    // POST (send due reminders now)
+    // =====================================================
+
+    const settings = await loadReminderSettings();
+    const candidates = await planReminders(settings, schoolScope(actor));
+
+    const run = await sendDueReminders(candidates, actor);
+
+    return res.status(200).json(run);
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/reminders error:`, err);
+
+    return res.status(500).json({
+      error:
+        req.method === 'GET'
+          ? 'Failed to load payment reminders'
+          : req.method === 'PUT'
+            ? 'Failed to save reminder settings'
+            : 'Failed to send payment reminders',
+      detail,
+    });
+  }
+}
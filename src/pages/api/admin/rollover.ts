@@ -0,0 +1,145 @@
+// src/pages/api/admin/rollover.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma, { isUniqueViolation } from '../../../lib/prisma';
+import {
+  canManageSections,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import {
+  RolloverError,
+  applyRollover,
+  planRollover,
+  rolloverPreview,
+} from '../../../lib/rollover';
+import { findTerm } from '../../../lib/terms';
+
+type RolloverPayload = {
+  from?: unknown;
+  to?: unknown;
+  pricePercent?: unknown;
+  commit?: unknown;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (!canManageSections(actor)) {
+      return forbidden(res, 'Your role cannot change class sections');
+    }
+
+    const body = (req.body ?? {}) as RolloverPayload;
+    const commit = body.commit === true;
+    const pricePercent = body.pricePercent ?? 0;
+
+    const errors: string[] = [];
+
+    const [from, to] = await Promise.all([
+      findTerm(body.from),
+      findTerm(body.to),
+    ]);
+
+    if (!from) errors.push('from must be an existing term');
+    if (!to) errors.push('to must be an existing term');
+
+    if (from && to && from.code === to.code) {
+      errors.push('from and to must be different terms');
+    }
+
+    if (
+      typeof pricePercent !== 'number' ||
+      !Number.isFinite(pricePercent) ||
+      pricePercent < -50 ||
+      pricePercent > 100
+    ) {
+      errors.push('pricePercent must be a number between -50 and 100');
+    }
+
+    if (errors.length || !from || !to) {
+      return res.status(400).json({
+        error: 'Invalid rollover',
+        details: errors,
+      });
+    }
+
+    const options = {
+      from,
+      to,
+      pricePercent: pricePercent as number,
+      scope: schoolScope(actor),
+    };
+
+    // =====================================================
+    // Preview
+    // =====================================================
+
+    if (!commit) {
+      const plan = await prisma.$transaction((tx) => planRollover(tx, options));
+
+      return res.status(200).json({
+        committed: false,
+        ...rolloverPreview(plan),
+      });
+    }
+
+    // =====================================================
+    // Commit (re-planned inside the transaction)
+    // =====================================================
+
+    const plan = await prisma.$transaction(
+      async (tx) => {
+        const result = await planRollover(tx, options);
+        await applyRollover(tx, actor, result);
+        return result;
+      },
+      {
+        timeout: 60_000,
+      }
+    );
+
+    return res.status(200).json({
+      committed: true,
+      ...rolloverPreview(plan),
+    });
+  } catch (err: unknown) {
+    if (err instanceof RolloverError) {
+      return res.status(err.status).json({
+        error: 'Invalid rollover',
+        details: [err.message],
+      });
+    }
+
+    if (isUniqueViolation(err)) {
+      return res.status(409).json({
+        error:
+          'Nothing was created: sections were added to the new term meanwhile, please preview again',
+      });
+    }
+
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('POST /api/admin/rollover error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to roll over sections',
+      detail,
+    });
+  }
+}
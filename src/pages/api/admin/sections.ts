@@ -1,8 +1,52 @@
 // src/pages/api/admin/sections.ts
 
 import type { NextApiRequest, NextApiResponse } from 'next';
-import prisma from '../../../lib/prisma';
-import { Session } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import prisma, { BusyError, isUniqueViolation } from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  canManageSections,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import { changedFields, recordAudit } from '../../../lib/audit';
+import {
+  enrolledStudentIds,
+  enrollmentTransaction,
+} from '../../../lib/enrollments';
+import {
+  backfillLegacyPayments,
+  syncPaymentStatuses,
+} from '../../../lib/ledger';
+import { loadSections, toSectionDTO } from '../../../lib/sections';
+import { findTerm } from '../../../lib/terms';
+import {
+  SCHOOL_CITY,
+  parseSectionInput,
+  type SectionInput,
+} from '../../../lib/validation';
+
+// ----------------- Helpers -----------------
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+function duplicateMessage(section: Partial<SectionInput>) {
+  return `A ${section.day} ${section.label} section already exists at ${section.school} for ${section.session}`;
+}
+
+const LOCKED_WHEN_ENROLLED = ['session', 'school', 'city', 'day'] as const;
+
+async function activeEnrollmentCount(sectionId: string, db: Db = prisma) {
+  return db.enrollment.count({
+    where: {
+      sectionId,
+      status: 'ACTIVE',
+    },
+  });
+}
+
+// ----------------- Handler -----------------
 
 export default async function handler(
   req: NextApiRequest,
@@ -10,86 +54,310 @@ export default async function handler(
 ) {
   const { session } = req.query;
 
-  if (req.method !== 'GET') {
-    res.setHeader('Allow', ['GET']);
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
 
-  if (typeof session !== 'string') {
-    return res.status(400).json({
-      error: 'Missing or invalid session',
-    });
-  }
+    // =====================================================
+    // GET
+    // =====================================================
 
-  try {
-    const sections = await prisma.classSection.findMany({
-      where: {
-        session: session as Session,
-        isActive: true,
-      },
+    if (req.method === 'GET') {
+      const term = await findTerm(session);
+
+      if (!term) {
+        return res.status(400).json({
+          error: 'Missing or invalid session',
+        });
+      }
+
+      const includeInactive = req.query.includeInactive === 'true';
+
+      const data = await loadSections(term.code, schoolScope(actor), {
+        includeInactive,
+      });
+
+      return res.status(200).json(data);
+    }
+
+    if (
+      req.method !== 'POST' &&
+      req.method !== 'PUT' &&
+      req.method !== 'DELETE'
+    ) {
+      res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canManageSections(actor)) {
+      return forbidden(res, 'Your role cannot change class sections');
+    }
+
+    // =====================================================
+    // POST
+    // =====================================================
+
+    if (req.method === 'POST') {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const parsed = parseSectionInput(body);
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid section',
+          details: parsed.errors,
+        });
+      }
+
+      const input = parsed.data as SectionInput;
+
+      if (!(await findTerm(input.session))) {
+        return res.status(400).json({
+          error: 'Invalid section',
+          details: [`${input.session} is not a known term`],
+        });
+      }
+
+      if (!canAccessSchool(actor, input.school)) {
+        return forbidden(res);
+      }
+
+      try {
+        const created = await prisma.$transaction(async (tx) => {
+          const section = await tx.classSection.create({
+            data: input,
+          });
+
+          await recordAudit(tx, actor, [
+            {
+              entity: 'ClassSection',
+              entityId: section.id,
+              action: 'CREATE',
+              newValue: `${section.school} ${section.day} ${section.label} (${section.session})`,
+            },
+          ]);
+
+          return section;
+        });
+
+        return res.status(201).json(toSectionDTO(created, 0));
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          return res.status(409).json({
+            error: duplicateMessage(input),
+          });
+        }
+        throw err;
+      }
+    }
 
-      include: {
-        enrollments: {
-          where: {
-            status: 'ACTIVE',
-          },
-          select: {
-            id: true,
-          },
+    // =====================================================
+    // PUT
+    // =====================================================
+
+    if (req.method === 'PUT') {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const { id, ...fields } = body;
+
+      if (typeof id !== 'string' || !id) {
+        return res.status(400).json({
+          error: 'Missing id',
+        });
+      }
+
+      const existing = await prisma.classSection.findUnique({
+        where: {
+          id,
         },
-      },
+      });
 
-      orderBy: [
-        { city: 'asc' },
-        { school: 'asc' },
-        { day: 'asc' },
-        { label: 'asc' },
-      ],
-    });
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Section not found',
+        });
+      }
+
+      const parsed = parseSectionInput(fields, { partial: true });
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid section',
+          details: parsed.errors,
+        });
+      }
+
+      const merged = { ...existing, ...parsed.data };
+
+      const errors: string[] = [];
+
+      if (SCHOOL_CITY[merged.school] !== merged.city) {
+        errors.push(`${merged.school} is not in ${merged.city}`);
+      }
+
+      if (
+        merged.startDate &&
+        merged.endDate &&
+        merged.endDate < merged.startDate
+      ) {
+        errors.push('endDate must be on or after startDate');
+      }
+
+      if (parsed.data.session && !(await findTerm(parsed.data.session))) {
+        errors.push(`${parsed.data.session} is not a known term`);
+      }
+
+      if (errors.length) {
+        return res.status(400).json({
+          error: 'Invalid section',
+          details: errors,
+        });
+      }
+
+      if (
+        !canAccessSchool(actor, existing.school) ||
+        !canAccessSchool(actor, merged.school)
+      ) {
+        return forbidden(res);
+      }
 
-    const data = sections.map((section) => {
-      const enrolled = section.enrollments.length;
-      const capacity = section.capacity;
+      // enrolled kids are priced and scheduled by their section's term,
+      // school and day, so those only change on an empty section
+      const moved = LOCKED_WHEN_ENROLLED.filter(
+        (key) => key in parsed.data && parsed.data[key] !== existing[key]
+      );
 
-      return {
-        id: section.id,
+      try {
+        // counted in the same serializable transaction as the update, so
+        // an enrollment taking a seat meanwhile can't leave it overbooked
+        const result = await enrollmentTransaction(async (tx) => {
+          const enrolled = await activeEnrollmentCount(id, tx);
+          const blocked: string[] = [];
 
-        city: section.city,
-        school: section.school,
+          if (
+            typeof parsed.data.capacity === 'number' &&
+            parsed.data.capacity < enrolled
+          ) {
+            blocked.push(
+              `capacity cannot be lower than the ${enrolled} kids already enrolled`
+            );
+          }
 
-        day: section.day,
-        label: section.label,
+          if (enrolled && moved.length) {
+            blocked.push(
+              `${moved.join(', ')} cannot change while ${enrolled} kids are enrolled; move them to another section first`
+            );
+          }
 
-        startDate: section.startDate
-          ? section.startDate.toISOString()
-          : null,
+          if (blocked.length) return { errors: blocked };
 
-        endDate: section.endDate
-          ? section.endDate.toISOString()
-          : null,
+          // a new price changes what every kid in the class owes
+          const repriced = (['priceCents', 'bundlePriceCents'] as const).some(
+            (key) => key in parsed.data && parsed.data[key] !== existing[key]
+          )
+            ? await enrolledStudentIds(tx, [id])
+            : [];
+          const backfilled = await backfillLegacyPayments(tx, repriced);
 
-        startTime: section.startTime,
-        endTime: section.endTime,
+          const section = await tx.classSection.update({
+            where: {
+              id,
+            },
+            data: parsed.data,
+          });
 
-        priceCents: section.priceCents,
-        bundlePriceCents: section.bundlePriceCents,
+          await recordAudit(tx, actor, [
+            ...backfilled,
+            ...changedFields(existing, parsed.data, {
+              entity: 'ClassSection',
+              entityId: id,
+            }),
+            ...(await syncPaymentStatuses(tx, repriced)),
+          ]);
 
-        eligibleClasses: section.eligibleClasses,
+          return { section, enrolled };
+        });
 
-        enrolled,
-        capacity,
+        if ('errors' in result) {
+          return res.status(400).json({
+            error: 'Invalid section',
+            details: result.errors,
+          });
+        }
 
-        seatsRemaining: Math.max(
-          0,
-          capacity - enrolled
-        ),
+        return res
+          .status(200)
+          .json(toSectionDTO(result.section, result.enrolled));
+      } catch (err) {
+        if (isUniqueViolation(err)) {
+          return res.status(409).json({
+            error: duplicateMessage(merged),
+          });
+        }
+        throw err;
+      }
+    }
 
-        isFull: enrolled >= capacity,
-      };
+    // =====================================================
+    // DELETE (soft-deactivate)
+    // =====================================================
+
+    const { id } = req.query;
+
+    if (typeof id !== 'string' || !id) {
+      return res.status(400).json({
+        error: 'Missing id',
+      });
+    }
+
+    const existing = await prisma.classSection.findUnique({
+      where: {
+        id,
+      },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Section not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, existing.school)) {
+      return forbidden(res);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const section = await tx.classSection.update({
+        where: {
+          id,
+        },
+        data: {
+          isActive: false,
+        },
+      });
+
+      await recordAudit(
+        tx,
+        actor,
+        changedFields(
+          existing,
+          { isActive: false },
+          {
+            entity: 'ClassSection',
+            entityId: id,
+          }
+        )
+      );
+
+      return section;
     });
 
-    return res.status(200).json(data);
+    return res
+      .status(200)
+      .json(toSectionDTO(updated, await activeEnrollmentCount(id)));
   } catch (err: unknown) {
+    if (err instanceof BusyError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+
     const detail =
       err instanceof Error
         ? err.message
@@ -98,13 +366,16 @@ export default async function handler(
           : 'Unknown error';
 
     console.error(
-      'GET /api/admin/sections error:',
+      `${req.method} /api/admin/sections error:`,
       err
     );
 
     return res.status(500).json({
-      error: 'Failed to load sections',
+      error:
+        req.method === 'GET'
+          ? 'Failed to load sections'
+          : 'Failed to save section',
       detail,
     });
   }
-}
\ No newline at end of file
+}
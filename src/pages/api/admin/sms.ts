@@ -0,0 +1,105 @@
+// src/pages/api/admin/sms.ts
+//
+// Texts the parents of one class section. POST { commit: false } lists
+// who would get it; { commit: true } sends.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  canAccessSchool,
+  canSendSms,
+  forbidden,
+  requireActor,
+} from '../../../lib/permissions';
+import {
+  parseBroadcastInput,
+  planSectionBroadcast,
+  sendSectionBroadcast,
+  smsText,
+} from '../../../lib/sms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (!canSendSms(actor)) {
+      return forbidden(res, 'Your role cannot text families');
+    }
+
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const parsed = parseBroadcastInput(body);
+
+    if (!parsed.ok) {
+      return res.status(400).json({
+        error: 'Invalid text message',
+        details: parsed.errors,
+      });
+    }
+
+    const plan = await planSectionBroadcast(parsed.data.sectionId);
+
+    if (!plan) {
+      return res.status(404).json({
+        error: 'Section not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, plan.section.school)) {
+      return forbidden(res);
+    }
+
+    const recipients = plan.recipients.map((recipient) => ({
+      phone: recipient.phone,
+      students: recipient.students.map((student) => student.studentName),
+    }));
+
+    if (body.commit !== true) {
+      return res.status(200).json({
+        committed: false,
+        section: plan.title,
+        text: smsText(parsed.data.message),
+        recipients,
+        skipped: plan.skipped,
+      });
+    }
+
+    const result = await sendSectionBroadcast(
+      actor,
+      plan.section.id,
+      plan.recipients,
+      parsed.data.message
+    );
+
+    return res.status(200).json({
+      committed: true,
+      section: plan.title,
+      text: smsText(parsed.data.message),
+      recipients,
+      skipped: plan.skipped,
+      sent: result.sent,
+      failed: result.failed,
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('POST /api/admin/sms error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to send text messages',
+      detail,
+    });
+  }
+}
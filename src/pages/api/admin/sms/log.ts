@@ -0,0 +1,78 @@
+// src/pages/api/admin/sms/log.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../../lib/prisma';
+import {
+  canAccessSchool,
+  forbidden,
+  requireActor,
+} from '../../../../lib/permissions';
+import { toSmsLogDTO } from '../../../../lib/sms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { studentId } = req.query;
+
+  if (typeof studentId !== 'string' || !studentId) {
+    return res.status(400).json({
+      error: 'Missing studentId',
+    });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const student = await prisma.student.findUnique({
+      where: {
+        id: studentId,
+      },
+      select: {
+        school: true,
+      },
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, student.school)) {
+      return forbidden(res);
+    }
+
+    const messages = await prisma.smsMessage.findMany({
+      where: {
+        studentId,
+      },
+      orderBy: {
+        createdAt: 'desc',
+      },
+      take: 100,
+    });
+
+    return res.status(200).json(messages.map(toSmsLogDTO));
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/admin/sms/log error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to load text messages',
+      detail,
+    });
+  }
+}
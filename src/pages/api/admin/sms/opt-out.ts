@@ -0,0 +1,85 @@
+// src/pages/api/admin/sms/opt-out.ts
+//
+// Records a parent's request to stop (or resume) texts. The opt-out is
+// stored against the phone number, so it covers siblings too.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../../lib/prisma';
+import {
+  canAccessSchool,
+  canEditRecords,
+  forbidden,
+  requireActor,
+} from '../../../../lib/permissions';
+import { setSmsOptOut } from '../../../../lib/sms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'PUT') {
+    res.setHeader('Allow', ['PUT']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (!canEditRecords(actor)) {
+      return forbidden(res, 'Your role cannot change student records');
+    }
+
+    const { studentId, optedOut } = (req.body ?? {}) as Record<string, unknown>;
+
+    if (typeof studentId !== 'string' || typeof optedOut !== 'boolean') {
+      return res.status(400).json({
+        error: 'Invalid opt-out',
+        details: ['studentId and optedOut (true or false) are required'],
+      });
+    }
+
+    const student = await prisma.student.findUnique({
+      where: {
+        id: studentId,
+      },
+    });
+
+    if (!student) {
+      return res.status(404).json({
+        error: 'Student not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, student.school)) {
+      return forbidden(res);
+    }
+
+    const saved = await prisma.$transaction((tx) =>
+      setSmsOptOut(tx, actor, student, optedOut)
+    );
+
+    if (!saved) {
+      return res.status(400).json({
+        error: 'Invalid opt-out',
+        details: [`${student.phone} is not a textable number`],
+      });
+    }
+
+    return res.status(200).json({ studentId, smsOptOut: optedOut });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('PUT /api/admin/sms/opt-out error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to save the opt-out',
+      detail,
+    });
+  }
+}
@@ -2,121 +2,30 @@
 
 import type { NextApiRequest, NextApiResponse } from 'next';
 import prisma from '../../../lib/prisma';
-import { Session } from '@prisma/client';
-
-// ----------------- Local types -----------------
-
-type CityKey = 'HOUSTON' | 'DALLAS';
-
-type SchoolKey =
-  | 'KATY'
-  | 'SUGARLAND'
-  | 'ALLEN'
-  | 'FRISCO'
-  | 'CASTLE_HILLS'
-  | 'NORTH_DALLAS'
-  | 'PRESTON_TRAIL';
-
-type SessionKey = 'A' | 'B';
-
-type DayKey =
-  | 'Monday'
-  | 'Tuesday'
-  | 'Wednesday'
-  | 'Thursday'
-  | 'Friday';
-
-type PaymentStatus = 'PENDING' | 'PAID' | 'FAILED';
-
-type Frequency = 'ONCE_A_WEEK' | 'TWICE_A_WEEK';
-
-interface StudentRow {
-  id: string;
-  studentName: string;
-  age: number | null;
-  parentName: string;
-  phone: string;
-  email: string;
-  city: CityKey;
-  school: SchoolKey;
-  classroom: string | null;
-  frequency: Frequency;
-  selectedDays: string[];
-  startDate: Date;
-  paymentStatus: PaymentStatus;
-  paymentMethod: string | null;
-  liabilityAccepted: boolean;
-  waiverName: string | null;
-  waiverAddress: string | null;
-}
-
-type AdminStudentDTO = {
-  id: string;
-  studentName: string;
-  age: number | null;
-  parentName: string;
-  phone: string;
-  email: string;
-
-  city: CityKey;
-  school: SchoolKey;
-  classroom: string | null;
-
-  frequency: Frequency;
-  selectedDays: string[];
-
-  startDate: string;
-  sessionLabel?: SessionKey | null;
-  startDatesByDay?: Partial<Record<DayKey, string>>;
-
-  paymentStatus: PaymentStatus;
-  paymentMethod?: string | null;
-
-  liabilityAccepted?: boolean;
-  waiverName?: string | null;
-  waiverAddress?: string | null;
-};
-
-type JoinedRow = {
-  studentid: string | null;
-  day: string | null;
-  label: string | null;
-  startdate: Date | null;
-};
-
-type Agg = {
-  days: Set<string>;
-  starts: number[];
-  labels: Record<SessionKey, number>;
-  byDay: Map<string, string>;
-};
-
-type UpdatePayload = {
-  paymentStatus?: PaymentStatus;
-  paymentMethod?: string | null;
-};
-
-// ----------------- Helpers -----------------
-
-const DAY_ORDER: Record<string, number> = {
-  Monday: 1,
-  Tuesday: 2,
-  Wednesday: 3,
-  Thursday: 4,
-  Friday: 5,
-  Saturday: 6,
-  Sunday: 7,
-};
-
-function isDayKey(x: string): x is DayKey {
-  return (
-    x === 'Monday' ||
-    x === 'Tuesday' ||
-    x === 'Wednesday' ||
-    x === 'Thursday' ||
-    x === 'Friday'
-  );
-}
+import {
+  canAccessSchool,
+  canEditPayments,
+  canEditRecords,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import { changedFields, recordAudit } from '../../../lib/audit';
+import {
+  linkStudentToFamily,
+  touchesFamilyContact,
+} from '../../../lib/families';
+import {
+  backfillLegacyPayments,
+  owedOnLedger,
+  syncPaymentStatuses,
+} from '../../../lib/ledger';
+import { loadAdminStudents } from '../../../lib/students';
+import { findTerm } from '../../../lib/terms';
+import {
+  PAYMENT_FIELDS,
+  parseStudentUpdate,
+} from '../../../lib/validation';
 
 // ----------------- Handler -----------------
 
@@ -126,172 +35,24 @@ export default async function handler(
 ) {
   const { session } = req.query;
 
- 
-
   try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
     // =====================================================
     // GET
     // =====================================================
 
     if (req.method === 'GET') {
+      const term = await findTerm(session);
 
-      if (typeof session !== 'string') {
+      if (!term) {
         return res.status(400).json({
           error: 'Missing or invalid session',
         });
       }
-      // 1) Load students for the selected session
-      const students = (await prisma.student.findMany({
-        where: {
-          session: session as Session,
-        },
-        orderBy: {
-          studentName: 'asc',
-        },
-      })) as unknown as StudentRow[];
-
-      // 2) Load ACTIVE enrollment information
-      const joined = await prisma.$queryRaw<JoinedRow[]>`
-        SELECT
-          "Enrollment"."studentId"   AS studentid,
-          "ClassSection"."day"::text AS day,
-          "ClassSection"."label"     AS label,
-          "ClassSection"."startDate" AS startdate
-        FROM "Enrollment"
-        JOIN "ClassSection"
-          ON "Enrollment"."sectionId" = "ClassSection"."id"
-        WHERE "ClassSection"."session" = CAST(${session} AS "public"."Session")
-          AND "Enrollment"."status" = 'ACTIVE'::"public"."EnrollmentStatus"
-      `;
-
-      // 3) Aggregate enrollment information by student
-      const byStudent = new Map<string, Agg>();
-
-      for (const row of joined) {
-        if (!row.studentid) continue;
-
-        const entry: Agg = byStudent.get(row.studentid) ?? {
-          days: new Set<string>(),
-          starts: [],
-          labels: {
-            A: 0,
-            B: 0,
-          },
-          byDay: new Map<string, string>(),
-        };
-
-        if (row.day) {
-          entry.days.add(row.day.trim());
-        }
-
-        if (row.label === 'A' || row.label === 'B') {
-          entry.labels[row.label] += 1;
-        }
 
-        if (
-          row.startdate instanceof Date &&
-          !Number.isNaN(row.startdate.getTime())
-        ) {
-          const timestamp = row.startdate.getTime();
-          entry.starts.push(timestamp);
-
-          if (row.day) {
-            const day = row.day.trim();
-            const iso = row.startdate.toISOString();
-            const existing = entry.byDay.get(day);
-
-            if (!existing || timestamp < new Date(existing).getTime()) {
-              entry.byDay.set(day, iso);
-            }
-          }
-        }
-
-        byStudent.set(row.studentid, entry);
-      }
-
-      // 4) Build response used by the admin page
-      const data: AdminStudentDTO[] = students.map((student) => {
-        const agg = byStudent.get(student.id);
-
-        // Prefer actual enrollment days.
-        // Fall back to Student.selectedDays for older records.
-        const fromEnrollments = agg
-          ? Array.from(agg.days)
-          : undefined;
-
-        const selectedDays = (
-          fromEnrollments ?? student.selectedDays ?? []
-        )
-          .slice()
-          .sort(
-            (a, b) =>
-              (DAY_ORDER[a] ?? 99) -
-              (DAY_ORDER[b] ?? 99)
-          );
-
-        // Determine A/B group from actual enrolled sections.
-        let sessionLabel: SessionKey | null = null;
-
-        if (agg) {
-          if (agg.labels.A > 0 || agg.labels.B > 0) {
-            sessionLabel =
-              agg.labels.A >= agg.labels.B ? 'A' : 'B';
-          }
-        }
-
-        // Earliest enrolled section start date.
-        // Fall back to Student.startDate.
-        const earliestTs =
-          agg && agg.starts.length > 0
-            ? Math.min(...agg.starts)
-            : student.startDate.getTime();
-
-        // Start date for each enrolled day.
-        const startDatesByDay: Partial<
-          Record<DayKey, string>
-        > = {};
-
-        if (agg) {
-          for (const [day, iso] of agg.byDay.entries()) {
-            if (isDayKey(day)) {
-              startDatesByDay[day] = iso;
-            }
-          }
-        }
-
-        const frequency: Frequency =
-          selectedDays.length >= 2
-            ? 'TWICE_A_WEEK'
-            : 'ONCE_A_WEEK';
-
-        return {
-          id: student.id,
-          studentName: student.studentName,
-          age: student.age,
-
-          parentName: student.parentName,
-          phone: student.phone,
-          email: student.email,
-
-          city: student.city,
-          school: student.school,
-          classroom: student.classroom,
-
-          frequency,
-          selectedDays,
-
-          startDate: new Date(earliestTs).toISOString(),
-          sessionLabel,
-          startDatesByDay,
-
-          paymentStatus: student.paymentStatus,
-          paymentMethod: student.paymentMethod,
-
-          liabilityAccepted: student.liabilityAccepted,
-          waiverName: student.waiverName,
-          waiverAddress: student.waiverAddress,
-        };
-      });
+      const data = await loadAdminStudents(term.code, schoolScope(actor));
 
       return res.status(200).json(data);
     }
@@ -301,37 +62,125 @@ export default async function handler(
     // =====================================================
 
     if (req.method === 'PUT') {
-      const body = req.body as Partial<UpdatePayload> & {
-        id?: string;
-      };
-
-      const { id } = body;
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const { id, ...fields } = body;
 
-      if (!id) {
+      if (typeof id !== 'string' || !id) {
         return res.status(400).json({
           error: 'Missing id',
         });
       }
 
-      const patch: UpdatePayload = {};
+      const parsed = parseStudentUpdate(fields);
 
-      if (typeof body.paymentStatus === 'string') {
-        patch.paymentStatus = body.paymentStatus;
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid student',
+          details: parsed.errors,
+        });
       }
 
-      if (typeof body.paymentMethod !== 'undefined') {
-        patch.paymentMethod = body.paymentMethod;
+      const patch = parsed.data;
+      const keys = Object.keys(patch);
+
+      if (!keys.length) {
+        return res.status(400).json({
+          error: 'Nothing to update',
+        });
       }
 
-      await prisma.student.update({
+      const touchesPayment = keys.some((key) =>
+        (PAYMENT_FIELDS as readonly string[]).includes(key)
+      );
+      const touchesRecord = keys.some(
+        (key) => !(PAYMENT_FIELDS as readonly string[]).includes(key)
+      );
+
+      if (touchesPayment && !canEditPayments(actor)) {
+        return forbidden(res, 'Your role cannot change payments');
+      }
+
+      if (touchesRecord && !canEditRecords(actor)) {
+        return forbidden(res, 'Your role cannot edit student records');
+      }
+
+      const existing = await prisma.student.findUnique({
         where: {
           id,
         },
-        data: patch,
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Student not found',
+        });
+      }
+
+      if (!canAccessSchool(actor, existing.school)) {
+        return forbidden(res);
+      }
+
+      // PAID follows the ledger; a payment made elsewhere goes in as a row
+      if (patch.paymentStatus === 'PAID' && existing.paymentStatus !== 'PAID') {
+        const owed = await owedOnLedger(existing);
+
+        if (owed > 0) {
+          return res.status(400).json({
+            error: 'Invalid student',
+            details: [
+              `The ledger still shows $${(owed / 100).toFixed(2)} owed; record the payment in the ledger instead`,
+            ],
+          });
+        }
+      }
+
+      const relinks = touchesFamilyContact(patch);
+
+      const updated = await prisma.$transaction(async (tx) => {
+        // a new family can move the sibling discount
+        const backfilled = relinks
+          ? await backfillLegacyPayments(tx, [id])
+          : [];
+
+        const result = await tx.student.update({
+          where: {
+            id,
+          },
+          data: patch,
+        });
+
+        await recordAudit(tx, actor, [
+          ...backfilled,
+          ...changedFields(existing, patch, {
+            entity: 'Student',
+            entityId: id,
+            studentId: id,
+          }),
+          ...(relinks ? (await linkStudentToFamily(tx, id)).audit : []),
+          ...(relinks ? await syncPaymentStatuses(tx, [id]) : []),
+        ]);
+
+        return relinks
+          ? tx.student.findUniqueOrThrow({ where: { id } })
+          : result;
       });
 
       return res.status(200).json({
         ok: true,
+        student: {
+          id: updated.id,
+          studentName: updated.studentName,
+          age: updated.age,
+          parentName: updated.parentName,
+          phone: updated.phone,
+          email: updated.email,
+          classroom: updated.classroom,
+          paymentStatus: updated.paymentStatus,
+          paymentMethod: updated.paymentMethod,
+          liabilityAccepted: updated.liabilityAccepted,
+          waiverName: updated.waiverName,
+          waiverAddress: updated.waiverAddress,
+        },
       });
     }
 
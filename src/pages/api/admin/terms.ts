@@ -0,0 +1,39 @@
+// src/pages/api/admin/terms.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireActor } from '../../../lib/permissions';
+import { listTerms, toTermDTO } from '../../../lib/terms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const includeInactive = req.query.includeInactive === 'true';
+    const terms = await listTerms({ includeInactive });
+
+    return res.status(200).json(terms.map(toTermDTO));
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/admin/terms error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to load terms',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,68 @@
+// src/pages/api/admin/totals.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type { School } from '@prisma/client';
+import { requireActor, schoolScope } from '../../../lib/permissions';
+import {
+  loadAdminStudents,
+  summarizeStudents,
+  type AdminStudentDTO,
+} from '../../../lib/students';
+import { findTerm } from '../../../lib/terms';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const { session } = req.query;
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    const term = await findTerm(session);
+
+    if (!term) {
+      return res.status(400).json({
+        error: 'Missing or invalid session',
+      });
+    }
+
+    const students = await loadAdminStudents(term.code, schoolScope(actor));
+
+    const bySchool = new Map<School, AdminStudentDTO[]>();
+    for (const student of students) {
+      const list = bySchool.get(student.school) ?? [];
+      list.push(student);
+      bySchool.set(student.school, list);
+    }
+
+    return res.status(200).json({
+      session: term.code,
+      totals: summarizeStudents(students),
+      schools: Array.from(bySchool.entries()).map(([school, list]) => ({
+        school,
+        ...summarizeStudents(list),
+      })),
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/admin/totals error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to load totals',
+      detail,
+    });
+  }
+}
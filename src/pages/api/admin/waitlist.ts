@@ -1,25 +1,281 @@
-// pages/api/admin/waitlist.ts
+// src/pages/api/admin/waitlist.ts
+//
+// GET ?session= lists the term's waiting list with each family's place in
+// line, expiring lapsed offers first. POST adds a family, PUT edits an
+// entry or moves it to a new status, DELETE ?id= removes it. Enrolling
+// from the list is /api/admin/waitlist/promote.
+
 import type { NextApiRequest, NextApiResponse } from 'next';
-import prisma from '@/lib/prisma';
-import { Session } from '@prisma/client';
+import prisma from '../../../lib/prisma';
+import {
+  canAccessSchool,
+  canManageEnrollments,
+  forbidden,
+  requireActor,
+  schoolScope,
+} from '../../../lib/permissions';
+import { changedFields, recordAudit } from '../../../lib/audit';
+import { findTerm } from '../../../lib/terms';
+import {
+  WaitlistError,
+  expireWaitlistOffers,
+  loadWaitlist,
+  toWaitlistDTO,
+  waitlistStatusUpdate,
+} from '../../../lib/waitlist';
+import {
+  parseWaitlistInput,
+  parseWaitlistStatusChange,
+  type WaitlistInput,
+} from '../../../lib/validation';
 
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  const { session } = req.query;
+    // =====================================================
+    // GET
+    // =====================================================
 
-  if (req.method !== 'GET') {
-    res.setHeader('Allow', 'GET');
-    return res.status(405).json({ error: 'Method Not Allowed' });
-  }
+    if (req.method === 'GET') {
+      const term = await findTerm(req.query.session);
 
-  try {
-    const items = await prisma.waitingList.findMany({
-      where: { session: session as Session },
-      orderBy: { createdAt: 'desc' },
+      if (!term) {
+        return res.status(400).json({
+          error: 'Missing or invalid session',
+        });
+      }
+
+      const scope = schoolScope(actor);
+
+      await prisma.$transaction((tx) =>
+        expireWaitlistOffers(tx, {
+          session: term.code,
+          ...scope,
+        })
+      );
+
+      return res.status(200).json(await loadWaitlist(term.code, scope));
+    }
+
+    if (
+      req.method !== 'POST' &&
+      req.method !== 'PUT' &&
+      req.method !== 'DELETE'
+    ) {
+      res.setHeader('Allow', ['GET', 'POST', 'PUT', 'DELETE']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canManageEnrollments(actor)) {
+      return forbidden(res, 'Your role cannot change the waiting list');
+    }
+
+    // =====================================================
+    // POST
+    // =====================================================
+
+    if (req.method === 'POST') {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const parsed = parseWaitlistInput(body);
+
+      if (!parsed.ok) {
+        return res.status(400).json({
+          error: 'Invalid waiting-list entry',
+          details: parsed.errors,
+        });
+      }
+
+      const input = parsed.data as WaitlistInput;
+
+      if (!(await findTerm(input.session))) {
+        return res.status(400).json({
+          error: 'Invalid waiting-list entry',
+          details: [`${input.session} is not a known term`],
+        });
+      }
+
+      if (!canAccessSchool(actor, input.school)) {
+        return forbidden(res);
+      }
+
+      const created = await prisma.$transaction(async (tx) => {
+        const entry = await tx.waitingList.create({
+          data: input,
+        });
+
+        await recordAudit(tx, actor, [
+          {
+            entity: 'WaitingList',
+            entityId: entry.id,
+            action: 'CREATE',
+            newValue: `${entry.studentName}, ${entry.school} ${entry.requestedDay} (${entry.session})`,
+          },
+        ]);
+
+        return toWaitlistDTO(tx, entry);
+      });
+
+      return res.status(201).json(created);
+    }
+
+    // =====================================================
+    // PUT
+    // =====================================================
+
+    if (req.method === 'PUT') {
+      const body = (req.body ?? {}) as Record<string, unknown>;
+      const { id, status, offerExpiresAt, ...fields } = body;
+
+      if (typeof id !== 'string' || !id) {
+        return res.status(400).json({
+          error: 'Missing id',
+        });
+      }
+
+      const parsed = parseWaitlistInput(fields, { partial: true });
+      const change = parseWaitlistStatusChange(
+        status === undefined ? {} : { status, offerExpiresAt }
+      );
+
+      if (!parsed.ok || !change.ok) {
+        return res.status(400).json({
+          error: 'Invalid waiting-list entry',
+          details: [
+            ...(parsed.ok ? [] : parsed.errors),
+            ...(change.ok ? [] : change.errors),
+          ],
+        });
+      }
+
+      const existing = await prisma.waitingList.findUnique({
+        where: {
+          id,
+        },
+      });
+
+      if (!existing) {
+        return res.status(404).json({
+          error: 'Waiting-list entry not found',
+        });
+      }
+
+      if (
+        !canAccessSchool(actor, existing.school) ||
+        (parsed.data.school && !canAccessSchool(actor, parsed.data.school))
+      ) {
+        return forbidden(res);
+      }
+
+      if (parsed.data.session && !(await findTerm(parsed.data.session))) {
+        return res.status(400).json({
+          error: 'Invalid waiting-list entry',
+          details: [`${parsed.data.session} is not a known term`],
+        });
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        // the status rules look at the entry's line as it will be saved
+        const moved = { ...existing, ...parsed.data };
+        const patch = {
+          ...parsed.data,
+          ...(change.data
+            ? await waitlistStatusUpdate(tx, moved, change.data)
+            : {}),
+        };
+
+        const entry = await tx.waitingList.update({
+          where: {
+            id,
+          },
+          data: patch,
+        });
+
+        await recordAudit(
+          tx,
+          actor,
+          changedFields(existing, patch, {
+            entity: 'WaitingList',
+            entityId: id,
+          })
+        );
+
+        return toWaitlistDTO(tx, entry);
+      });
+
+      return res.status(200).json(updated);
+    }
+
+    // =====================================================
+    // DELETE
+    // =====================================================
+
+    const { id } = req.query;
+
+    if (typeof id !== 'string' || !id) {
+      return res.status(400).json({
+        error: 'Missing id',
+      });
+    }
+
+    const existing = await prisma.waitingList.findUnique({
+      where: {
+        id,
+      },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Waiting-list entry not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, existing.school)) {
+      return forbidden(res);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.waitingList.delete({
+        where: {
+          id,
+        },
+      });
+
+      await recordAudit(tx, actor, [
+        {
+          entity: 'WaitingList',
+          entityId: id,
+          action: 'DELETE',
+          oldValue: `${existing.studentName}, ${existing.school} ${existing.requestedDay} (${existing.status})`,
+        },
+      ]);
+    });
+
+    return res.status(200).json({ id });
+  } catch (err: unknown) {
+    if (err instanceof WaitlistError) {
+      return res.status(err.status).json({ error: err.message });
+    }
+
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/admin/waitlist error:`, err);
+
+    return res.status(500).json({
+      error:
+        req.method === 'GET'
+          ? 'Failed to load the waiting list'
+          : 'Failed to save the waiting-list entry',
+      detail,
     });
-    return res.status(200).json(items);
-  } catch (e) {
-    console.error('GET /api/admin/waitlist error', e);
-    return res.status(500).json({ error: 'Server error' });
   }
 }
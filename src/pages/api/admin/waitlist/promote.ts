@@ -0,0 +1,169 @@
+// src/pages/api/admin/waitlist/promote.ts
+//
+// POST { id, sectionId?, override? } enrolls a waiting-list entry: creates
+// the student, enrolls them in a section of the requested day and marks
+// the entry ACCEPTED.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma, { BusyError } from '../../../../lib/prisma';
+import {
+  canAccessSchool,
+  canManageEnrollments,
+  canOverrideCapacity,
+  forbidden,
+  requireActor,
+} from '../../../../lib/permissions';
+import { recordAudit } from '../../../../lib/audit';
+import {
+  EnrollmentError,
+  SectionFullError,
+  enrollmentAudit,
+  enrollmentTransaction,
+  parseCapacityOverride,
+} from '../../../../lib/enrollments';
+import { linkStudentToFamily } from '../../../../lib/families';
+import { syncPaymentStatuses } from '../../../../lib/ledger';
+import { promoteWaitlistEntry } from '../../../../lib/waitlist';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  try {
+    const actor = await requireActor(req, res);
+    if (!actor) return;
+
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', ['POST']);
+      return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    if (!canManageEnrollments(actor)) {
+      return forbidden(res, 'Your role cannot enroll students');
+    }
+
+    const { id, sectionId, override } = (req.body ?? {}) as {
+      id?: unknown;
+      sectionId?: unknown;
+      override?: unknown;
+    };
+
+    if (typeof id !== 'string' || !id) {
+      return res.status(400).json({
+        error: 'Missing id',
+      });
+    }
+
+    if (sectionId !== undefined && typeof sectionId !== 'string') {
+      return res.status(400).json({
+        error: 'sectionId must be a string',
+      });
+    }
+
+    const parsedOverride = parseCapacityOverride(override);
+
+    if (!parsedOverride.ok) {
+      return res.status(400).json({
+        error: 'Invalid override',
+        details: parsedOverride.errors,
+      });
+    }
+
+    if (parsedOverride.data && !canOverrideCapacity(actor)) {
+      return forbidden(res, 'Your role cannot overbook a class');
+    }
+
+    const entry = await prisma.waitingList.findUnique({
+      where: {
+        id,
+      },
+      select: {
+        school: true,
+      },
+    });
+
+    if (!entry) {
+      return res.status(404).json({
+        error: 'Waiting-list entry not found',
+      });
+    }
+
+    if (!canAccessSchool(actor, entry.school)) {
+      return forbidden(res);
+    }
+
+    const { student, section } = await enrollmentTransaction(async (tx) => {
+      const result = await promoteWaitlistEntry(tx, id, {
+        sectionId,
+        override: parsedOverride.data,
+      });
+      const family = await linkStudentToFamily(tx, result.student.id);
+
+      await recordAudit(tx, actor, [
+        {
+          entity: 'Student',
+          entityId: result.student.id,
+          studentId: result.student.id,
+          action: 'CREATE',
+          field: 'source',
+          newValue: `Waiting list → ${result.section.day} ${result.section.label}`,
+        },
+        {
+          entity: 'WaitingList',
+          entityId: id,
+          studentId: result.student.id,
+          action: 'UPDATE',
+          field: 'status',
+          oldValue: result.entry.status,
+          newValue: 'ACCEPTED',
+        },
+        ...enrollmentAudit(
+          result.student.id,
+          [
+            {
+              enrollmentId: result.enrollment.id,
+              section: `${result.section.day} ${result.section.label}`,
+              from: null,
+              to: 'ACTIVE',
+              overbooked: result.overbooked,
+            },
+          ],
+          parsedOverride.data
+        ),
+        ...family.audit,
+        // a new sibling can move the sibling discount
+        ...(await syncPaymentStatuses(tx, [result.student.id])),
+      ]);
+
+      return result;
+    });
+
+    return res.status(201).json({
+      studentId: student.id,
+      sectionId: section.id,
+      day: section.day,
+      label: section.label,
+    });
+  } catch (err: unknown) {
+    if (err instanceof EnrollmentError || err instanceof BusyError) {
+      return res.status(err.status).json({
+        error: err.message,
+        ...(err instanceof SectionFullError ? { full: true } : {}),
+      });
+    }
+
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('POST /api/admin/waitlist/promote error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to enroll from the waiting list',
+      detail,
+    });
+  }
+}
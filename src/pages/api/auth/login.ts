@@ -0,0 +1,81 @@
+// src/pages/api/auth/login.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../lib/prisma';
+import { authenticate } from '../../../lib/auth';
+import { createSessionToken, sessionCookie } from '../../../lib/session';
+
+type LoginPayload = {
+  email?: unknown;
+  password?: unknown;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { email, password } = (req.body ?? {}) as LoginPayload;
+
+  if (
+    typeof email !== 'string' ||
+    typeof password !== 'string' ||
+    !email.trim() ||
+    !password
+  ) {
+    return res.status(400).json({
+      error: 'Email and password are required',
+    });
+  }
+
+  try {
+    const user = await authenticate(email, password);
+
+    if (!user) {
+      return res.status(401).json({
+        error: 'Invalid email or password',
+      });
+    }
+
+    await prisma.adminUser.update({
+      where: {
+        id: user.id,
+      },
+      data: {
+        lastLoginAt: new Date(),
+      },
+    });
+
+    const token = await createSessionToken({
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+    });
+
+    res.setHeader('Set-Cookie', sessionCookie(token));
+
+    return res.status(200).json({
+      id: user.id,
+      email: user.email,
+      name: user.name,
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('POST /api/auth/login error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to sign in',
+      detail,
+    });
+  }
+}
@@ -0,0 +1,20 @@
+// src/pages/api/auth/logout.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { clearedSessionCookie } from '../../../lib/session';
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  res.setHeader('Set-Cookie', clearedSessionCookie());
+
+  return res.status(200).json({
+    ok: true,
+  });
+}
@@ -0,0 +1,51 @@
+// src/pages/api/auth/me.ts
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  allowedSchools,
+  canEditPayments,
+  canEditRecords,
+  canManageEnrollments,
+  canManageSections,
+  canOverrideCapacity,
+  canRecordAttendance,
+  canSendEmail,
+  canSendSms,
+  getActor,
+} from '../../../lib/permissions';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const actor = await getActor(req);
+
+  if (!actor) {
+    return res.status(401).json({
+      error: 'Not authenticated',
+    });
+  }
+
+  return res.status(200).json({
+    id: actor.id,
+    email: actor.email,
+    name: actor.name,
+    role: actor.role,
+    schools: allowedSchools(actor),
+    permissions: {
+      editPayments: canEditPayments(actor),
+      editRecords: canEditRecords(actor),
+      manageSections: canManageSections(actor),
+      manageEnrollments: canManageEnrollments(actor),
+      overrideCapacity: canOverrideCapacity(actor),
+      recordAttendance: canRecordAttendance(actor),
+      sendEmail: canSendEmail(actor),
+      sendSms: canSendSms(actor),
+    },
+  });
+}
@@ -0,0 +1,121 @@
+// src/pages/api/calendar/[kind]/[file].ts
+//
+// Public .ics feeds families subscribe to, e.g.
+// /api/calendar/section/<id>.ics?token=… or /api/calendar/student/<id>.ics?token=…
+// Not behind the admin sign-in; the token in the URL is the credential.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import prisma from '../../../../lib/prisma';
+import {
+  buildCalendar,
+  isValidFeedToken,
+  loadClosures,
+  sectionEvents,
+  type FeedKind,
+} from '../../../../lib/calendar';
+import { SCHOOL_LABELS } from '../../../../lib/validation';
+
+const FEED_KINDS: FeedKind[] = ['section', 'student'];
+
+async function sectionFeed(id: string) {
+  const section = await prisma.classSection.findUnique({
+    where: {
+      id,
+    },
+  });
+
+  if (!section) return null;
+
+  const closures = await loadClosures(section.session, {
+    school: section.school,
+  });
+  const school = SCHOOL_LABELS[section.school];
+
+  return buildCalendar(
+    `Baila Kids – ${school} ${section.day} ${section.label}`,
+    sectionEvents(section, closures, school)
+  );
+}
+
+async function studentFeed(id: string) {
+  const student = await prisma.student.findUnique({
+    where: {
+      id,
+    },
+    include: {
+      Enrollment: {
+        where: {
+          status: 'ACTIVE',
+        },
+        include: {
+          section: true,
+        },
+      },
+    },
+  });
+
+  if (!student) return null;
+
+  const closures = await loadClosures(student.session, {
+    school: student.school,
+  });
+  const school = SCHOOL_LABELS[student.school];
+
+  return buildCalendar(
+    `Baila Kids – ${student.studentName}`,
+    student.Enrollment.flatMap((enrollment) =>
+      sectionEvents(enrollment.section, closures, school, student.studentName)
+    ).sort((a, b) => a.date.localeCompare(b.date))
+  );
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', ['GET']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const { kind, file, token } = req.query;
+  const id = typeof file === 'string' ? file.replace(/\.ics$/, '') : '';
+
+  if (!FEED_KINDS.includes(kind as FeedKind) || !id) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  try {
+    // same answer for a bad token and a missing record
+    if (!isValidFeedToken(kind as FeedKind, id, token)) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    const body =
+      kind === 'section' ? await sectionFeed(id) : await studentFeed(id);
+
+    if (!body) {
+      return res.status(404).json({ error: 'Not found' });
+    }
+
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `inline; filename="${id}.ics"`);
+    res.setHeader('Cache-Control', 'private, max-age=900');
+
+    return res.status(200).send(body);
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('GET /api/calendar feed error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to build the calendar',
+      detail,
+    });
+  }
+}
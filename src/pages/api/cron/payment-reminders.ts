@@ -0,0 +1,84 @@
+// src/pages/api/cron/payment-reminders.ts
+//
+// Called by the scheduler (see vercel.json) or `npm run reminders:send`
+// with `Authorization: Bearer $CRON_SECRET`. Sends the payment reminders
+// that are due when reminders are turned on; ?dryRun=true only lists them.
+
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  loadReminderSettings,
+  planReminders,
+  sendDueReminders,
+} from '../../../lib/reminders';
+
+function isAuthorized(req: NextApiRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const given = Buffer.from(req.headers.authorization ?? '');
+
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', ['GET', 'POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  if (!isAuthorized(req)) {
+    return res.status(401).json({
+      error: 'Not authenticated',
+    });
+  }
+
+  try {
+    const settings = await loadReminderSettings();
+
+    if (!settings.enabled) {
+      return res.status(200).json({
+        enabled: false,
+        sent: 0,
+      });
+    }
+
+    const candidates = await planReminders(settings);
+    const due = candidates.filter((candidate) => candidate.due);
+
+    if (req.query.dryRun === 'true') {
+      return res.status(200).json({
+        enabled: true,
+        dryRun: true,
+        due: due.length,
+        students: due,
+      });
+    }
+
+    const run = await sendDueReminders(candidates);
+
+    return res.status(200).json({
+      enabled: true,
+      due: due.length,
+      ...run,
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error(`${req.method} /api/cron/payment-reminders error:`, err);
+
+    return res.status(500).json({
+      error: 'Failed to send payment reminders',
+      detail,
+    });
+  }
+}
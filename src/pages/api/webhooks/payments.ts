@@ -0,0 +1,81 @@
+// src/pages/api/webhooks/payments.ts
+//
+// POST from the payment provider (see src/lib/webhooks.ts). Not behind the
+// admin login: the signature is what proves a delivery is genuine. Any
+// delivery we've understood gets a 200, including ones we ignore, so the
+// provider stops retrying; a bad signature gets a 400.
+
+import type { IncomingMessage } from 'http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  WebhookError,
+  applyProviderEvent,
+  getPaymentProvider,
+} from '../../../lib/webhooks';
+
+// the signature covers the exact bytes sent, so read the body ourselves
+export const config = {
+  api: {
+    bodyParser: false,
+  },
+};
+
+async function readBody(req: IncomingMessage) {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', ['POST']);
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const provider = getPaymentProvider();
+    const body = await readBody(req);
+
+    let event;
+    try {
+      event = provider.parseEvent(body, req.headers);
+    } catch (err) {
+      if (err instanceof WebhookError) {
+        return res.status(400).json({ error: err.message });
+      }
+      throw err;
+    }
+
+    const outcome = await applyProviderEvent(provider.name, event);
+
+    if (outcome.result === 'UNMATCHED') {
+      console.warn(
+        `Payment webhook ${event.id}: no student for reference "${event.payment?.reference ?? ''}"`
+      );
+    }
+
+    return res.status(200).json({
+      received: true,
+      ...outcome,
+    });
+  } catch (err: unknown) {
+    const detail =
+      err instanceof Error
+        ? err.message
+        : typeof err === 'string'
+          ? err
+          : 'Unknown error';
+
+    console.error('POST /api/webhooks/payments error:', err);
+
+    return res.status(500).json({
+      error: 'Failed to process the payment event',
+      detail,
+    });
+  }
+}
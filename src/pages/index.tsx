@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import axios from 'axios';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -19,6 +19,17 @@ type SessionKey = 'A' | 'B';
 type PaymentStatus = 'PENDING' | 'PAID' | 'FAILED';
 type Frequency = 'ONCE_A_WEEK' | 'TWICE_A_WEEK';
 
+type PriceBreakdown = {
+  baseCents: number;
+  bundleCents: number;
+  discounts: {
+    kind: 'sibling' | 'promo' | 'scholarship';
+    label: string;
+    amountCents: number;
+  }[];
+  finalCents: number;
+};
+
 type Student = {
   id: string;
   studentName: string;
@@ -34,8 +45,23 @@ type Student = {
   startDate: string;
   sessionLabel?: SessionKey | null;
   startDatesByDay?: Partial<Record<DayKey, string>>;
+  sectionIds?: string[];
   paymentStatus: PaymentStatus;
   paymentMethod?: string | null;
+  paymentCount: number;
+  // computed by the server from sections, discounts, ledger and payment
+  // status; tuitionCents is pricing.finalCents
+  pricing: PriceBreakdown;
+  promoCode: string | null;
+  scholarshipKind: 'PERCENT' | 'AMOUNT' | null;
+  scholarshipValue: number | null;
+  scholarshipNote: string | null;
+  tuitionCents: number;
+  paidCents: number;
+  owedCents: number;
+  lastRemindedAt: string | null;
+  smsOptOut: boolean;
+  familyId: string | null;
   liabilityAccepted?: boolean;
   waiverName?: string | null;
   waiverAddress?: string | null;
@@ -57,6 +83,7 @@ type SectionMeta = {
   priceCents: number;
   bundlePriceCents?: number | null;
   eligibleClasses?: string[];
+  isActive?: boolean;
 };
 
 type WaitlistEntry = {
@@ -71,15 +98,86 @@ type WaitlistEntry = {
   school: SchoolKey;
   requestedDay: DayKey;
   notes?: string | null;
+  status: WaitlistStatus;
+  // place in its school and day's line; null once the entry is closed
+  position: number | null;
+  contactedAt: string | null;
+  offeredAt: string | null;
+  offerExpiresAt: string | null;
+  acceptedAt: string | null;
+  declinedAt: string | null;
+  expiredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type LedgerPayment = {
+  id: string;
+  amountCents: number;
+  method: string | null;
+  paidAt: string;
+  note: string | null;
+  isRefund: boolean;
+  createdAt: string;
+};
+
+type AuditEntry = {
+  id: string;
   createdAt: string;
+  actorEmail: string;
+  entity: string;
+  action: 'CREATE' | 'UPDATE' | 'DELETE';
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+};
+
+type AdminRole = 'OWNER' | 'OFFICE_STAFF' | 'INSTRUCTOR' | 'READ_ONLY';
+
+type AdminUser = {
+  id: string;
+  email: string;
+  name: string;
+  role: AdminRole;
+  // null when the user can see every school
+  schools: SchoolKey[] | null;
+  permissions: {
+    editPayments: boolean;
+    editRecords: boolean;
+    manageSections: boolean;
+    manageEnrollments: boolean;
+    overrideCapacity: boolean;
+    recordAttendance: boolean;
+    sendEmail: boolean;
+    sendSms: boolean;
+  };
 };
 
-type SessionValue =
-  | 'FALL_2026'
-  | 'SPRING_2026'
-  | 'FALL_2025'
-  | 'SPRING_2025'
-  | 'FALL_2024';
+type Totals = {
+  students: number;
+  registrations: number;
+  tuitionCents: number;
+  paidCents: number;
+  owedCents: number;
+};
+
+type SessionTotals = {
+  session: SessionValue;
+  totals: Totals;
+  schools: (Totals & { school: SchoolKey })[];
+};
+
+// a Term code, e.g. FALL_2026
+type SessionValue = string;
+
+type Term = {
+  code: SessionValue;
+  label: string;
+  startDate: string | null;
+  endDate: string | null;
+  isActive: boolean;
+  isCurrent: boolean;
+};
 
 const SCHOOL_LABELS: Record<SchoolKey, string> = {
   SUGARLAND: 'Sugar Land',
@@ -106,6 +204,18 @@ const SCHOOL_ORDER: SchoolKey[] = [
   'PRESTON_TRAIL',
 ];
 
+const SCHOOL_CITY: Record<SchoolKey, CityKey> = {
+  KATY: 'HOUSTON',
+  SUGARLAND: 'HOUSTON',
+  ALLEN: 'DALLAS',
+  FRISCO: 'DALLAS',
+  CASTLE_HILLS: 'DALLAS',
+  NORTH_DALLAS: 'DALLAS',
+  PRESTON_TRAIL: 'DALLAS',
+};
+
+const DAYS: DayKey[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+
 const DAY_ORDER: Record<string, number> = {
   Monday: 1,
   Tuesday: 2,
@@ -114,14 +224,6 @@ const DAY_ORDER: Record<string, number> = {
   Friday: 5,
 };
 
-const SESSION_LABELS: Record<SessionValue, string> = {
-  FALL_2026: 'Fall 2026',
-  SPRING_2026: 'Spring 2026',
-  FALL_2025: 'Fall 2025',
-  SPRING_2025: 'Spring 2025',
-  FALL_2024: 'Fall 2024',
-};
-
 const money = (cents: number) =>
   new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -129,6 +231,12 @@ const money = (cents: number) =>
     maximumFractionDigits: 0,
   }).format(cents / 100);
 
+// "+17135550100" -> "(713) 555-0100"; anything else is shown as typed
+function formatPhone(phone: string) {
+  const match = /^\+1(\d{3})(\d{3})(\d{4})$/.exec(phone);
+  return match ? `(${match[1]}) ${match[2]}-${match[3]}` : phone;
+}
+
 const unique = <T,>(values: T[]) => Array.from(new Set(values));
 
 function parseLocalISO(value: string) {
@@ -137,6 +245,16 @@ function parseLocalISO(value: string) {
   return new Date(year, (month ?? 1) - 1, day ?? 1);
 }
 
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
 function formatDatePretty(iso?: string | null) {
   if (!iso) return '—';
   const date = parseLocalISO(iso);
@@ -168,49 +286,25 @@ function studentDays(student: Student) {
   return student.selectedDays?.length ? student.selectedDays.join(' & ') : '—';
 }
 
-function matchingSections(student: Student, sections: SectionMeta[]) {
-  return sections.filter(
-    section =>
-      section.city === student.city &&
-      section.school === student.school &&
-      student.selectedDays.includes(section.day) &&
-      (!student.sessionLabel || section.label === student.sessionLabel),
-  );
-}
-
-function tuitionCentsFor(student: Student, sections: SectionMeta[]) {
-  const matches = matchingSections(student, sections);
-
-  if (student.frequency === 'TWICE_A_WEEK') {
-    const bundle = matches.find(section => section.bundlePriceCents != null)
-      ?.bundlePriceCents;
-    if (bundle != null) return bundle;
-  }
-
-  if (matches.length) {
-    const byDay = new Map<string, SectionMeta>();
-    for (const section of matches) {
-      if (!byDay.has(section.day)) byDay.set(section.day, section);
-    }
-    return Array.from(byDay.values()).reduce(
-      (total, section) => total + section.priceCents,
-      0,
-    );
+function apiErrorMessage(err: unknown, fallback: string) {
+  if (axios.isAxiosError(err)) {
+    const data = err.response?.data as
+      | { error?: string; details?: string[] }
+      | undefined;
+    if (data?.details?.length) return data.details.join('. ');
+    if (data?.error) return data.error;
   }
-
-  return 0;
+  return fallback;
 }
 
-function owedCentsFor(student: Student, sections: SectionMeta[]) {
-  return student.paymentStatus === 'PAID'
-    ? 0
-    : tuitionCentsFor(student, sections);
+function isUnauthorized(err: unknown) {
+  return axios.isAxiosError(err) && err.response?.status === 401;
 }
 
-function launchBcc(emails: string[]) {
-  const deduped = unique(emails.map(email => email.trim()).filter(Boolean));
-  if (!deduped.length) return;
-  window.location.href = `mailto:?bcc=${encodeURIComponent(deduped.join(','))}`;
+function redirectToLogin() {
+  window.location.href = `/login?next=${encodeURIComponent(
+    window.location.pathname,
+  )}`;
 }
 
 function exportRosterPDF(title: string, students: Student[]) {
@@ -246,336 +340,5000 @@ function exportRosterPDF(title: string, students: Student[]) {
   );
 }
 
-type StudentCardProps = {
+// Invoices and receipts are built on the server (a whole school comes back
+// as a zip); the file is saved under the name the server gave it.
+async function downloadInvoices(params: Record<string, string>) {
+  try {
+    const response = await axios.get<Blob>('/api/admin/invoices', {
+      params,
+      responseType: 'blob',
+    });
+    const disposition = String(response.headers['content-disposition'] ?? '');
+    const url = URL.createObjectURL(response.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download =
+      /filename="([^"]+)"/.exec(disposition)?.[1] ?? 'invoice.pdf';
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (err) {
+    if (isUnauthorized(err)) {
+      redirectToLogin();
+      return;
+    }
+    // with responseType blob the JSON error arrives as a Blob too
+    const error =
+      axios.isAxiosError(err) && err.response?.data instanceof Blob
+        ? await err.response.data
+            .text()
+            .then(text => (JSON.parse(text) as { error?: string }).error)
+            .catch(() => undefined)
+        : undefined;
+    console.error(err);
+    window.alert(error ?? 'Could not build the PDF.');
+  }
+}
+
+type ScheduleEditorProps = {
   student: Student;
   sections: SectionMeta[];
-  onStatusUpdate: (id: string, status: PaymentStatus) => Promise<void>;
-  forceOpen?: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  canOverrideCapacity?: boolean;
 };
 
-function StudentCard({
+function ScheduleEditor({
   student,
   sections,
-  onStatusUpdate,
-  forceOpen = false,
-}: StudentCardProps) {
-  const [open, setOpen] = useState(false);
-  const [status, setStatus] = useState<PaymentStatus>(student.paymentStatus);
+  onClose,
+  onSaved,
+  canOverrideCapacity = false,
+}: ScheduleEditorProps) {
+  const current = student.sectionIds ?? [];
+  const [selected, setSelected] = useState<string[]>(current);
+  const [reason, setReason] = useState('');
   const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
 
-  useEffect(() => {
-    setStatus(student.paymentStatus);
-  }, [student.paymentStatus]);
+  const options = sections
+    .filter(section => section.school === student.school)
+    .sort(
+      (a, b) =>
+        DAY_ORDER[a.day] - DAY_ORDER[b.day] || a.label.localeCompare(b.label),
+    );
 
-  useEffect(() => {
-    if (forceOpen) setOpen(true);
-  }, [forceOpen]);
+  const add = selected.filter(id => !current.includes(id));
+  const cancel = current.filter(id => !selected.includes(id));
+  // full sections the owner is adding anyway
+  const overbooked = options.filter(
+    section => section.isFull && add.includes(section.id),
+  );
 
-  const tuition = tuitionCentsFor(student, sections);
-  const owed = owedCentsFor(student, sections);
+  const toggle = (id: string) =>
+    setSelected(value =>
+      value.includes(id) ? value.filter(item => item !== id) : [...value, id],
+    );
 
-  const saveStatus = async () => {
+  const save = async () => {
     setSaving(true);
+    setError('');
     try {
-      await onStatusUpdate(student.id, status);
-    } finally {
+      await axios.post('/api/admin/enrollments', {
+        studentId: student.id,
+        add,
+        cancel,
+        ...(overbooked.length ? { override: { reason } } : {}),
+      });
+      onSaved();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not change the schedule.'));
       setSaving(false);
     }
   };
 
   return (
-    <article
-      id={`student-${student.id}`}
-      className={`student-row ${open ? 'student-row--open' : ''}`}
-    >
-      <button
-        type="button"
-        className="student-row__summary"
-        onClick={() => setOpen(value => !value)}
-        aria-expanded={open}
-      >
-        <div className="student-row__main">
-          <div className="student-row__name">{student.studentName}</div>
-          <div className="student-row__meta">
-            <span>{student.classroom || 'Class not selected'}</span>
-            <span>•</span>
-            <span>{studentGroup(student)}</span>
-            <span>•</span>
-            <span>{studentDays(student)}</span>
-          </div>
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card">
+        <div className="modal-card__header">
+          <h3>Change schedule · {student.studentName}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
         </div>
 
-        <div className="student-row__right">
-          <div className={owed > 0 ? 'owed owed--due' : 'owed owed--paid'}>
-            {owed > 0 ? `Payment due: ${money(owed)}` : 'Paid in full'}
-          </div>
-          <span className="chevron">{open ? '−' : '+'}</span>
-        </div>
-      </button>
+        {error && <div className="error-banner">{error}</div>}
 
-      {open && (
-        <div className="student-detail">
-          <div className="detail-grid">
-            <div>
-              <span className="detail-label">Parent or guardian</span>
-              <strong>{student.parentName}</strong>
-            </div>
-            <div>
-              <span className="detail-label">Phone</span>
-              <a href={`tel:${student.phone}`}>{student.phone}</a>
-            </div>
-            <div>
-              <span className="detail-label">Email</span>
-              <a href={`mailto:${student.email}`}>{student.email}</a>
-            </div>
-            <div>
-              <span className="detail-label">Class</span>
-              <strong>{student.classroom || '—'}</strong>
-            </div>
-            <div>
-              <span className="detail-label">Schedule</span>
-              <strong>
-                {studentDays(student)} · {studentGroup(student)}
-              </strong>
-            </div>
-            <div>
-              <span className="detail-label">First class date</span>
-              <strong>{formatDatePretty(chooseStartDateIso(student))}</strong>
-            </div>
-            <div>
-              <span className="detail-label">Total tuition</span>
-              <strong>{tuition ? money(tuition) : '—'}</strong>
-            </div>
-            <div>
-              <span className="detail-label">How they will pay</span>
-              <strong>{student.paymentMethod || '—'}</strong>
+        <div className="schedule-options">
+          {options.map(section => {
+            const enrolled = current.includes(section.id);
+            const full = section.isFull && !enrolled;
+            return (
+              <label
+                key={section.id}
+                className={`schedule-option ${full ? 'schedule-option--full' : ''}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(section.id)}
+                  disabled={
+                    full &&
+                    !canOverrideCapacity &&
+                    !selected.includes(section.id)
+                  }
+                  onChange={() => toggle(section.id)}
+                />
+                <span>
+                  <strong>
+                    {section.day} · Group {section.label}
+                  </strong>
+                  <small>
+                    {section.startTime && section.endTime
+                      ? `${section.startTime}–${section.endTime} · `
+                      : ''}
+                    {full
+                      ? 'Full'
+                      : `${section.enrolled} of ${section.capacity} kids`}
+                  </small>
+                </span>
+              </label>
+            );
+          })}
+
+          {!options.length && (
+            <div className="empty-state">
+              No sections are open at this school.
             </div>
-            {student.age != null && (
-              <div>
-                <span className="detail-label">Age (older registration)</span>
-                <strong>{student.age}</strong>
-              </div>
-            )}
-          </div>
+          )}
+        </div>
 
-          <div className="payment-editor">
-            <label htmlFor={`payment-${student.id}`}>Payment status</label>
-            <select
-              id={`payment-${student.id}`}
-              value={status}
-              onChange={event => setStatus(event.target.value as PaymentStatus)}
-            >
-              <option value="PENDING">Needs payment</option>
-              <option value="PAID">Paid</option>
-              <option value="FAILED">Payment issue</option>
-            </select>
-            <button
-              type="button"
-              className="primary-btn primary-btn--small"
-              disabled={saving || status === student.paymentStatus}
-              onClick={saveStatus}
-            >
-              {saving ? 'Saving…' : 'Save payment'}
-            </button>
-          </div>
+        {overbooked.length > 0 && (
+          <label className="override-reason">
+            <span>
+              {overbooked
+                .map(section => `${section.day} ${section.label}`)
+                .join(' and ')}{' '}
+              {overbooked.length === 1 ? 'is' : 'are'} full. Why overbook?
+            </span>
+            <textarea
+              rows={2}
+              maxLength={300}
+              value={reason}
+              onChange={event => setReason(event.target.value)}
+              placeholder="e.g. sibling already in this class"
+            />
+          </label>
+        )}
+
+        <div className="modal-card__actions">
+          <button type="button" className="secondary-btn" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="primary-btn"
+            disabled={
+              saving ||
+              (!add.length && !cancel.length) ||
+              (overbooked.length > 0 && !reason.trim())
+            }
+            onClick={() => void save()}
+          >
+            {saving ? 'Saving…' : 'Save schedule'}
+          </button>
         </div>
-      )}
-    </article>
+      </div>
+    </div>
   );
 }
 
-type LocationPanelProps = {
-  school: SchoolKey;
-  students: Student[];
-  sections: SectionMeta[];
-  onStatusUpdate: (id: string, status: PaymentStatus) => Promise<void>;
-  selectedStudentId?: string | null;
+type StudentEdit = Pick<
+  Student,
+  | 'studentName'
+  | 'parentName'
+  | 'phone'
+  | 'email'
+  | 'classroom'
+  | 'age'
+  | 'liabilityAccepted'
+  | 'waiverName'
+  | 'waiverAddress'
+>;
+
+type StudentEditFormProps = {
+  student: Student;
+  onCancel: () => void;
+  onSave: (patch: Partial<StudentEdit>) => Promise<void>;
 };
 
-function LocationPanel({
-  school,
-  students,
-  sections,
-  onStatusUpdate,
-  selectedStudentId = null,
-}: LocationPanelProps) {
-  const [open, setOpen] = useState(true);
-  const [filter, setFilter] = useState('');
+function StudentEditForm({ student, onCancel, onSave }: StudentEditFormProps) {
+  const [form, setForm] = useState({
+    studentName: student.studentName,
+    parentName: student.parentName,
+    phone: student.phone,
+    email: student.email,
+    classroom: student.classroom ?? '',
+    age: student.age == null ? '' : String(student.age),
+    liabilityAccepted: student.liabilityAccepted ?? false,
+    waiverName: student.waiverName ?? '',
+    waiverAddress: student.waiverAddress ?? '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
 
-  useEffect(() => {
-    if (selectedStudentId && students.some(student => student.id === selectedStudentId)) {
-      setOpen(true);
-      setFilter('');
+  const update = <K extends keyof typeof form>(
+    key: K,
+    value: (typeof form)[K],
+  ) => setForm(current => ({ ...current, [key]: value }));
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await onSave({
+        studentName: form.studentName,
+        parentName: form.parentName,
+        phone: form.phone,
+        email: form.email,
+        classroom: form.classroom || null,
+        age: form.age === '' ? null : Number(form.age),
+        liabilityAccepted: form.liabilityAccepted,
+        waiverName: form.waiverName || null,
+        waiverAddress: form.waiverAddress || null,
+      });
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not save these changes.'));
+      setSaving(false);
     }
-  }, [selectedStudentId, students]);
+  };
 
-  const locationSections = sections.filter(section => section.school === school);
+  return (
+    <form className="student-edit" onSubmit={submit}>
+      {error && <div className="error-banner">{error}</div>}
 
-  const sortedStudents = useMemo(() => {
-    const term = filter.trim().toLowerCase();
-    return [...students]
-      .filter(student => {
-        if (!term) return true;
-        return (
-          student.studentName.toLowerCase().includes(term) ||
-          student.parentName.toLowerCase().includes(term) ||
-          student.email.toLowerCase().includes(term) ||
-          (student.classroom ?? '').toLowerCase().includes(term)
-        );
-      })
-      .sort((a, b) => a.studentName.localeCompare(b.studentName));
-  }, [students, filter]);
+      <div className="form-grid">
+        <label>
+          <span>Child name</span>
+          <input
+            value={form.studentName}
+            onChange={event => update('studentName', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Class</span>
+          <input
+            value={form.classroom}
+            onChange={event => update('classroom', event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Age</span>
+          <input
+            type="number"
+            min={1}
+            max={18}
+            value={form.age}
+            onChange={event => update('age', event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Parent or guardian</span>
+          <input
+            value={form.parentName}
+            onChange={event => update('parentName', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Phone</span>
+          <input
+            type="tel"
+            value={form.phone}
+            onChange={event => update('phone', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Email</span>
+          <input
+            type="email"
+            value={form.email}
+            onChange={event => update('email', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Waiver signed by</span>
+          <input
+            value={form.waiverName}
+            onChange={event => update('waiverName', event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Waiver address</span>
+          <input
+            value={form.waiverAddress}
+            onChange={event => update('waiverAddress', event.target.value)}
+          />
+        </label>
+        <label className="form-grid__check">
+          <input
+            type="checkbox"
+            checked={form.liabilityAccepted}
+            onChange={event =>
+              update('liabilityAccepted', event.target.checked)
+            }
+          />
+          <span>Liability waiver accepted</span>
+        </label>
+      </div>
 
-  const registrationCount = students.reduce(
-    (total, student) => total + Math.max(student.selectedDays.length, 1),
-    0,
-  );
-  const collected = students.reduce(
-    (total, student) =>
-      total +
-      (student.paymentStatus === 'PAID'
-        ? tuitionCentsFor(student, sections)
-        : 0),
-    0,
-  );
-  const outstanding = students.reduce(
-    (total, student) => total + owedCentsFor(student, sections),
-    0,
+      <div className="modal-card__actions">
+        <button type="button" className="secondary-btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="primary-btn" disabled={saving}>
+          {saving ? 'Saving…' : 'Save changes'}
+        </button>
+      </div>
+    </form>
   );
+}
 
-  const groups = unique(
-    locationSections
-      .map(section => section.label)
-      .filter((label): label is SessionKey => label === 'A' || label === 'B'),
+function describeAuditEntry(entry: AuditEntry) {
+  if (entry.action === 'CREATE') {
+    return entry.field
+      ? `${entry.field}: ${entry.newValue ?? '—'}`
+      : `Created ${entry.entity}`;
+  }
+  if (entry.action === 'DELETE') {
+    return `Removed ${entry.entity}`;
+  }
+  return `${entry.field}: ${entry.oldValue ?? '—'} → ${entry.newValue ?? '—'}`;
+}
+
+function StudentHistory({ studentId }: { studentId: string }) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    axios
+      .get<AuditEntry[]>(`/api/admin/audit?studentId=${studentId}`)
+      .then(response => {
+        if (!cancelled) setEntries(response.data);
+      })
+      .catch(err => {
+        if (!cancelled)
+          setError(apiErrorMessage(err, 'Could not load history.'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId]);
+
+  if (error) return <div className="history-empty">{error}</div>;
+  if (!entries) return <div className="history-empty">Loading history…</div>;
+  if (!entries.length) {
+    return <div className="history-empty">No changes recorded yet.</div>;
+  }
+
+  return (
+    <ul className="history-list">
+      {entries.map(entry => (
+        <li key={entry.id}>
+          <span>{describeAuditEntry(entry)}</span>
+          <small>
+            {formatDateTime(entry.createdAt)} · {entry.actorEmail}
+          </small>
+        </li>
+      ))}
+    </ul>
   );
+}
+
+type SmsLogEntry = {
+  id: string;
+  createdAt: string;
+  toPhone: string;
+  body: string;
+  status: 'SENT' | 'FAILED';
+  error: string | null;
+  sentByEmail: string;
+};
+
+function StudentTexts({ studentId }: { studentId: string }) {
+  const [entries, setEntries] = useState<SmsLogEntry[] | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    axios
+      .get<SmsLogEntry[]>(`/api/admin/sms/log?studentId=${studentId}`)
+      .then(response => {
+        if (!cancelled) setEntries(response.data);
+      })
+      .catch(err => {
+        if (!cancelled)
+          setError(apiErrorMessage(err, 'Could not load text messages.'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId]);
+
+  if (error) return <div className="history-empty">{error}</div>;
+  if (!entries) return <div className="history-empty">Loading texts…</div>;
+  if (!entries.length) {
+    return <div className="history-empty">No texts sent yet.</div>;
+  }
 
   return (
-    <section className="location-panel">
-      <div className="location-panel__top">
-        <button
-          type="button"
-          className="location-title-btn"
-          onClick={() => setOpen(value => !value)}
-        >
-          <div>
-            <div className="location-kicker">
-              {students[0] ? CITY_LABELS[students[0].city] : ''}
-            </div>
-            <h2>{SCHOOL_LABELS[school]}</h2>
-          </div>
-          <span className="location-toggle">{open ? '−' : '+'}</span>
-        </button>
+    <ul className="history-list">
+      {entries.map(entry => (
+        <li key={entry.id}>
+          <span>{entry.body}</span>
+          <small>
+            {formatDateTime(entry.createdAt)} · to {formatPhone(entry.toPhone)}{' '}
+            · {entry.sentByEmail}
+            {entry.status === 'FAILED' && (
+              <span className="email-log__failed">
+                {' '}
+                · not delivered: {entry.error ?? 'unknown error'}
+              </span>
+            )}
+          </small>
+        </li>
+      ))}
+    </ul>
+  );
+}
 
-        <div className="location-numbers">
-          <div>
-            <span>Kids registered</span>
-            <strong>{students.length}</strong>
+type EmailLogEntry = {
+  id: string;
+  createdAt: string;
+  toAddress: string;
+  subject: string;
+  body: string;
+  template: string | null;
+  status: 'SENT' | 'FAILED';
+  error: string | null;
+  sentByEmail: string;
+};
+
+function StudentEmails({ studentId }: { studentId: string }) {
+  const [entries, setEntries] = useState<EmailLogEntry[] | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    axios
+      .get<EmailLogEntry[]>(`/api/admin/email/log?studentId=${studentId}`)
+      .then(response => {
+        if (!cancelled) setEntries(response.data);
+      })
+      .catch(err => {
+        if (!cancelled)
+          setError(apiErrorMessage(err, 'Could not load sent emails.'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [studentId]);
+
+  if (error) return <div className="history-empty">{error}</div>;
+  if (!entries) return <div className="history-empty">Loading emails…</div>;
+  if (!entries.length) {
+    return <div className="history-empty">No emails sent yet.</div>;
+  }
+
+  return (
+    <ul className="history-list">
+      {entries.map(entry => (
+        <li key={entry.id}>
+          <button
+            type="button"
+            className="email-log__subject"
+            onClick={() =>
+              setExpanded(value => (value === entry.id ? null : entry.id))
+            }
+            aria-expanded={expanded === entry.id}
+          >
+            {entry.subject}
+          </button>
+          <small>
+            {formatDateTime(entry.createdAt)} · to {entry.toAddress} ·{' '}
+            {entry.sentByEmail}
+            {entry.status === 'FAILED' && (
+              <span className="email-log__failed">
+                {' '}
+                · not delivered: {entry.error ?? 'unknown error'}
+              </span>
+            )}
+          </small>
+          {expanded === entry.id && (
+            <pre className="email-preview">{entry.body}</pre>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const PAYMENT_METHODS = ['Cash', 'Check', 'Card', 'Zelle', 'Venmo', 'Other'];
+
+type PaymentLedgerProps = {
+  student: Student;
+  canEdit: boolean;
+  onChanged: () => void;
+};
+
+function PaymentLedger({ student, canEdit, onChanged }: PaymentLedgerProps) {
+  const [payments, setPayments] = useState<LedgerPayment[] | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [form, setForm] = useState({
+    amount: '',
+    method: PAYMENT_METHODS[0],
+    paidAt: new Date().toISOString().split('T')[0],
+    note: '',
+    isRefund: false,
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const response = await axios.get<LedgerPayment[]>(
+        `/api/admin/payments?studentId=${student.id}`,
+      );
+      setPayments(response.data);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not load payments.'));
+    }
+  }, [student.id]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const save = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await axios.post('/api/admin/payments', {
+        studentId: student.id,
+        amountCents: centsFromDollars(form.amount),
+        method: form.method,
+        paidAt: form.paidAt,
+        note: form.note || null,
+        isRefund: form.isRefund,
+      });
+      setAdding(false);
+      setForm(current => ({
+        ...current,
+        amount: '',
+        note: '',
+        isRefund: false,
+      }));
+      await load();
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not record this payment.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (payment: LedgerPayment) => {
+    if (!window.confirm(`Remove this ${money(payment.amountCents)} entry?`)) {
+      return;
+    }
+    setError('');
+    try {
+      await axios.delete(`/api/admin/payments?id=${payment.id}`);
+      await load();
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not remove this entry.'));
+    }
+  };
+
+  return (
+    <div className="payment-ledger">
+      <div className="payment-ledger__title">
+        <span className="detail-label">Payments</span>
+        {canEdit && !adding && (
+          <button
+            type="button"
+            className="secondary-btn"
+            onClick={() => setAdding(true)}
+          >
+            Record payment
+          </button>
+        )}
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {adding && (
+        <form className="form-grid payment-ledger__form" onSubmit={save}>
+          <label>
+            <span>Amount ($)</span>
+            <input
+              type="number"
+              min={0.01}
+              step="0.01"
+              value={form.amount}
+              onChange={event =>
+                setForm(current => ({ ...current, amount: event.target.value }))
+              }
+              required
+            />
+          </label>
+          <label>
+            <span>Method</span>
+            <select
+              value={form.method}
+              onChange={event =>
+                setForm(current => ({ ...current, method: event.target.value }))
+              }
+            >
+              {PAYMENT_METHODS.map(method => (
+                <option key={method} value={method}>
+                  {method}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Date</span>
+            <input
+              type="date"
+              value={form.paidAt}
+              onChange={event =>
+                setForm(current => ({ ...current, paidAt: event.target.value }))
+              }
+              required
+            />
+          </label>
+          <label>
+            <span>Note</span>
+            <input
+              value={form.note}
+              onChange={event =>
+                setForm(current => ({ ...current, note: event.target.value }))
+              }
+            />
+          </label>
+          <label className="form-grid__check">
+            <input
+              type="checkbox"
+              checked={form.isRefund}
+              onChange={event =>
+                setForm(current => ({
+                  ...current,
+                  isRefund: event.target.checked,
+                }))
+              }
+            />
+            <span>This is a refund</span>
+          </label>
+          <div className="modal-card__actions form-grid__wide">
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => setAdding(false)}
+            >
+              Cancel
+            </button>
+            <button type="submit" className="primary-btn" disabled={saving}>
+              {saving ? 'Saving…' : 'Save payment'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {payments && !payments.length && (
+        <div className="history-empty">No payments recorded yet.</div>
+      )}
+
+      {payments && payments.length > 0 && (
+        <ul className="history-list">
+          {payments.map(payment => (
+            <li key={payment.id} className="payment-ledger__row">
+              <div>
+                <span>
+                  {payment.isRefund ? 'Refund ' : ''}
+                  {payment.isRefund ? '−' : ''}
+                  {money(payment.amountCents)}
+                  {payment.method ? ` · ${payment.method}` : ''}
+                </span>
+                <small>
+                  {formatDatePretty(payment.paidAt)}
+                  {payment.note ? ` · ${payment.note}` : ''}
+                </small>
+              </div>
+              {canEdit && (
+                <button
+                  type="button"
+                  className="student-history__toggle"
+                  onClick={() => void remove(payment)}
+                >
+                  Remove
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+type FamilyStudent = Student & {
+  session: SessionValue;
+  termLabel: string;
+};
+
+type Family = {
+  id: string;
+  name: string;
+  createdAt: string;
+  guardians: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+  }[];
+  students: FamilyStudent[];
+  tuitionCents: number;
+  paidCents: number;
+  owedCents: number;
+};
+
+type FamilyViewProps = {
+  studentId: string;
+  onClose: () => void;
+  // link a student registered since the last backfill
+  canLink?: boolean;
+};
+
+function FamilyView({ studentId, onClose, canLink = false }: FamilyViewProps) {
+  const [family, setFamily] = useState<Family | null>(null);
+  const [error, setError] = useState('');
+  const [unlinked, setUnlinked] = useState(false);
+  const [linking, setLinking] = useState(false);
+
+  useEffect(() => {
+    axios
+      .get<Family>(`/api/admin/families?studentId=${studentId}`)
+      .then(response => setFamily(response.data))
+      .catch(err => {
+        setUnlinked(
+          axios.isAxiosError(err) &&
+            Boolean(
+              (err.response?.data as { unlinked?: boolean } | undefined)
+                ?.unlinked,
+            ),
+        );
+        setError(apiErrorMessage(err, 'Could not load the family.'));
+      });
+  }, [studentId]);
+
+  const link = async () => {
+    setLinking(true);
+    try {
+      const response = await axios.post<Family>('/api/admin/families', {
+        studentId,
+      });
+      setFamily(response.data);
+      setUnlinked(false);
+      setError('');
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not link the family.'));
+    } finally {
+      setLinking(false);
+    }
+  };
+
+  const terms = family
+    ? unique(family.students.map(student => student.session))
+    : [];
+  const children = family
+    ? unique(family.students.map(student => student.studentName))
+    : [];
+  const firstTerm = family?.students[family.students.length - 1]?.termLabel;
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>{family ? `${family.name} family` : 'Family'}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        {unlinked && canLink && (
+          <div className="modal-card__actions">
+            <button
+              type="button"
+              className="primary-btn"
+              disabled={linking}
+              onClick={() => void link()}
+            >
+              {linking ? 'Linking…' : 'Link to a family'}
+            </button>
+          </div>
+        )}
+
+        {!family ? (
+          !error && <div className="history-empty">Loading family…</div>
+        ) : (
+          <>
+            <p className="import-hint">
+              {children.length} kid{children.length === 1 ? '' : 's'}
+              {firstTerm && ` · with us since ${firstTerm}`}
+            </p>
+
+            <div className="family-summary">
+              <div>
+                <span className="detail-label">Total tuition</span>
+                <strong>{money(family.tuitionCents)}</strong>
+              </div>
+              <div>
+                <span className="detail-label">Paid</span>
+                <strong>{money(family.paidCents)}</strong>
+              </div>
+              <div>
+                <span className="detail-label">Balance due</span>
+                <strong
+                  className={family.owedCents > 0 ? 'family-summary__due' : ''}
+                >
+                  {money(family.owedCents)}
+                </strong>
+              </div>
+            </div>
+
+            <h4 className="family-heading">Parents and guardians</h4>
+            <ul className="history-list">
+              {family.guardians.map(guardian => (
+                <li key={guardian.id}>
+                  <strong>{guardian.name}</strong>
+                  <small>
+                    {guardian.email ? (
+                      <a href={`mailto:${guardian.email}`}>{guardian.email}</a>
+                    ) : (
+                      'no email'
+                    )}{' '}
+                    ·{' '}
+                    {guardian.phone ? (
+                      <a href={`tel:${guardian.phone}`}>
+                        {formatPhone(guardian.phone)}
+                      </a>
+                    ) : (
+                      'no phone'
+                    )}
+                  </small>
+                </li>
+              ))}
+            </ul>
+
+            {terms.map(term => {
+              const rows = family.students.filter(
+                student => student.session === term,
+              );
+
+              return (
+                <div key={term}>
+                  <div className="family-term">
+                    <h4 className="family-heading">{rows[0].termLabel}</h4>
+                    {(['invoice', 'receipt'] as const).map(kind => (
+                      <button
+                        key={kind}
+                        type="button"
+                        className="inline-link-btn"
+                        onClick={() =>
+                          void downloadInvoices({
+                            kind,
+                            familyId: family.id,
+                            session: term,
+                          })
+                        }
+                      >
+                        {kind === 'invoice' ? 'Invoice PDF' : 'Receipt PDF'}
+                      </button>
+                    ))}
+                  </div>
+                  <ul className="history-list">
+                    {rows.map(student => (
+                      <li key={student.id}>
+                        <span>
+                          <strong>{student.studentName}</strong> ·{' '}
+                          {SCHOOL_LABELS[student.school]}
+                          {student.classroom ? ` · ${student.classroom}` : ''}
+                        </span>
+                        <small>
+                          {studentDays(student)} · {money(student.tuitionCents)}{' '}
+                          tuition · {money(student.paidCents)} paid
+                          {student.owedCents > 0 &&
+                            ` · ${money(student.owedCents)} due`}
+                        </small>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </>
+        )}
+
+        <div className="modal-card__actions">
+          <button type="button" className="secondary-btn" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type DiscountKind = 'PERCENT' | 'AMOUNT';
+
+function TuitionBreakdown({ pricing }: { pricing: PriceBreakdown }) {
+  return (
+    <table className="tuition-breakdown">
+      <tbody>
+        <tr>
+          <th scope="row">Classes</th>
+          <td>{money(pricing.baseCents)}</td>
+        </tr>
+        {pricing.bundleCents !== 0 && (
+          <tr>
+            <th scope="row">Twice-a-week bundle</th>
+            <td>{money(pricing.bundleCents)}</td>
+          </tr>
+        )}
+        {pricing.discounts.map(line => (
+          <tr key={line.kind}>
+            <th scope="row">{line.label}</th>
+            <td>{money(line.amountCents)}</td>
+          </tr>
+        ))}
+        <tr className="tuition-breakdown__total">
+          <th scope="row">Tuition</th>
+          <td>{money(pricing.finalCents)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+type StudentDiscountsFormProps = {
+  student: Student;
+  onCancel: () => void;
+  onSaved: () => void;
+};
+
+function StudentDiscountsForm({
+  student,
+  onCancel,
+  onSaved,
+}: StudentDiscountsFormProps) {
+  const [promoCode, setPromoCode] = useState(student.promoCode ?? '');
+  const [kind, setKind] = useState<DiscountKind | ''>(
+    student.scholarshipKind ?? '',
+  );
+  const [value, setValue] = useState(
+    student.scholarshipValue == null
+      ? ''
+      : student.scholarshipKind === 'AMOUNT'
+        ? dollarsFromCents(student.scholarshipValue)
+        : String(student.scholarshipValue),
+  );
+  const [note, setNote] = useState(student.scholarshipNote ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await axios.put('/api/admin/discounts/student', {
+        studentId: student.id,
+        promoCode: promoCode.trim() || null,
+        scholarship: kind
+          ? {
+              kind,
+              value:
+                kind === 'AMOUNT' ? centsFromDollars(value) : Number(value),
+              note,
+            }
+          : null,
+      });
+      onSaved();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not save the discounts.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="discount-editor">
+      {error && <div className="error-banner">{error}</div>}
+
+      <div className="form-grid">
+        <label>
+          <span>Promo code</span>
+          <input
+            value={promoCode}
+            onChange={event => setPromoCode(event.target.value.toUpperCase())}
+            placeholder="None"
+          />
+        </label>
+        <label>
+          <span>Scholarship or fee waiver</span>
+          <select
+            value={kind}
+            onChange={event => setKind(event.target.value as DiscountKind | '')}
+          >
+            <option value="">None</option>
+            <option value="PERCENT">Percent off</option>
+            <option value="AMOUNT">Dollar amount off</option>
+          </select>
+        </label>
+        {kind && (
+          <>
+            <label>
+              <span>
+                {kind === 'PERCENT' ? 'Percent (100 waives it)' : 'Amount ($)'}
+              </span>
+              <input
+                type="number"
+                min={kind === 'PERCENT' ? 1 : 0.01}
+                max={kind === 'PERCENT' ? 100 : undefined}
+                step={kind === 'PERCENT' ? 1 : 0.01}
+                value={value}
+                onChange={event => setValue(event.target.value)}
+              />
+            </label>
+            <label className="form-grid__wide">
+              <span>Reason</span>
+              <input
+                value={note}
+                onChange={event => setNote(event.target.value)}
+                placeholder="e.g. Need-based, staff child"
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="modal-card__actions">
+        <button type="button" className="secondary-btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="primary-btn"
+          onClick={() => void save()}
+          disabled={saving}
+        >
+          {saving ? 'Saving…' : 'Save discounts'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type StudentCardProps = {
+  student: Student;
+  sections: SectionMeta[];
+  onStatusUpdate: (id: string, status: PaymentStatus) => Promise<void>;
+  onStudentUpdate: (id: string, patch: Partial<StudentEdit>) => Promise<void>;
+  onDataChanged: () => void;
+  canEditPayments?: boolean;
+  canEditRecords?: boolean;
+  canManageEnrollments?: boolean;
+  canOverrideCapacity?: boolean;
+  forceOpen?: boolean;
+};
+
+function StudentCard({
+  student,
+  sections,
+  onStatusUpdate,
+  onStudentUpdate,
+  onDataChanged,
+  canEditPayments = false,
+  canEditRecords = false,
+  canManageEnrollments = false,
+  canOverrideCapacity = false,
+  forceOpen = false,
+}: StudentCardProps) {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showEmails, setShowEmails] = useState(false);
+  const [showTexts, setShowTexts] = useState(false);
+  const [savingOptOut, setSavingOptOut] = useState(false);
+  const [status, setStatus] = useState<PaymentStatus>(student.paymentStatus);
+  const [saving, setSaving] = useState(false);
+  const [calendarNote, setCalendarNote] = useState('');
+  const [showFamily, setShowFamily] = useState(false);
+  const [editingDiscounts, setEditingDiscounts] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    setStatus(student.paymentStatus);
+  }, [student.paymentStatus]);
+
+  useEffect(() => {
+    if (forceOpen) setOpen(true);
+  }, [forceOpen]);
+
+  const tuition = student.tuitionCents;
+  const owed = student.owedCents;
+
+  const saveStatus = async () => {
+    setSaving(true);
+    try {
+      await onStatusUpdate(student.id, status);
+    } catch (err) {
+      // marking PAID is refused while the ledger shows money owed
+      window.alert(apiErrorMessage(err, 'Could not save the payment status.'));
+      setStatus(student.paymentStatus);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleSmsOptOut = async () => {
+    setSavingOptOut(true);
+    try {
+      await axios.put('/api/admin/sms/opt-out', {
+        studentId: student.id,
+        optedOut: !student.smsOptOut,
+      });
+      onDataChanged();
+    } catch (err) {
+      window.alert(apiErrorMessage(err, 'Could not save the text opt-out.'));
+    } finally {
+      setSavingOptOut(false);
+    }
+  };
+
+  const downloadPdf = async (kind: 'invoice' | 'receipt') => {
+    setDownloading(true);
+    try {
+      await downloadInvoices({ kind, studentId: student.id });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const copyCalendarLink = async () => {
+    setCalendarNote('');
+    try {
+      const response = await axios.get<{ url: string }>(
+        `/api/admin/calendar/feed?studentId=${student.id}`,
+      );
+      if (await copyToClipboard(response.data.url)) {
+        setCalendarNote(
+          'Calendar link copied. Send it to the family to subscribe.',
+        );
+      }
+    } catch (err) {
+      setCalendarNote(
+        apiErrorMessage(err, 'Could not create the calendar link.'),
+      );
+    }
+  };
+
+  return (
+    <article
+      id={`student-${student.id}`}
+      className={`student-row ${open ? 'student-row--open' : ''}`}
+    >
+      <button
+        type="button"
+        className="student-row__summary"
+        onClick={() => setOpen(value => !value)}
+        aria-expanded={open}
+      >
+        <div className="student-row__main">
+          <div className="student-row__name">{student.studentName}</div>
+          <div className="student-row__meta">
+            <span>{student.classroom || 'Class not selected'}</span>
+            <span>•</span>
+            <span>{studentGroup(student)}</span>
+            <span>•</span>
+            <span>{studentDays(student)}</span>
+          </div>
+        </div>
+
+        <div className="student-row__right">
+          <div className={owed > 0 ? 'owed owed--due' : 'owed owed--paid'}>
+            {owed > 0 ? `Payment due: ${money(owed)}` : 'Paid in full'}
+          </div>
+          <span className="chevron">{open ? '−' : '+'}</span>
+        </div>
+      </button>
+
+      {open && (
+        <div className="student-detail">
+          {editing ? (
+            <StudentEditForm
+              student={student}
+              onCancel={() => setEditing(false)}
+              onSave={async patch => {
+                await onStudentUpdate(student.id, patch);
+                setEditing(false);
+              }}
+            />
+          ) : (
+            <div className="detail-grid">
+              <div>
+                <span className="detail-label">Parent or guardian</span>
+                <strong>{student.parentName}</strong>
+              </div>
+              <div>
+                <span className="detail-label">Phone</span>
+                <a href={`tel:${student.phone}`}>{formatPhone(student.phone)}</a>
+              </div>
+              <div>
+                <span className="detail-label">Text messages</span>
+                <strong>
+                  {student.smsOptOut ? 'Opted out' : 'OK to text'}
+                  {canEditRecords && (
+                    <button
+                      type="button"
+                      className="inline-link-btn"
+                      onClick={() => void toggleSmsOptOut()}
+                      disabled={savingOptOut}
+                    >
+                      {student.smsOptOut ? 'Resume texts' : 'Opt out'}
+                    </button>
+                  )}
+                </strong>
+              </div>
+              <div>
+                <span className="detail-label">Email</span>
+                <a href={`mailto:${student.email}`}>{student.email}</a>
+              </div>
+              <div>
+                <span className="detail-label">Class</span>
+                <strong>{student.classroom || '—'}</strong>
+              </div>
+              <div>
+                <span className="detail-label">Schedule</span>
+                <strong>
+                  {studentDays(student)} · {studentGroup(student)}
+                </strong>
+              </div>
+              <div>
+                <span className="detail-label">First class date</span>
+                <strong>{formatDatePretty(chooseStartDateIso(student))}</strong>
+              </div>
+              <div>
+                <span className="detail-label">Total tuition</span>
+                <strong>{tuition ? money(tuition) : '—'}</strong>
+              </div>
+              <div>
+                <span className="detail-label">Paid so far</span>
+                <strong>{money(student.paidCents)}</strong>
+              </div>
+              {(owed > 0 || student.lastRemindedAt) && (
+                <div>
+                  <span className="detail-label">Last payment reminder</span>
+                  <strong>
+                    {student.lastRemindedAt
+                      ? formatDatePretty(student.lastRemindedAt)
+                      : 'Not reminded yet'}
+                  </strong>
+                </div>
+              )}
+              <div>
+                <span className="detail-label">How they will pay</span>
+                <strong>{student.paymentMethod || '—'}</strong>
+              </div>
+              {student.age != null && (
+                <div>
+                  <span className="detail-label">Age (older registration)</span>
+                  <strong>{student.age}</strong>
+                </div>
+              )}
+              <div>
+                <span className="detail-label">Liability waiver</span>
+                <strong>
+                  {student.liabilityAccepted
+                    ? `Signed by ${student.waiverName || '—'}`
+                    : 'Not accepted'}
+                </strong>
+              </div>
+              {student.waiverAddress && (
+                <div>
+                  <span className="detail-label">Waiver address</span>
+                  <strong>{student.waiverAddress}</strong>
+                </div>
+              )}
+            </div>
+          )}
+
+          {!editing && (
+            <div className="student-actions">
+              {canEditRecords && (
+                <button
+                  type="button"
+                  className="secondary-btn"
+                  onClick={() => setEditing(true)}
+                >
+                  Edit details
+                </button>
+              )}
+              {canManageEnrollments && (
+                <button
+                  type="button"
+                  className="secondary-btn"
+                  onClick={() => setEditingSchedule(true)}
+                >
+                  Change schedule
+                </button>
+              )}
+              {canEditPayments && (
+                <button
+                  type="button"
+                  className="secondary-btn"
+                  onClick={() => setEditingDiscounts(true)}
+                >
+                  Discounts
+                </button>
+              )}
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => void copyCalendarLink()}
+              >
+                Calendar link
+              </button>
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => setShowFamily(true)}
+              >
+                Family
+              </button>
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => void downloadPdf('invoice')}
+                disabled={downloading}
+              >
+                Invoice PDF
+              </button>
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => void downloadPdf('receipt')}
+                disabled={downloading}
+              >
+                Receipt PDF
+              </button>
+              {calendarNote && <small>{calendarNote}</small>}
+            </div>
+          )}
+
+          {!editing && student.pricing.baseCents > 0 && (
+            <TuitionBreakdown pricing={student.pricing} />
+          )}
+
+          {editingDiscounts && (
+            <StudentDiscountsForm
+              student={student}
+              onCancel={() => setEditingDiscounts(false)}
+              onSaved={() => {
+                setEditingDiscounts(false);
+                onDataChanged();
+              }}
+            />
+          )}
+
+          {showFamily && (
+            <FamilyView
+              studentId={student.id}
+              canLink={canEditRecords}
+              onClose={() => setShowFamily(false)}
+            />
+          )}
+
+          {editingSchedule && (
+            <ScheduleEditor
+              student={student}
+              sections={sections}
+              canOverrideCapacity={canOverrideCapacity}
+              onClose={() => setEditingSchedule(false)}
+              onSaved={() => {
+                setEditingSchedule(false);
+                onDataChanged();
+              }}
+            />
+          )}
+
+          {canEditPayments && (
+            <div className="payment-editor">
+              <label htmlFor={`payment-${student.id}`}>Payment status</label>
+              <select
+                id={`payment-${student.id}`}
+                value={status}
+                onChange={event => setStatus(event.target.value as PaymentStatus)}
+              >
+                <option value="PENDING">Needs payment</option>
+                <option value="PAID">Paid</option>
+                <option value="FAILED">Payment issue</option>
+              </select>
+              <button
+                type="button"
+                className="primary-btn primary-btn--small"
+                disabled={saving || status === student.paymentStatus}
+                onClick={saveStatus}
+              >
+                {saving ? 'Saving…' : 'Save payment'}
+              </button>
+            </div>
+          )}
+
+          <PaymentLedger
+            student={student}
+            canEdit={canEditPayments}
+            onChanged={onDataChanged}
+          />
+
+          <div className="student-history">
+            <button
+              type="button"
+              className="student-history__toggle"
+              onClick={() => setShowHistory(value => !value)}
+              aria-expanded={showHistory}
+            >
+              History {showHistory ? '−' : '+'}
+            </button>
+            {showHistory && <StudentHistory studentId={student.id} />}
+          </div>
+
+          <div className="student-history">
+            <button
+              type="button"
+              className="student-history__toggle"
+              onClick={() => setShowEmails(value => !value)}
+              aria-expanded={showEmails}
+            >
+              Emails {showEmails ? '−' : '+'}
+            </button>
+            {showEmails && <StudentEmails studentId={student.id} />}
+          </div>
+
+          <div className="student-history">
+            <button
+              type="button"
+              className="student-history__toggle"
+              onClick={() => setShowTexts(value => !value)}
+              aria-expanded={showTexts}
+            >
+              Texts {showTexts ? '−' : '+'}
+            </button>
+            {showTexts && <StudentTexts studentId={student.id} />}
+          </div>
+        </div>
+      )}
+    </article>
+  );
+}
+
+type SectionForm = {
+  day: DayKey;
+  label: string;
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  capacity: string;
+  price: string;
+  bundlePrice: string;
+  eligibleClasses: string;
+};
+
+const dollarsFromCents = (cents?: number | null) =>
+  cents == null ? '' : String(cents / 100);
+
+const centsFromDollars = (value: string) =>
+  value.trim() === '' ? null : Math.round(Number(value) * 100);
+
+function sectionFormFrom(section: SectionMeta | null): SectionForm {
+  return {
+    day: section?.day ?? 'Monday',
+    label: section?.label ?? 'A',
+    startDate: section?.startDate?.split('T')[0] ?? '',
+    endDate: section?.endDate?.split('T')[0] ?? '',
+    startTime: section?.startTime ?? '',
+    endTime: section?.endTime ?? '',
+    capacity: String(section?.capacity ?? 22),
+    price: dollarsFromCents(section?.priceCents),
+    bundlePrice: dollarsFromCents(section?.bundlePriceCents),
+    eligibleClasses: section?.eligibleClasses?.join(', ') ?? '',
+  };
+}
+
+type SectionEditorProps = {
+  school: SchoolKey;
+  session: SessionValue;
+  // null when adding a new section
+  section: SectionMeta | null;
+  onClose: () => void;
+  onSaved: () => void;
+};
+
+function SectionEditor({
+  school,
+  session,
+  section,
+  onClose,
+  onSaved,
+}: SectionEditorProps) {
+  const [form, setForm] = useState<SectionForm>(() => sectionFormFrom(section));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const update = <K extends keyof SectionForm>(key: K, value: SectionForm[K]) =>
+    setForm(current => ({ ...current, [key]: value }));
+
+  const save = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError('');
+
+    const payload = {
+      city: SCHOOL_CITY[school],
+      school,
+      session,
+      day: form.day,
+      label: form.label,
+      startDate: form.startDate || null,
+      endDate: form.endDate || null,
+      startTime: form.startTime || null,
+      endTime: form.endTime || null,
+      capacity: Number(form.capacity),
+      priceCents: centsFromDollars(form.price),
+      bundlePriceCents: centsFromDollars(form.bundlePrice),
+      eligibleClasses: form.eligibleClasses
+        .split(',')
+        .map(value => value.trim())
+        .filter(Boolean),
+    };
+
+    try {
+      if (section) {
+        await axios.put('/api/admin/sections', { id: section.id, ...payload });
+      } else {
+        await axios.post('/api/admin/sections', payload);
+      }
+      onSaved();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not save this section.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deactivate = async () => {
+    if (!section) return;
+    if (
+      !window.confirm(
+        `Deactivate ${section.day} ${section.label}? Families already enrolled keep their registration.`,
+      )
+    ) {
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      await axios.delete(`/api/admin/sections?id=${section.id}`);
+      onSaved();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not deactivate this section.'));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <form className="modal-card" onSubmit={save}>
+        <div className="modal-card__header">
+          <h3>
+            {section
+              ? `${SCHOOL_LABELS[school]} · ${section.day} ${section.label}`
+              : `New section at ${SCHOOL_LABELS[school]}`}
+          </h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        <div className="form-grid">
+          <label>
+            <span>Day</span>
+            <select
+              value={form.day}
+              onChange={event => update('day', event.target.value as DayKey)}
+            >
+              {DAYS.map(day => (
+                <option key={day} value={day}>
+                  {day}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Group</span>
+            <input
+              value={form.label}
+              onChange={event => update('label', event.target.value)}
+              required
+            />
+          </label>
+          <label>
+            <span>First class</span>
+            <input
+              type="date"
+              value={form.startDate}
+              onChange={event => update('startDate', event.target.value)}
+            />
+          </label>
+          <label>
+            <span>Last class</span>
+            <input
+              type="date"
+              value={form.endDate}
+              onChange={event => update('endDate', event.target.value)}
+            />
+          </label>
+          <label>
+            <span>Starts at</span>
+            <input
+              placeholder="3:30 PM"
+              value={form.startTime}
+              onChange={event => update('startTime', event.target.value)}
+            />
+          </label>
+          <label>
+            <span>Ends at</span>
+            <input
+              placeholder="4:15 PM"
+              value={form.endTime}
+              onChange={event => update('endTime', event.target.value)}
+            />
+          </label>
+          <label>
+            <span>Capacity</span>
+            <input
+              type="number"
+              min={1}
+              value={form.capacity}
+              onChange={event => update('capacity', event.target.value)}
+              required
+            />
+          </label>
+          <label>
+            <span>Price ($)</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.price}
+              onChange={event => update('price', event.target.value)}
+              required
+            />
+          </label>
+          <label>
+            <span>Twice-a-week price ($)</span>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={form.bundlePrice}
+              onChange={event => update('bundlePrice', event.target.value)}
+            />
+          </label>
+          <label className="form-grid__wide">
+            <span>Eligible classes (comma separated)</span>
+            <input
+              value={form.eligibleClasses}
+              onChange={event => update('eligibleClasses', event.target.value)}
+            />
+          </label>
+        </div>
+
+        <div className="modal-card__actions">
+          {section && (
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => void deactivate()}
+              disabled={saving}
+            >
+              Deactivate
+            </button>
+          )}
+          <button type="submit" className="primary-btn" disabled={saving}>
+            {saving ? 'Saving…' : 'Save section'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+type AttendanceStatus = 'PRESENT' | 'ABSENT' | 'EXCUSED';
+
+type SectionAttendance = {
+  section: {
+    id: string;
+    school: SchoolKey;
+    day: DayKey;
+    label: string;
+    session: SessionValue;
+    startTime: string | null;
+    endTime: string | null;
+  };
+  meetings: string[];
+  students: {
+    enrollmentId: string;
+    studentId: string;
+    studentName: string;
+    classroom: string | null;
+    parentName: string;
+    phone: string;
+    attendance: Record<string, AttendanceStatus>;
+  }[];
+};
+
+const ATTENDANCE_LABELS: Record<AttendanceStatus, string> = {
+  PRESENT: 'Present',
+  ABSENT: 'Absent',
+  EXCUSED: 'Excused',
+};
+
+// "2026-09-08" -> "9/8"
+function shortMeetingDate(date: string) {
+  const [, month, day] = date.split('-');
+  return `${Number(month)}/${Number(day)}`;
+}
+
+// Latest meeting on or before today, else the first one.
+function defaultMeeting(meetings: string[]) {
+  const today = new Date().toISOString().slice(0, 10);
+  return (
+    [...meetings].reverse().find(date => date <= today) ?? meetings[0] ?? ''
+  );
+}
+
+function exportSignInSheetPDF(data: SectionAttendance) {
+  const { section, meetings, students } = data;
+  const title = `${SCHOOL_LABELS[section.school]} · ${section.day} ${section.label}`;
+
+  const doc = new jsPDF({
+    unit: 'pt',
+    format: 'letter',
+    orientation: 'landscape',
+  });
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(17);
+  doc.text(`Baila Kids – ${title}`, 40, 46);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(
+    [
+      section.startTime && section.endTime
+        ? `${section.startTime}–${section.endTime}`
+        : null,
+      `${students.length} students`,
+      'P = present, A = absent, E = excused',
+    ]
+      .filter(Boolean)
+      .join(' · '),
+    40,
+    64,
+  );
+
+  autoTable(doc, {
+    startY: 86,
+    head: [['Student', 'Class', ...meetings.map(shortMeetingDate)]],
+    body: students.map(student => [
+      student.studentName,
+      student.classroom ?? '—',
+      ...meetings.map(date => student.attendance[date]?.charAt(0) ?? ''),
+    ]),
+    styles: { fontSize: 8, cellPadding: 5, minCellHeight: 22 },
+    headStyles: { halign: 'left' },
+    columnStyles: { 0: { cellWidth: 130 }, 1: { cellWidth: 60 } },
+    theme: 'grid',
+  });
+
+  doc.save(`${title.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-sign-in.pdf`);
+}
+
+type AttendanceViewProps = {
+  school: SchoolKey;
+  sections: SectionMeta[];
+  canRecord: boolean;
+  onClose: () => void;
+};
+
+function AttendanceView({
+  school,
+  sections,
+  canRecord,
+  onClose,
+}: AttendanceViewProps) {
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+  const [data, setData] = useState<SectionAttendance | null>(null);
+  const [date, setDate] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!sectionId) return;
+    let cancelled = false;
+
+    setData(null);
+    setError('');
+    axios
+      .get<SectionAttendance>(`/api/admin/attendance?sectionId=${sectionId}`)
+      .then(response => {
+        if (cancelled) return;
+        setData(response.data);
+        setDate(defaultMeeting(response.data.meetings));
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(apiErrorMessage(err, 'Could not load attendance.'));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sectionId]);
+
+  const mark = async (
+    marks: { enrollmentId: string; status: AttendanceStatus | null }[],
+  ) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await axios.put<SectionAttendance>(
+        '/api/admin/attendance',
+        { sectionId, date, marks },
+      );
+      setData(response.data);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not save attendance.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>Attendance · {SCHOOL_LABELS[school]}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        <div className="form-grid">
+          <label>
+            <span>Section</span>
+            <select
+              value={sectionId}
+              onChange={event => setSectionId(event.target.value)}
+            >
+              {sections.map(section => (
+                <option key={section.id} value={section.id}>
+                  {section.day} · {section.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Class date</span>
+            <select
+              value={date}
+              onChange={event => setDate(event.target.value)}
+              disabled={!data?.meetings.length}
+            >
+              {data?.meetings.map(meeting => (
+                <option key={meeting} value={meeting}>
+                  {formatDatePretty(meeting)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {!data ? (
+          !error && <div className="history-empty">Loading attendance…</div>
+        ) : !data.meetings.length ? (
+          <div className="history-empty">
+            Set the first and last class dates on this section to take
+            attendance.
+          </div>
+        ) : !data.students.length ? (
+          <div className="history-empty">No kids are enrolled yet.</div>
+        ) : (
+          <ul className="history-list attendance-list">
+            {data.students.map(student => {
+              const current = student.attendance[date] ?? null;
+              const present = data.meetings.filter(
+                meeting => student.attendance[meeting] === 'PRESENT',
+              ).length;
+              const taken = data.meetings.filter(
+                meeting => student.attendance[meeting],
+              ).length;
+
+              return (
+                <li key={student.enrollmentId} className="attendance-row">
+                  <div>
+                    <span>{student.studentName}</span>
+                    <small>
+                      {student.classroom ?? '—'} · present {present} of {taken}{' '}
+                      recorded
+                    </small>
+                  </div>
+                  <div className="attendance-row__marks">
+                    {(Object.keys(ATTENDANCE_LABELS) as AttendanceStatus[]).map(
+                      status => (
+                        <button
+                          key={status}
+                          type="button"
+                          className={
+                            current === status
+                              ? `attendance-mark attendance-mark--${status.toLowerCase()}`
+                              : 'attendance-mark'
+                          }
+                          onClick={() =>
+                            void mark([
+                              {
+                                enrollmentId: student.enrollmentId,
+                                status: current === status ? null : status,
+                              },
+                            ])
+                          }
+                          disabled={!canRecord || saving}
+                        >
+                          {ATTENDANCE_LABELS[status]}
+                        </button>
+                      ),
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="modal-card__actions">
+          <button
+            type="button"
+            className="secondary-btn"
+            onClick={() => data && exportSignInSheetPDF(data)}
+            disabled={!data?.meetings.length || !data.students.length}
+          >
+            Sign-in sheet PDF
+          </button>
+          {canRecord && (
+            <button
+              type="button"
+              className="primary-btn"
+              onClick={() =>
+                data &&
+                void mark(
+                  data.students
+                    .filter(student => !student.attendance[date])
+                    .map(student => ({
+                      enrollmentId: student.enrollmentId,
+                      status: 'PRESENT' as const,
+                    })),
+                )
+              }
+              disabled={
+                saving ||
+                !data?.students.some(student => !student.attendance[date])
+              }
+            >
+              Mark the rest present
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type EmailTemplateOption = {
+  key: string;
+  label: string;
+  subject: string;
+  body: string;
+};
+
+type EmailTemplatesResponse = {
+  templates: EmailTemplateOption[];
+  placeholders: { name: string; description: string }[];
+};
+
+type EmailResult = {
+  committed: boolean;
+  count: number;
+  preview?: {
+    studentName: string;
+    to: string;
+    subject: string;
+    body: string;
+  } | null;
+  sent?: number;
+  failed?: number;
+  skipped: { studentId: string; studentName: string | null; reason: string }[];
+};
+
+type EmailAudience = 'all' | 'due' | 'shown';
+
+type EmailComposerProps = {
+  school: SchoolKey;
+  session: SessionValue;
+  students: Student[];
+  // the kids matching the panel's search box
+  shown: Student[];
+  onClose: () => void;
+};
+
+function EmailComposer({
+  school,
+  session,
+  students,
+  shown,
+  onClose,
+}: EmailComposerProps) {
+  const [options, setOptions] = useState<EmailTemplatesResponse | null>(null);
+  const [templateKey, setTemplateKey] = useState('');
+  const [audience, setAudience] = useState<EmailAudience>('all');
+  const [form, setForm] = useState({
+    subject: '',
+    body: '',
+    date: '',
+    reason: '',
+  });
+  const [result, setResult] = useState<EmailResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const pickTemplate = (key: string, templates: EmailTemplateOption[]) => {
+    const template = templates.find(option => option.key === key);
+    if (!template) return;
+    setTemplateKey(key);
+    setForm(value => ({
+      ...value,
+      subject: template.subject,
+      body: template.body,
+    }));
+    setResult(null);
+  };
+
+  useEffect(() => {
+    axios
+      .get<EmailTemplatesResponse>('/api/admin/email')
+      .then(response => {
+        setOptions(response.data);
+        const first = response.data.templates[0];
+        if (first) pickTemplate(first.key, response.data.templates);
+      })
+      .catch(err =>
+        setError(apiErrorMessage(err, 'Could not load email templates.')),
+      );
+  }, []);
+
+  const recipients =
+    audience === 'due'
+      ? students.filter(student => student.owedCents > 0)
+      : audience === 'shown'
+        ? shown
+        : students;
+
+  const change = (apply: () => void) => {
+    apply();
+    setResult(null);
+  };
+
+  const run = async (commit: boolean) => {
+    if (
+      commit &&
+      !window.confirm(
+        `Send this email to ${result?.count ?? recipients.length} families?`,
+      )
+    ) {
+      return;
+    }
+
+    setWorking(true);
+    setError('');
+    try {
+      const response = await axios.post<EmailResult>('/api/admin/email', {
+        session,
+        studentIds: recipients.map(student => student.id),
+        template: templateKey,
+        ...form,
+        commit,
+      });
+      setResult(response.data);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not send the email.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>Email families · {SCHOOL_LABELS[school]}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        <div className="form-grid">
+          <label>
+            <span>Template</span>
+            <select
+              value={templateKey}
+              onChange={event =>
+                pickTemplate(event.target.value, options?.templates ?? [])
+              }
+              disabled={!options}
+            >
+              {options?.templates.map(template => (
+                <option key={template.key} value={template.key}>
+                  {template.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Send to</span>
+            <select
+              value={audience}
+              onChange={event =>
+                change(() => setAudience(event.target.value as EmailAudience))
+              }
+            >
+              <option value="all">All kids ({students.length})</option>
+              <option value="due">
+                Payment due (
+                {students.filter(student => student.owedCents > 0).length})
+              </option>
+              {shown.length !== students.length && (
+                <option value="shown">Search results ({shown.length})</option>
+              )}
+            </select>
+          </label>
+          {templateKey === 'class_cancelled' && (
+            <>
+              <label>
+                <span>Cancelled class date</span>
+                <input
+                  type="date"
+                  value={form.date}
+                  onChange={event =>
+                    change(() =>
+                      setForm(value => ({
+                        ...value,
+                        date: event.target.value,
+                      })),
+                    )
+                  }
+                />
+              </label>
+              <label>
+                <span>Reason</span>
+                <input
+                  type="text"
+                  placeholder="the school is closed for a teacher workday"
+                  value={form.reason}
+                  onChange={event =>
+                    change(() =>
+                      setForm(value => ({
+                        ...value,
+                        reason: event.target.value,
+                      })),
+                    )
+                  }
+                />
+              </label>
+            </>
+          )}
+          <label className="form-grid__wide">
+            <span>Subject</span>
+            <input
+              type="text"
+              value={form.subject}
+              onChange={event =>
+                change(() =>
+                  setForm(value => ({ ...value, subject: event.target.value })),
+                )
+              }
+            />
+          </label>
+          <label className="form-grid__wide">
+            <span>Message</span>
+            <textarea
+              rows={10}
+              value={form.body}
+              onChange={event =>
+                change(() =>
+                  setForm(value => ({ ...value, body: event.target.value })),
+                )
+              }
+            />
+          </label>
+        </div>
+
+        {options && (
+          <p className="import-hint">
+            Each family gets their own copy with these filled in:{' '}
+            {options.placeholders.map(placeholder => (
+              <code key={placeholder.name} title={placeholder.description}>
+                {`{{${placeholder.name}}}`}{' '}
+              </code>
+            ))}
+          </p>
+        )}
+
+        {result && (
+          <div className="import-summary">
+            {result.committed ? (
+              <strong>
+                Sent {result.sent ?? 0}
+                {result.failed ? `, ${result.failed} failed` : ''}
+                {result.skipped.length
+                  ? `, ${result.skipped.length} skipped`
+                  : ''}
+                .
+              </strong>
+            ) : (
+              <strong>
+                {result.count} emails ready
+                {result.skipped.length
+                  ? `, ${result.skipped.length} skipped`
+                  : ''}
+                .
+              </strong>
+            )}
+          </div>
+        )}
+
+        {result?.preview && !result.committed && (
+          <div className="email-preview-card">
+            <small>
+              Preview for {result.preview.studentName} · to {result.preview.to}
+            </small>
+            <strong>{result.preview.subject}</strong>
+            <pre className="email-preview">{result.preview.body}</pre>
+          </div>
+        )}
+
+        {result && result.skipped.length > 0 && (
+          <ul className="history-list import-rows">
+            {result.skipped.map(row => (
+              <li key={row.studentId}>
+                <span>{row.studentName ?? row.studentId}</span>
+                <small>{row.reason}</small>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="modal-card__actions">
+          <button
+            type="button"
+            className="secondary-btn"
+            onClick={() => void run(false)}
+            disabled={working || !templateKey || !recipients.length}
+          >
+            Preview
+          </button>
+          <button
+            type="button"
+            className="primary-btn"
+            onClick={() => void run(true)}
+            disabled={
+              working || !result || result.committed || result.count === 0
+            }
+          >
+            {working ? 'Working…' : `Send ${result?.count ?? ''} emails`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type SmsBroadcastResult = {
+  committed: boolean;
+  section: string;
+  text: string;
+  recipients: { phone: string; students: string[] }[];
+  skipped: { studentId: string; studentName: string; reason: string }[];
+  sent?: number;
+  failed?: number;
+};
+
+type SmsBroadcastProps = {
+  school: SchoolKey;
+  sections: SectionMeta[];
+  onClose: () => void;
+};
+
+function SmsBroadcast({ school, sections, onClose }: SmsBroadcastProps) {
+  const cancellation = (section?: SectionMeta) =>
+    section
+      ? `${section.day} ${section.label} at ${SCHOOL_LABELS[school]} is cancelled today.`
+      : '';
+
+  const [sectionId, setSectionId] = useState(sections[0]?.id ?? '');
+  const [message, setMessage] = useState(() => cancellation(sections[0]));
+  const [result, setResult] = useState<SmsBroadcastResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (commit: boolean) => {
+    if (
+      commit &&
+      !window.confirm(
+        `Text ${result?.recipients.length ?? 0} parents in ${result?.section}?`,
+      )
+    ) {
+      return;
+    }
+
+    setWorking(true);
+    setError('');
+    try {
+      const response = await axios.post<SmsBroadcastResult>('/api/admin/sms', {
+        sectionId,
+        message,
+        commit,
+      });
+      setResult(response.data);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not send the text.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card">
+        <div className="modal-card__header">
+          <h3>Text a class · {SCHOOL_LABELS[school]}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        <div className="form-grid">
+          <label className="form-grid__wide">
+            <span>Section</span>
+            <select
+              value={sectionId}
+              onChange={event => {
+                const next = sections.find(
+                  section => section.id === event.target.value,
+                );
+                // keep a typed message; swap only the untouched suggestion
+                if (
+                  message ===
+                  cancellation(
+                    sections.find(section => section.id === sectionId),
+                  )
+                ) {
+                  setMessage(cancellation(next));
+                }
+                setSectionId(event.target.value);
+                setResult(null);
+              }}
+            >
+              {sections.map(section => (
+                <option key={section.id} value={section.id}>
+                  {section.day} · {section.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="form-grid__wide">
+            <span>Message ({message.length}/400)</span>
+            <textarea
+              rows={4}
+              maxLength={400}
+              value={message}
+              onChange={event => {
+                setMessage(event.target.value);
+                setResult(null);
+              }}
+            />
+          </label>
+        </div>
+
+        <p className="import-hint">
+          Parents get “Baila Kids: …” with “Reply STOP to opt out.” added.
+          Siblings sharing a phone get one text.
+        </p>
+
+        {result && (
+          <div className="import-summary">
+            <strong>
+              {result.committed
+                ? `Sent ${result.sent ?? 0}${result.failed ? `, ${result.failed} failed` : ''}.`
+                : `${result.recipients.length} parents will get this text.`}
+            </strong>
+          </div>
+        )}
+
+        {result && !result.committed && (
+          <pre className="email-preview">{result.text}</pre>
+        )}
+
+        {result && result.skipped.length > 0 && (
+          <ul className="history-list import-rows">
+            {result.skipped.map(row => (
+              <li key={row.studentId}>
+                <span>{row.studentName}</span>
+                <small>{row.reason}</small>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="modal-card__actions">
+          <button
+            type="button"
+            className="secondary-btn"
+            onClick={() => void run(false)}
+            disabled={working || !sectionId || !message.trim()}
+          >
+            Preview
+          </button>
+          <button
+            type="button"
+            className="primary-btn"
+            onClick={() => void run(true)}
+            disabled={
+              working ||
+              !result ||
+              result.committed ||
+              !result.recipients.length
+            }
+          >
+            {working ? 'Working…' : 'Send text'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type LocationPanelProps = {
+  school: SchoolKey;
+  students: Student[];
+  sections: SectionMeta[];
+  session: SessionValue;
+  totals?: Totals;
+  onStatusUpdate: (id: string, status: PaymentStatus) => Promise<void>;
+  onStudentUpdate: (id: string, patch: Partial<StudentEdit>) => Promise<void>;
+  onDataChanged: () => void;
+  canEditPayments?: boolean;
+  canEditRecords?: boolean;
+  canManageSections?: boolean;
+  canManageEnrollments?: boolean;
+  canOverrideCapacity?: boolean;
+  canRecordAttendance?: boolean;
+  canSendEmail?: boolean;
+  canSendSms?: boolean;
+  selectedStudentId?: string | null;
+};
+
+function LocationPanel({
+  school,
+  students,
+  sections,
+  session,
+  totals,
+  onStatusUpdate,
+  onStudentUpdate,
+  onDataChanged,
+  canEditPayments = false,
+  canEditRecords = false,
+  canManageSections = false,
+  canManageEnrollments = false,
+  canOverrideCapacity = false,
+  canRecordAttendance = false,
+  canSendEmail = false,
+  canSendSms = false,
+  selectedStudentId = null,
+}: LocationPanelProps) {
+  const [open, setOpen] = useState(true);
+  const [filter, setFilter] = useState('');
+  // undefined = editor closed, null = adding a new section
+  const [editingSection, setEditingSection] = useState<SectionMeta | null | undefined>(undefined);
+  const [attendanceOpen, setAttendanceOpen] = useState(false);
+  const [emailOpen, setEmailOpen] = useState(false);
+  const [smsOpen, setSmsOpen] = useState(false);
+  const [zipping, setZipping] = useState(false);
+
+  useEffect(() => {
+    if (selectedStudentId && students.some(student => student.id === selectedStudentId)) {
+      setOpen(true);
+      setFilter('');
+    }
+  }, [selectedStudentId, students]);
+
+  const locationSections = sections.filter(section => section.school === school);
+
+  const sortedStudents = useMemo(() => {
+    const term = filter.trim().toLowerCase();
+    return [...students]
+      .filter(student => {
+        if (!term) return true;
+        return (
+          student.studentName.toLowerCase().includes(term) ||
+          student.parentName.toLowerCase().includes(term) ||
+          student.email.toLowerCase().includes(term) ||
+          (student.classroom ?? '').toLowerCase().includes(term)
+        );
+      })
+      .sort((a, b) => a.studentName.localeCompare(b.studentName));
+  }, [students, filter]);
+
+  const registrationCount = totals?.registrations ?? 0;
+  const collected = totals?.paidCents ?? 0;
+  const outstanding = totals?.owedCents ?? 0;
+
+  const groups = unique(
+    locationSections
+      .map(section => section.label)
+      .filter((label): label is SessionKey => label === 'A' || label === 'B'),
+  );
+
+  return (
+    <section className="location-panel">
+      <div className="location-panel__top">
+        <button
+          type="button"
+          className="location-title-btn"
+          onClick={() => setOpen(value => !value)}
+        >
+          <div>
+            <div className="location-kicker">
+              {students[0] ? CITY_LABELS[students[0].city] : ''}
+            </div>
+            <h2>{SCHOOL_LABELS[school]}</h2>
+          </div>
+          <span className="location-toggle">{open ? '−' : '+'}</span>
+        </button>
+
+        <div className="location-numbers">
+          <div>
+            <span>Kids registered</span>
+            <strong>{students.length}</strong>
           </div>
           <div>
             <span>Class registrations</span>
             <strong>{registrationCount}</strong>
           </div>
-          <div className="location-money">
-            <span>Payments received</span>
-            <strong>{money(collected)}</strong>
+          <div className="location-money">
+            <span>Payments received</span>
+            <strong>{money(collected)}</strong>
+          </div>
+          <div className={outstanding ? 'location-money location-money--due' : 'location-money'}>
+            <span>Payments due</span>
+            <strong>{money(outstanding)}</strong>
+          </div>
+        </div>
+      </div>
+
+      {open && (
+        <div className="location-panel__body">
+          <div className="location-toolbar">
+            <input
+              type="search"
+              placeholder={`Search kids at ${SCHOOL_LABELS[school]}…`}
+              value={filter}
+              onChange={event => setFilter(event.target.value)}
+            />
+            <div className="toolbar-actions">
+              {canSendEmail && (
+                <button
+                  type="button"
+                  className="secondary-btn"
+                  onClick={() => setEmailOpen(true)}
+                  disabled={!students.length}
+                >
+                  Email families
+                </button>
+              )}
+              {canSendSms && (
+                <button
+                  type="button"
+                  className="secondary-btn"
+                  onClick={() => setSmsOpen(true)}
+                  disabled={!locationSections.length}
+                >
+                  Text a class
+                </button>
+              )}
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() =>
+                  exportRosterPDF(SCHOOL_LABELS[school], students)
+                }
+                disabled={!students.length}
+              >
+                PDF roster
+              </button>
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => {
+                  setZipping(true);
+                  void downloadInvoices({
+                    kind: 'invoice',
+                    session,
+                    school,
+                  }).finally(() => setZipping(false));
+                }}
+                disabled={!students.length || zipping}
+              >
+                {zipping ? 'Building invoices…' : 'Invoices (zip)'}
+              </button>
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => setAttendanceOpen(true)}
+                disabled={!locationSections.length}
+              >
+                Attendance
+              </button>
+            </div>
+          </div>
+
+          {emailOpen && (
+            <EmailComposer
+              school={school}
+              session={session}
+              students={students}
+              shown={sortedStudents}
+              onClose={() => setEmailOpen(false)}
+            />
+          )}
+
+          {smsOpen && (
+            <SmsBroadcast
+              school={school}
+              sections={[...locationSections].sort(
+                (a, b) =>
+                  DAY_ORDER[a.day] - DAY_ORDER[b.day] ||
+                  a.label.localeCompare(b.label),
+              )}
+              onClose={() => setSmsOpen(false)}
+            />
+          )}
+
+          {attendanceOpen && (
+            <AttendanceView
+              school={school}
+              sections={[...locationSections].sort(
+                (a, b) =>
+                  DAY_ORDER[a.day] - DAY_ORDER[b.day] ||
+                  a.label.localeCompare(b.label),
+              )}
+              canRecord={canRecordAttendance}
+              onClose={() => setAttendanceOpen(false)}
+            />
+          )}
+
+          {(groups.length > 0 || canManageSections) && (
+            <div className="section-capacity-strip">
+              {locationSections
+                .slice()
+                .sort(
+                  (a, b) =>
+                    DAY_ORDER[a.day] - DAY_ORDER[b.day] ||
+                    a.label.localeCompare(b.label),
+                )
+                .map(section =>
+                  canManageSections ? (
+                    <button
+                      type="button"
+                      className={`capacity-chip capacity-chip--button ${
+                        section.enrolled > section.capacity
+                          ? 'capacity-chip--over'
+                          : ''
+                      }`}
+                      key={section.id}
+                      onClick={() => setEditingSection(section)}
+                      title="Edit section"
+                    >
+                      <span>
+                        {section.day} · {section.label}
+                      </span>
+                      <strong>
+                        {section.enrolled} of {section.capacity} kids
+                      </strong>
+                    </button>
+                  ) : (
+                    <div
+                      className={`capacity-chip ${
+                        section.enrolled > section.capacity
+                          ? 'capacity-chip--over'
+                          : ''
+                      }`}
+                      key={section.id}
+                    >
+                      <span>
+                        {section.day} · {section.label}
+                      </span>
+                      <strong>
+                        {section.enrolled} of {section.capacity} kids
+                      </strong>
+                    </div>
+                  ),
+                )}
+
+              {canManageSections && (
+                <button
+                  type="button"
+                  className="capacity-chip capacity-chip--button capacity-chip--add"
+                  onClick={() => setEditingSection(null)}
+                >
+                  <span>New section</span>
+                  <strong>+ Add</strong>
+                </button>
+              )}
+            </div>
+          )}
+
+          {editingSection !== undefined && (
+            <SectionEditor
+              school={school}
+              session={session}
+              section={editingSection}
+              onClose={() => setEditingSection(undefined)}
+              onSaved={() => {
+                setEditingSection(undefined);
+                onDataChanged();
+              }}
+            />
+          )}
+
+          <div className="student-list">
+            {sortedStudents.map(student => (
+              <StudentCard
+                key={student.id}
+                student={student}
+                sections={sections}
+                onStatusUpdate={onStatusUpdate}
+                onStudentUpdate={onStudentUpdate}
+                onDataChanged={onDataChanged}
+                canEditPayments={canEditPayments}
+                canEditRecords={canEditRecords}
+                canManageEnrollments={canManageEnrollments}
+                canOverrideCapacity={canOverrideCapacity}
+                forceOpen={student.id === selectedStudentId}
+              />
+            ))}
+
+            {!sortedStudents.length && (
+              <div className="empty-state">
+                {students.length
+                  ? 'No kids match this search.'
+                  : 'No kids are registered at this school yet.'}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+type ImportKind = 'students' | 'sections';
+type ImportRowStatus = 'new' | 'updated' | 'duplicate' | 'invalid';
+
+type ImportResult = {
+  committed: boolean;
+  kind: ImportKind;
+  summary: Record<ImportRowStatus, number>;
+  rows: {
+    row: number;
+    status: ImportRowStatus;
+    label: string;
+    reasons: string[];
+    changes: { field: string; from: string | null; to: string | null }[];
+  }[];
+};
+
+const IMPORT_STATUS_LABELS: Record<ImportRowStatus, string> = {
+  new: 'New',
+  updated: 'Updated',
+  duplicate: 'Duplicate',
+  invalid: 'Invalid',
+};
+
+function readFileBase64(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+type ImportDialogProps = {
+  session: SessionValue;
+  kinds: ImportKind[];
+  onClose: () => void;
+  onImported: () => void;
+};
+
+function ImportDialog({
+  session,
+  kinds,
+  onClose,
+  onImported,
+}: ImportDialogProps) {
+  const [kind, setKind] = useState<ImportKind>(kinds[0]);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const run = async (commit: boolean) => {
+    if (!file) return;
+    setWorking(true);
+    setError('');
+
+    try {
+      const response = await axios.post<ImportResult>('/api/admin/import', {
+        session,
+        kind,
+        file: await readFileBase64(file),
+        commit,
+      });
+      setResult(response.data);
+      if (response.data.committed) onImported();
+    } catch (err) {
+      setError(
+        apiErrorMessage(
+          err,
+          commit ? 'Could not import this file.' : 'Could not read this file.',
+        ),
+      );
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const reset = () => {
+    setResult(null);
+    setError('');
+  };
+
+  const writable = result ? result.summary.new + result.summary.updated : 0;
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>Import from spreadsheet</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        <div className="form-grid">
+          <label>
+            <span>What is in the file</span>
+            <select
+              value={kind}
+              onChange={event => {
+                setKind(event.target.value as ImportKind);
+                reset();
+              }}
+            >
+              {kinds.map(value => (
+                <option key={value} value={value}>
+                  {value === 'students'
+                    ? 'Student registrations'
+                    : 'Class sections'}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>CSV or Excel file</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              onChange={event => {
+                setFile(event.target.files?.[0] ?? null);
+                reset();
+              }}
+            />
+          </label>
+        </div>
+
+        <p className="import-hint">
+          {kind === 'students'
+            ? 'Columns: Student Name, Age, Parent, Phone, Email, School, Classroom, Days, Group, Payment Status, Payment Method. Import the sections first.'
+            : 'Columns: School, Day, Group, Start Date, End Date, Start Time, End Time, Capacity, Price, Bundle Price, Eligible Classes.'}
+        </p>
+
+        {result && (
+          <>
+            <div className="import-summary">
+              {result.committed && <strong>Imported.</strong>}
+              {(Object.keys(IMPORT_STATUS_LABELS) as ImportRowStatus[]).map(
+                status => (
+                  <span
+                    key={status}
+                    className={`import-status import-status--${status}`}
+                  >
+                    {IMPORT_STATUS_LABELS[status]}: {result.summary[status]}
+                  </span>
+                ),
+              )}
+            </div>
+
+            <ul className="history-list import-rows">
+              {result.rows.map(row => (
+                <li key={row.row}>
+                  <span>
+                    <span
+                      className={`import-status import-status--${row.status}`}
+                    >
+                      {IMPORT_STATUS_LABELS[row.status]}
+                    </span>{' '}
+                    Row {row.row} · {row.label}
+                  </span>
+                  {row.reasons.map(reason => (
+                    <small key={reason}>{reason}</small>
+                  ))}
+                  {row.changes.map(change => (
+                    <small key={change.field}>
+                      {change.field}: {change.from ?? '—'} → {change.to ?? '—'}
+                    </small>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="modal-card__actions">
+          <button type="button" className="secondary-btn" onClick={onClose}>
+            {result?.committed ? 'Done' : 'Cancel'}
+          </button>
+          {!result?.committed && (
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => void run(false)}
+              disabled={!file || working}
+            >
+              Preview
+            </button>
+          )}
+          {result && !result.committed && (
+            <button
+              type="button"
+              className="primary-btn"
+              onClick={() => {
+                if (
+                  window.confirm(
+                    `Import ${writable} row${writable === 1 ? '' : 's'}? Duplicate and invalid rows are skipped.`,
+                  )
+                ) {
+                  void run(true);
+                }
+              }}
+              disabled={!writable || working}
+            >
+              {working ? 'Importing…' : `Import ${writable} rows`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type RolloverResult = {
+  committed: boolean;
+  from: SessionValue;
+  to: SessionValue;
+  shiftDays: number | null;
+  rows: {
+    sourceId: string;
+    school: SchoolKey;
+    day: DayKey;
+    label: string;
+    startDate: string | null;
+    endDate: string | null;
+    capacity: number;
+    priceCents: number;
+    bundlePriceCents: number | null;
+    status: 'create' | 'conflict';
+    reason: string | null;
+  }[];
+};
+
+type RolloverDialogProps = {
+  terms: Term[];
+  session: SessionValue;
+  onClose: () => void;
+  onRolledOver: (to: SessionValue) => void;
+};
+
+function RolloverDialog({
+  terms,
+  session,
+  onClose,
+  onRolledOver,
+}: RolloverDialogProps) {
+  const [from, setFrom] = useState<SessionValue>(session);
+  const [to, setTo] = useState<SessionValue>(
+    () => terms.find(term => term.code !== session)?.code ?? '',
+  );
+  const [pricePercent, setPricePercent] = useState('0');
+  const [result, setResult] = useState<RolloverResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const termLabel = (code: SessionValue) =>
+    terms.find(term => term.code === code)?.label ?? code;
+
+  const run = async (commit: boolean) => {
+    setWorking(true);
+    setError('');
+
+    try {
+      const response = await axios.post<RolloverResult>('/api/admin/rollover', {
+        from,
+        to,
+        pricePercent: Number(pricePercent) || 0,
+        commit,
+      });
+      setResult(response.data);
+      if (response.data.committed) onRolledOver(to);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not roll over the sections.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const change = (apply: () => void) => {
+    apply();
+    setResult(null);
+  };
+
+  const creating = result
+    ? result.rows.filter(row => row.status === 'create').length
+    : 0;
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>Roll over sections to a new term</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+
+        <div className="form-grid">
+          <label>
+            <span>Copy sections from</span>
+            <select
+              value={from}
+              onChange={event => change(() => setFrom(event.target.value))}
+            >
+              {terms.map(term => (
+                <option key={term.code} value={term.code}>
+                  {term.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Into</span>
+            <select
+              value={to}
+              onChange={event => change(() => setTo(event.target.value))}
+            >
+              {terms.map(term => (
+                <option key={term.code} value={term.code}>
+                  {term.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span>Change prices by (%)</span>
+            <input
+              type="number"
+              step="0.5"
+              min={-50}
+              max={100}
+              value={pricePercent}
+              onChange={event =>
+                change(() => setPricePercent(event.target.value))
+              }
+            />
+          </label>
+        </div>
+
+        {result && (
+          <>
+            <p className="import-hint">
+              {result.shiftDays === null
+                ? 'These sections have no class dates to move.'
+                : `Class dates move ${result.shiftDays / 7} weeks.`}
+            </p>
+
+            {result.committed && (
+              <div className="import-summary">
+                <strong>
+                  Created {creating} section{creating === 1 ? '' : 's'} in{' '}
+                  {termLabel(result.to)}.
+                </strong>
+              </div>
+            )}
+
+            {!result.rows.length ? (
+              <div className="history-empty">
+                {termLabel(result.from)} has no active sections.
+              </div>
+            ) : (
+              <ul className="history-list import-rows">
+                {result.rows.map(row => (
+                  <li key={row.sourceId}>
+                    <span>
+                      <span
+                        className={`import-status import-status--${row.status === 'create' ? 'new' : 'invalid'}`}
+                      >
+                        {row.status === 'create' ? 'New' : 'Conflict'}
+                      </span>{' '}
+                      {SCHOOL_LABELS[row.school]} · {row.day} {row.label}
+                    </span>
+                    <small>
+                      {formatDatePretty(row.startDate)} –{' '}
+                      {formatDatePretty(row.endDate)} · {money(row.priceCents)}
+                      {row.bundlePriceCents != null &&
+                        ` (${money(row.bundlePriceCents)} twice a week)`}{' '}
+                      · {row.capacity} kids
+                    </small>
+                    {row.reason && <small>{row.reason}</small>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        <div className="modal-card__actions">
+          <button type="button" className="secondary-btn" onClick={onClose}>
+            {result?.committed ? 'Done' : 'Cancel'}
+          </button>
+          {!result?.committed && (
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => void run(false)}
+              disabled={!from || !to || from === to || working}
+            >
+              Preview
+            </button>
+          )}
+          {result && !result.committed && (
+            <button
+              type="button"
+              className="primary-btn"
+              onClick={() => void run(true)}
+              disabled={!creating || working}
+            >
+              {working ? 'Creating…' : `Create ${creating} sections`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type Closure = {
+  id: string;
+  school: SchoolKey;
+  session: SessionValue;
+  date: string;
+  reason: string;
+};
+
+type CalendarSection = {
+  id: string;
+  school: SchoolKey;
+  day: DayKey;
+  label: string;
+  startTime: string | null;
+  endTime: string | null;
+  meetings: string[];
+  feedUrl: string;
+};
+
+type CalendarData = {
+  session: SessionValue;
+  sections: CalendarSection[];
+  closures: Closure[];
+};
+
+const WEEKDAY_HEADINGS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const todayIso = () => {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('-');
+};
+
+// "2026-09" -> the month's dates as YYYY-MM-DD, padded with nulls so the
+// first one lands under its weekday
+function monthCells(month: string) {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const first = new Date(year, monthNumber - 1, 1);
+  const days = new Date(year, monthNumber, 0).getDate();
+
+  const cells: (string | null)[] = Array(first.getDay()).fill(null);
+  for (let day = 1; day <= days; day += 1) {
+    cells.push(`${month}-${String(day).padStart(2, '0')}`);
+  }
+  return cells;
+}
+
+function shiftMonth(month: string, delta: number) {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(year, monthNumber - 1 + delta, 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function monthTitle(month: string) {
+  return parseLocalISO(`${month}-01`).toLocaleDateString('en-US', {
+    month: 'long',
+    year: 'numeric',
+  });
+}
+
+async function copyToClipboard(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    // clipboard needs https; let the admin copy it by hand
+    window.prompt('Copy this link', text);
+    return false;
+  }
+}
+
+type CalendarViewProps = {
+  session: SessionValue;
+  termLabel: string;
+  schools: SchoolKey[];
+  canManage: boolean;
+  onClose: () => void;
+};
+
+function CalendarView({
+  session,
+  termLabel,
+  schools,
+  canManage,
+  onClose,
+}: CalendarViewProps) {
+  const [data, setData] = useState<CalendarData | null>(null);
+  const [school, setSchool] = useState<SchoolKey | ''>('');
+  const [month, setMonth] = useState(() => todayIso().slice(0, 7));
+  const [closureForm, setClosureForm] = useState({
+    school: schools[0] ?? '',
+    date: '',
+    reason: '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const response = await axios.get<CalendarData>(
+        `/api/admin/calendar?session=${session}`,
+      );
+      setData(response.data);
+      return response.data;
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not load the calendar.'));
+      return null;
+    }
+  }, [session]);
+
+  useEffect(() => {
+    void load().then(loaded => {
+      const dates = loaded?.sections.flatMap(section => section.meetings) ?? [];
+      if (!dates.length) return;
+
+      // jump to the term when today is outside it
+      const today = todayIso();
+      const sorted = [...dates].sort();
+      if (today < sorted[0] || today > sorted[sorted.length - 1]) {
+        setMonth(sorted[0].slice(0, 7));
+      }
+    });
+  }, [load]);
+
+  const sections = useMemo(
+    () =>
+      (data?.sections ?? []).filter(
+        section => !school || section.school === school,
+      ),
+    [data, school],
+  );
+  const closures = (data?.closures ?? []).filter(
+    closure => !school || closure.school === school,
+  );
+
+  const meetingsByDate = useMemo(() => {
+    const byDate = new Map<string, CalendarSection[]>();
+    for (const section of sections) {
+      for (const date of section.meetings) {
+        byDate.set(date, [...(byDate.get(date) ?? []), section]);
+      }
+    }
+    return byDate;
+  }, [sections]);
+
+  const addClosure = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await axios.post('/api/admin/closures', { session, ...closureForm });
+      setClosureForm(form => ({ ...form, date: '', reason: '' }));
+      await load();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not add the closure.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeClosure = async (closure: Closure) => {
+    if (
+      !window.confirm(
+        `Reopen ${SCHOOL_LABELS[closure.school]} on ${formatDatePretty(closure.date)}?`,
+      )
+    ) {
+      return;
+    }
+
+    setError('');
+    try {
+      await axios.delete(`/api/admin/closures?id=${closure.id}`);
+      await load();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not remove the closure.'));
+    }
+  };
+
+  const copyFeed = async (section: CalendarSection) => {
+    const copied = await copyToClipboard(section.feedUrl);
+    if (copied) {
+      setNotice(
+        `Copied the ${SCHOOL_LABELS[section.school]} ${section.day} ${section.label} calendar link.`,
+      );
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide calendar-card">
+        <div className="modal-card__header">
+          <h3>Class calendar · {termLabel}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+        {notice && <p className="import-hint">{notice}</p>}
+
+        <div className="calendar-toolbar">
+          <select
+            value={school}
+            onChange={event => setSchool(event.target.value as SchoolKey | '')}
+            aria-label="School"
+          >
+            <option value="">All schools</option>
+            {schools.map(key => (
+              <option key={key} value={key}>
+                {SCHOOL_LABELS[key]}
+              </option>
+            ))}
+          </select>
+          <div className="calendar-month">
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => setMonth(value => shiftMonth(value, -1))}
+              aria-label="Previous month"
+            >
+              ‹
+            </button>
+            <strong>{monthTitle(month)}</strong>
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => setMonth(value => shiftMonth(value, 1))}
+              aria-label="Next month"
+            >
+              ›
+            </button>
+          </div>
+        </div>
+
+        {!data ? (
+          !error && <div className="history-empty">Loading calendar…</div>
+        ) : (
+          <div className="calendar-grid">
+            {WEEKDAY_HEADINGS.map(heading => (
+              <div key={heading} className="calendar-grid__heading">
+                {heading}
+              </div>
+            ))}
+            {monthCells(month).map((date, index) => {
+              if (!date) {
+                return <div key={`blank-${index}`} className="calendar-day" />;
+              }
+
+              const closed = closures.filter(closure => closure.date === date);
+              const meetings = meetingsByDate.get(date) ?? [];
+
+              return (
+                <div
+                  key={date}
+                  className={[
+                    'calendar-day',
+                    closed.length ? 'calendar-day--closed' : '',
+                    date === todayIso() ? 'calendar-day--today' : '',
+                  ]
+                    .filter(Boolean)
+                    .join(' ')}
+                >
+                  <span className="calendar-day__number">
+                    {Number(date.slice(8))}
+                  </span>
+                  {closed.map(closure => (
+                    <div key={closure.id} className="calendar-closure">
+                      <span>
+                        {school ? '' : `${SCHOOL_LABELS[closure.school]}: `}
+                        {closure.reason}
+                      </span>
+                      {canManage && (
+                        <button
+                          type="button"
+                          onClick={() => void removeClosure(closure)}
+                          aria-label="Remove closure"
+                        >
+                          ×
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {meetings.map(section => (
+                    <div key={section.id} className="calendar-meeting">
+                      {section.startTime ?? ''}{' '}
+                      {school ? '' : `${SCHOOL_LABELS[section.school]} `}
+                      {section.label}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
           </div>
-          <div className={outstanding ? 'location-money location-money--due' : 'location-money'}>
-            <span>Payments due</span>
-            <strong>{money(outstanding)}</strong>
+        )}
+
+        {canManage && (
+          <div className="form-grid calendar-closure-form">
+            <label>
+              <span>Closed school</span>
+              <select
+                value={closureForm.school}
+                onChange={event =>
+                  setClosureForm(form => ({
+                    ...form,
+                    school: event.target.value as SchoolKey,
+                  }))
+                }
+              >
+                {schools.map(key => (
+                  <option key={key} value={key}>
+                    {SCHOOL_LABELS[key]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span>Date</span>
+              <input
+                type="date"
+                value={closureForm.date}
+                onChange={event =>
+                  setClosureForm(form => ({
+                    ...form,
+                    date: event.target.value,
+                  }))
+                }
+              />
+            </label>
+            <label>
+              <span>Reason</span>
+              <input
+                type="text"
+                placeholder="Thanksgiving break"
+                value={closureForm.reason}
+                onChange={event =>
+                  setClosureForm(form => ({
+                    ...form,
+                    reason: event.target.value,
+                  }))
+                }
+              />
+            </label>
+            <button
+              type="button"
+              className="primary-btn"
+              onClick={() => void addClosure()}
+              disabled={
+                saving ||
+                !closureForm.school ||
+                !closureForm.date ||
+                !closureForm.reason.trim()
+              }
+            >
+              {saving ? 'Saving…' : 'Add closure'}
+            </button>
           </div>
+        )}
+
+        {sections.length > 0 && (
+          <ul className="history-list calendar-feeds">
+            {sections.map(section => (
+              <li key={section.id}>
+                <span>
+                  {SCHOOL_LABELS[section.school]} · {section.day} ·{' '}
+                  {section.label}
+                </span>
+                <small>{section.meetings.length} classes</small>
+                <button
+                  type="button"
+                  className="secondary-btn"
+                  onClick={() => void copyFeed(section)}
+                >
+                  Copy feed link
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type ReminderStudent = {
+  studentId: string;
+  studentName: string;
+  school: SchoolKey;
+  session: SessionValue;
+  owedCents: number;
+  lastRemindedAt: string | null;
+  due: boolean;
+};
+
+type ReminderOverview = {
+  settings: { enabled: boolean; intervalDays: number };
+  lastRun: { at: string; sent: number; failed: number; skipped: number } | null;
+  students: ReminderStudent[];
+};
+
+type ReminderSettingsDialogProps = {
+  onClose: () => void;
+  onSent: () => void;
+};
+
+function ReminderSettingsDialog({
+  onClose,
+  onSent,
+}: ReminderSettingsDialogProps) {
+  const [overview, setOverview] = useState<ReminderOverview | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [intervalDays, setIntervalDays] = useState('7');
+  const [working, setWorking] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    try {
+      const response = await axios.get<ReminderOverview>(
+        '/api/admin/reminders',
+      );
+      setOverview(response.data);
+      setEnabled(response.data.settings.enabled);
+      setIntervalDays(String(response.data.settings.intervalDays));
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not load payment reminders.'));
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const save = async () => {
+    setWorking(true);
+    setError('');
+    setNotice('');
+    try {
+      await axios.put('/api/admin/reminders', {
+        enabled,
+        intervalDays: Number(intervalDays),
+      });
+      setNotice('Reminder settings saved.');
+      await load();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not save the settings.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const due = overview?.students.filter(student => student.due) ?? [];
+
+  const sendNow = async () => {
+    if (
+      !window.confirm(`Email a payment reminder to ${due.length} families now?`)
+    ) {
+      return;
+    }
+
+    setWorking(true);
+    setError('');
+    setNotice('');
+    try {
+      const response = await axios.post<{
+        sent: number;
+        failed: number;
+        skipped: number;
+      }>('/api/admin/reminders');
+      setNotice(
+        `Sent ${response.data.sent} reminders` +
+          (response.data.failed ? `, ${response.data.failed} failed` : '') +
+          (response.data.skipped ? `, ${response.data.skipped} skipped` : '') +
+          '.',
+      );
+      await load();
+      onSent();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not send the reminders.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>Payment reminders</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+        {notice && <p className="import-hint">{notice}</p>}
+
+        <div className="form-grid">
+          <label className="form-grid__check">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={event => setEnabled(event.target.checked)}
+            />
+            <span>Send reminders automatically</span>
+          </label>
+          <label>
+            <span>Days between reminders</span>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={intervalDays}
+              onChange={event => setIntervalDays(event.target.value)}
+            />
+          </label>
+        </div>
+
+        <p className="import-hint">
+          {overview?.lastRun
+            ? `Last run ${formatDateTime(overview.lastRun.at)}: ${overview.lastRun.sent} sent, ${overview.lastRun.failed} failed.`
+            : 'Reminders have not run yet.'}{' '}
+          Families stop getting reminders once they are paid.
+        </p>
+
+        {!overview ? (
+          !error && <div className="history-empty">Loading…</div>
+        ) : !overview.students.length ? (
+          <div className="history-empty">Nobody owes tuition right now.</div>
+        ) : (
+          <ul className="history-list import-rows">
+            {overview.students.map(student => (
+              <li key={student.studentId}>
+                <span>
+                  {student.studentName} · {SCHOOL_LABELS[student.school]} ·{' '}
+                  {money(student.owedCents)} due
+                </span>
+                <small>
+                  {student.lastRemindedAt
+                    ? `Last reminded ${formatDatePretty(student.lastRemindedAt)}`
+                    : 'Never reminded'}
+                  {student.due ? ' · due now' : ''}
+                </small>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="modal-card__actions">
+          <button
+            type="button"
+            className="secondary-btn"
+            onClick={() => void sendNow()}
+            disabled={working || !due.length}
+          >
+            Send {due.length} due now
+          </button>
+          <button
+            type="button"
+            className="primary-btn"
+            onClick={() => void save()}
+            disabled={working || !overview}
+          >
+            Save settings
+          </button>
         </div>
       </div>
+    </div>
+  );
+}
 
-      {open && (
-        <div className="location-panel__body">
-          <div className="location-toolbar">
+type PromoCode = {
+  code: string;
+  description: string | null;
+  kind: DiscountKind;
+  value: number;
+  expiresAt: string | null;
+  maxUses: number | null;
+  uses: number;
+  isActive: boolean;
+  expired: boolean;
+};
+
+type DiscountSettings = {
+  sibling: {
+    enabled: boolean;
+    kind: DiscountKind;
+    value: number;
+  };
+  promoCodes: PromoCode[];
+};
+
+const describeDiscount = (kind: DiscountKind, value: number) =>
+  kind === 'PERCENT' ? `${value}%` : money(value);
+
+const discountValue = (kind: DiscountKind | '', value: string) =>
+  kind === 'AMOUNT' ? centsFromDollars(value) : Number(value);
+
+type DiscountsDialogProps = {
+  onClose: () => void;
+  onChanged: () => void;
+};
+
+function DiscountsDialog({ onClose, onChanged }: DiscountsDialogProps) {
+  const [settings, setSettings] = useState<DiscountSettings | null>(null);
+  const [sibling, setSibling] = useState({
+    enabled: false,
+    kind: 'PERCENT' as DiscountKind,
+    value: '10',
+  });
+  const [promoForm, setPromoForm] = useState({
+    code: '',
+    description: '',
+    kind: 'PERCENT' as DiscountKind,
+    value: '',
+    expiresAt: '',
+    maxUses: '',
+  });
+  const [working, setWorking] = useState(false);
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const load = async () => {
+    try {
+      const response = await axios.get<DiscountSettings>(
+        '/api/admin/discounts',
+      );
+      setSettings(response.data);
+      const { enabled, kind, value } = response.data.sibling;
+      setSibling({
+        enabled,
+        kind,
+        value: kind === 'AMOUNT' ? dollarsFromCents(value) : String(value),
+      });
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not load discounts.'));
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, done: string) => {
+    setWorking(true);
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      setNotice(done);
+      await load();
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not save the discount.'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const saveSibling = () =>
+    run(
+      () =>
+        axios.put('/api/admin/discounts', {
+          enabled: sibling.enabled,
+          kind: sibling.kind,
+          value: discountValue(sibling.kind, sibling.value),
+        }),
+      'Sibling discount saved.',
+    );
+
+  const createPromo = () =>
+    run(async () => {
+      await axios.post('/api/admin/discounts/promo-codes', {
+        code: promoForm.code,
+        description: promoForm.description || null,
+        kind: promoForm.kind,
+        value: discountValue(promoForm.kind, promoForm.value),
+        expiresAt: promoForm.expiresAt || null,
+        maxUses: promoForm.maxUses ? Number(promoForm.maxUses) : null,
+      });
+      setPromoForm(current => ({
+        ...current,
+        code: '',
+        description: '',
+        value: '',
+        expiresAt: '',
+        maxUses: '',
+      }));
+    }, `Created ${promoForm.code.toUpperCase()}.`);
+
+  const togglePromo = (promo: PromoCode) =>
+    run(
+      () =>
+        axios.put(
+          `/api/admin/discounts/promo-codes?code=${encodeURIComponent(promo.code)}`,
+          { isActive: !promo.isActive },
+        ),
+      `${promo.code} turned ${promo.isActive ? 'off' : 'on'}.`,
+    );
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>Discounts</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && <div className="error-banner">{error}</div>}
+        {notice && <p className="import-hint">{notice}</p>}
+
+        <h4 className="family-heading">Sibling discount</h4>
+        <p className="import-hint">
+          Every kid in a family except the one with the highest tuition that
+          term. Families are matched by parent email or phone.
+        </p>
+        <div className="form-grid">
+          <label className="form-grid__check">
             <input
-              type="search"
-              placeholder={`Search kids at ${SCHOOL_LABELS[school]}…`}
-              value={filter}
-              onChange={event => setFilter(event.target.value)}
+              type="checkbox"
+              checked={sibling.enabled}
+              onChange={event =>
+                setSibling(current => ({
+                  ...current,
+                  enabled: event.target.checked,
+                }))
+              }
             />
-            <div className="toolbar-actions">
-              <button
-                type="button"
-                className="secondary-btn"
-                onClick={() => launchBcc(students.map(student => student.email))}
-                disabled={!students.length}
-              >
-                Email all
-              </button>
-              <button
-                type="button"
-                className="secondary-btn"
-                onClick={() =>
-                  exportRosterPDF(SCHOOL_LABELS[school], students)
-                }
-                disabled={!students.length}
-              >
-                PDF roster
-              </button>
-            </div>
+            <span>Give siblings a discount</span>
+          </label>
+          <label>
+            <span>Type</span>
+            <select
+              value={sibling.kind}
+              onChange={event =>
+                setSibling(current => ({
+                  ...current,
+                  kind: event.target.value as DiscountKind,
+                }))
+              }
+            >
+              <option value="PERCENT">Percent off</option>
+              <option value="AMOUNT">Dollar amount off</option>
+            </select>
+          </label>
+          <label>
+            <span>{sibling.kind === 'PERCENT' ? 'Percent' : 'Amount ($)'}</span>
+            <input
+              type="number"
+              min={0}
+              step={sibling.kind === 'PERCENT' ? 1 : 0.01}
+              value={sibling.value}
+              onChange={event =>
+                setSibling(current => ({
+                  ...current,
+                  value: event.target.value,
+                }))
+              }
+            />
+          </label>
+        </div>
+        <div className="modal-card__actions">
+          <button
+            type="button"
+            className="primary-btn"
+            onClick={() => void saveSibling()}
+            disabled={working || !settings}
+          >
+            Save sibling discount
+          </button>
+        </div>
+
+        <h4 className="family-heading">Promo codes</h4>
+        {!settings ? (
+          !error && <div className="history-empty">Loading…</div>
+        ) : !settings.promoCodes.length ? (
+          <div className="history-empty">No promo codes yet.</div>
+        ) : (
+          <ul className="history-list import-rows">
+            {settings.promoCodes.map(promo => (
+              <li key={promo.code}>
+                <span>
+                  <strong>{promo.code}</strong> ·{' '}
+                  {describeDiscount(promo.kind, promo.value)} off
+                  {promo.description ? ` · ${promo.description}` : ''}
+                  <button
+                    type="button"
+                    className="inline-link-btn"
+                    onClick={() => void togglePromo(promo)}
+                    disabled={working}
+                  >
+                    {promo.isActive ? 'Turn off' : 'Turn on'}
+                  </button>
+                </span>
+                <small>
+                  {promo.uses}
+                  {promo.maxUses ? ` of ${promo.maxUses}` : ''} used
+                  {promo.expiresAt &&
+                    ` · ${promo.expired ? 'expired' : 'expires'} ${formatDatePretty(promo.expiresAt)}`}
+                  {!promo.isActive && ' · off'}
+                </small>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="form-grid">
+          <label>
+            <span>New code</span>
+            <input
+              value={promoForm.code}
+              onChange={event =>
+                setPromoForm(current => ({
+                  ...current,
+                  code: event.target.value.toUpperCase(),
+                }))
+              }
+              placeholder="FALLFRIENDS"
+            />
+          </label>
+          <label>
+            <span>Type</span>
+            <select
+              value={promoForm.kind}
+              onChange={event =>
+                setPromoForm(current => ({
+                  ...current,
+                  kind: event.target.value as DiscountKind,
+                }))
+              }
+            >
+              <option value="PERCENT">Percent off</option>
+              <option value="AMOUNT">Dollar amount off</option>
+            </select>
+          </label>
+          <label>
+            <span>
+              {promoForm.kind === 'PERCENT' ? 'Percent' : 'Amount ($)'}
+            </span>
+            <input
+              type="number"
+              min={0}
+              step={promoForm.kind === 'PERCENT' ? 1 : 0.01}
+              value={promoForm.value}
+              onChange={event =>
+                setPromoForm(current => ({
+                  ...current,
+                  value: event.target.value,
+                }))
+              }
+            />
+          </label>
+          <label>
+            <span>Expires after</span>
+            <input
+              type="date"
+              value={promoForm.expiresAt}
+              onChange={event =>
+                setPromoForm(current => ({
+                  ...current,
+                  expiresAt: event.target.value,
+                }))
+              }
+            />
+          </label>
+          <label>
+            <span>Usage limit</span>
+            <input
+              type="number"
+              min={1}
+              value={promoForm.maxUses}
+              onChange={event =>
+                setPromoForm(current => ({
+                  ...current,
+                  maxUses: event.target.value,
+                }))
+              }
+              placeholder="Unlimited"
+            />
+          </label>
+          <label className="form-grid__wide">
+            <span>Description</span>
+            <input
+              value={promoForm.description}
+              onChange={event =>
+                setPromoForm(current => ({
+                  ...current,
+                  description: event.target.value,
+                }))
+              }
+            />
+          </label>
+        </div>
+
+        <div className="modal-card__actions">
+          <button type="button" className="secondary-btn" onClick={onClose}>
+            Done
+          </button>
+          <button
+            type="button"
+            className="primary-btn"
+            onClick={() => void createPromo()}
+            disabled={working || !promoForm.code || !promoForm.value}
+          >
+            Create promo code
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type DuplicateRecord = {
+  kind: 'student' | 'waitlist';
+  id: string;
+  studentName: string;
+  parentName: string;
+  email: string;
+  phone: string;
+  school: SchoolKey;
+  classroom: string | null;
+  createdAt: string;
+  paymentStatus: PaymentStatus | null;
+  enrollmentCount: number;
+  paymentCount: number;
+};
+
+type DuplicateGroup = {
+  key: string;
+  records: DuplicateRecord[];
+};
+
+const recordKey = (record: Pick<DuplicateRecord, 'kind' | 'id'>) =>
+  `${record.kind}:${record.id}`;
+
+// The student with the most history; the server already sorts students
+// first and oldest first, so ties keep the original registration.
+function defaultKeeper(group: DuplicateGroup) {
+  const weight = (record: DuplicateRecord) =>
+    record.kind === 'student'
+      ? 1 + record.paymentCount * 2 + record.enrollmentCount
+      : 0;
+
+  return group.records.reduce((best, record) =>
+    weight(record) > weight(best) ? record : best,
+  );
+}
+
+type DuplicatesDialogProps = {
+  session: SessionValue;
+  termLabel: string;
+  canMerge: boolean;
+  onClose: () => void;
+  onMerged: () => void;
+};
+
+function DuplicatesDialog({
+  session,
+  termLabel,
+  canMerge,
+  onClose,
+  onMerged,
+}: DuplicatesDialogProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [working, setWorking] = useState('');
+  const [notice, setNotice] = useState('');
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const response = await axios.get<DuplicateGroup[]>(
+        `/api/admin/duplicates?session=${session}`,
+      );
+      setGroups(response.data);
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not look for duplicates.'));
+    }
+  }, [session]);
+
+  useEffect(() => {
+    void load();
+  }, [load]);
+
+  const keeperOf = (group: DuplicateGroup) =>
+    group.records.find(record => recordKey(record) === keepers[group.key]) ??
+    defaultKeeper(group);
+
+  const merge = async (group: DuplicateGroup) => {
+    const keep = keeperOf(group);
+    const others = group.records.filter(record => record !== keep);
+
+    if (
+      !window.confirm(
+        `Keep ${keep.studentName} (${keep.email}) and merge ${others.length} other record${others.length === 1 ? '' : 's'} into it? The others will be deleted.`,
+      )
+    ) {
+      return;
+    }
+
+    setWorking(group.key);
+    setError('');
+    setNotice('');
+
+    try {
+      await axios.post('/api/admin/duplicates', {
+        session,
+        keep: { kind: keep.kind, id: keep.id },
+        merge: others.map(record => ({ kind: record.kind, id: record.id })),
+      });
+      setNotice(`Merged ${others.length + 1} records for ${keep.studentName}.`);
+      await load();
+      onMerged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not merge the records.'));
+    } finally {
+      setWorking('');
+    }
+  };
+
+  return (
+    <div className="modal-backdrop" role="dialog" aria-modal="true">
+      <div className="modal-card modal-card--wide">
+        <div className="modal-card__header">
+          <h3>Possible duplicates · {termLabel}</h3>
+          <button
+            type="button"
+            className="modal-close"
+            onClick={onClose}
+            aria-label="Close"
+          >
+            ×
+          </button>
+        </div>
+
+        <p className="import-hint">
+          Registrations and waiting-list entries with the same child name and
+          the same parent email or phone. Merging keeps the chosen record, moves
+          classes, payments and history onto it, and deletes the rest.
+        </p>
+
+        {error && <div className="error-banner">{error}</div>}
+        {notice && <div className="import-summary">{notice}</div>}
+
+        {!groups ? (
+          <div className="history-empty">Looking for duplicates…</div>
+        ) : !groups.length ? (
+          <div className="history-empty">
+            No likely duplicates in this term.
           </div>
+        ) : (
+          <div className="duplicate-groups">
+            {groups.map(group => {
+              const keep = keeperOf(group);
+              const hasStudent = group.records.some(
+                record => record.kind === 'student',
+              );
 
-          {groups.length > 0 && (
-            <div className="section-capacity-strip">
-              {locationSections
-                .slice()
-                .sort(
-                  (a, b) =>
-                    DAY_ORDER[a.day] - DAY_ORDER[b.day] ||
-                    a.label.localeCompare(b.label),
-                )
-                .map(section => (
-                  <div className="capacity-chip" key={section.id}>
-                    <span>
-                      {section.day} · {section.label}
-                    </span>
-                    <strong>
-                      {section.enrolled} of {section.capacity} kids
-                    </strong>
-                  </div>
-                ))}
-            </div>
-          )}
+              return (
+                <section key={group.key} className="duplicate-group">
+                  <ul className="history-list">
+                    {group.records.map(record => (
+                      <li key={recordKey(record)}>
+                        <label className="duplicate-record">
+                          {canMerge && (
+                            <input
+                              type="radio"
+                              name={group.key}
+                              checked={record === keep}
+                              disabled={
+                                hasStudent && record.kind === 'waitlist'
+                              }
+                              onChange={() =>
+                                setKeepers(current => ({
+                                  ...current,
+                                  [group.key]: recordKey(record),
+                                }))
+                              }
+                            />
+                          )}
+                          <span>
+                            <span
+                              className={`import-status import-status--${record.kind === 'student' ? 'updated' : 'new'}`}
+                            >
+                              {record.kind === 'student'
+                                ? 'Registered'
+                                : 'Waiting list'}
+                            </span>{' '}
+                            <strong>{record.studentName}</strong> ·{' '}
+                            {SCHOOL_LABELS[record.school]}
+                            {record.classroom ? ` · ${record.classroom}` : ''}
+                          </span>
+                        </label>
+                        <small>
+                          {record.parentName} · {record.email || 'no email'} ·{' '}
+                          {record.phone
+                            ? formatPhone(record.phone)
+                            : 'no phone'}
+                        </small>
+                        <small>
+                          Added {formatDateTime(record.createdAt)}
+                          {record.kind === 'student' &&
+                            ` · ${record.enrollmentCount} class${record.enrollmentCount === 1 ? '' : 'es'} · ${record.paymentCount} payment${record.paymentCount === 1 ? '' : 's'} · ${record.paymentStatus}`}
+                        </small>
+                      </li>
+                    ))}
+                  </ul>
+
+                  {canMerge && (
+                    <div className="duplicate-group__actions">
+                      <button
+                        type="button"
+                        className="primary-btn"
+                        onClick={() => void merge(group)}
+                        disabled={Boolean(working)}
+                      >
+                        {working === group.key
+                          ? 'Merging…'
+                          : `Merge into the record added ${formatDatePretty(keep.createdAt)}`}
+                      </button>
+                    </div>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="modal-card__actions">
+          <button type="button" className="secondary-btn" onClick={onClose}>
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type CapacityAlert = {
+  sectionId: string;
+  school: SchoolKey;
+  day: DayKey;
+  label: string;
+  enrolled: number;
+  capacity: number;
+  fillPercent: number;
+  level: 'over' | 'threshold';
+};
+
+type CapacityAlertsProps = {
+  session: string;
+  // reloaded whenever the dashboard reloads its sections
+  sections: SectionMeta[];
+  canEdit?: boolean;
+};
+
+function CapacityAlerts({
+  session,
+  sections,
+  canEdit = false,
+}: CapacityAlertsProps) {
+  const [alerts, setAlerts] = useState<CapacityAlert[]>([]);
+  const [threshold, setThreshold] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const response = await axios.get<{
+        settings: { thresholdPercent: number };
+        alerts: CapacityAlert[];
+      }>(`/api/admin/capacity?session=${session}`);
+      setAlerts(response.data.alerts);
+      setThreshold(response.data.settings.thresholdPercent);
+    } catch (err) {
+      console.error(err);
+    }
+  }, [session]);
+
+  useEffect(() => {
+    void load();
+  }, [load, sections]);
+
+  const save = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await axios.put('/api/admin/capacity', {
+        thresholdPercent: Number(draft),
+      });
+      setEditing(false);
+      await load();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not save the alert threshold.'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (threshold === null || (!alerts.length && !canEdit)) return null;
 
-          <div className="student-list">
-            {sortedStudents.map(student => (
-              <StudentCard
-                key={student.id}
-                student={student}
-                sections={sections}
-                onStatusUpdate={onStatusUpdate}
-                forceOpen={student.id === selectedStudentId}
+  return (
+    <section className="capacity-alerts">
+      <div className="capacity-alerts__header">
+        <strong>
+          {alerts.length
+            ? `${alerts.length} class${alerts.length === 1 ? '' : 'es'} filling up`
+            : 'No classes are filling up'}
+        </strong>
+        {editing ? (
+          <span className="capacity-alerts__form">
+            <label>
+              Alert at{' '}
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={draft}
+                onChange={event => setDraft(event.target.value)}
               />
-            ))}
-
-            {!sortedStudents.length && (
-              <div className="empty-state">
-                {students.length
-                  ? 'No kids match this search.'
-                  : 'No kids are registered at this school yet.'}
-              </div>
+              % full
+            </label>
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => setEditing(false)}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="primary-btn"
+              disabled={saving}
+              onClick={() => void save()}
+            >
+              {saving ? 'Saving…' : 'Save'}
+            </button>
+          </span>
+        ) : (
+          <small>
+            Alerting at {threshold}% full
+            {canEdit && (
+              <>
+                {' '}
+                <button
+                  type="button"
+                  className="inline-link-btn"
+                  onClick={() => {
+                    setDraft(String(threshold));
+                    setEditing(true);
+                  }}
+                >
+                  Change
+                </button>
+              </>
             )}
-          </div>
-        </div>
+          </small>
+        )}
+      </div>
+
+      {error && <div className="error-banner">{error}</div>}
+
+      {alerts.length > 0 && (
+        <ul className="capacity-alerts__list">
+          {alerts.map(alert => (
+            <li
+              key={alert.sectionId}
+              className={`capacity-alert capacity-alert--${alert.level}`}
+            >
+              <strong>
+                {SCHOOL_LABELS[alert.school]} · {alert.day} {alert.label}
+              </strong>
+              <span>
+                {alert.enrolled} of {alert.capacity} kids ·{' '}
+                {alert.level === 'over'
+                  ? `${alert.enrolled - alert.capacity} over capacity`
+                  : `${alert.fillPercent}% full`}
+              </span>
+            </li>
+          ))}
+        </ul>
       )}
     </section>
   );
 }
 
-function WaitlistPanel({ entries }: { entries: WaitlistEntry[] }) {
+type WaitlistStatus =
+  'WAITING' | 'CONTACTED' | 'OFFERED' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+const WAITLIST_STATUS_LABELS: Record<WaitlistStatus, string> = {
+  WAITING: 'Waiting',
+  CONTACTED: 'Contacted',
+  OFFERED: 'Seat offered',
+  ACCEPTED: 'Enrolled',
+  DECLINED: 'Declined',
+  EXPIRED: 'Offer expired',
+};
+
+// What each status can be changed to by hand; the API enforces the same
+// rules. Enrolling is its own button.
+const WAITLIST_NEXT_STATUSES: Record<WaitlistStatus, WaitlistStatus[]> = {
+  WAITING: ['CONTACTED', 'OFFERED', 'DECLINED'],
+  CONTACTED: ['WAITING', 'OFFERED', 'DECLINED'],
+  OFFERED: ['OFFERED', 'WAITING', 'CONTACTED', 'DECLINED', 'EXPIRED'],
+  ACCEPTED: [],
+  DECLINED: ['WAITING'],
+  EXPIRED: ['WAITING', 'OFFERED'],
+};
+
+const WAITLIST_ACTION_LABELS: Record<WaitlistStatus, string> = {
+  WAITING: 'Put back in line',
+  CONTACTED: 'Mark contacted',
+  OFFERED: 'Offer a seat',
+  ACCEPTED: 'Enroll',
+  DECLINED: 'Mark declined',
+  EXPIRED: 'Expire the offer',
+};
+
+const OPEN_WAITLIST_STATUSES: WaitlistStatus[] = [
+  'WAITING',
+  'CONTACTED',
+  'OFFERED',
+];
+
+const isWaiting = (entry: WaitlistEntry) =>
+  OPEN_WAITLIST_STATUSES.includes(entry.status);
+
+function waitlistStatusDetail(entry: WaitlistEntry) {
+  const stamp = {
+    WAITING: null,
+    CONTACTED: entry.contactedAt,
+    OFFERED: entry.offerExpiresAt,
+    ACCEPTED: entry.acceptedAt,
+    DECLINED: entry.declinedAt,
+    EXPIRED: entry.expiredAt,
+  }[entry.status];
+
+  if (!stamp) return WAITLIST_STATUS_LABELS[entry.status];
+  return entry.status === 'OFFERED'
+    ? `${WAITLIST_STATUS_LABELS.OFFERED} until ${formatDatePretty(stamp)}`
+    : `${WAITLIST_STATUS_LABELS[entry.status]} ${formatDatePretty(stamp)}`;
+}
+
+// the API's default deadline, three days out
+function defaultOfferDeadline() {
+  const date = new Date();
+  date.setDate(date.getDate() + 3);
+  return [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, '0'),
+    String(date.getDate()).padStart(2, '0'),
+  ].join('-');
+}
+
+type WaitlistEntryFormProps = {
+  session: SessionValue;
+  schools: SchoolKey[];
+  onCancel: () => void;
+  onSaved: () => void;
+};
+
+function WaitlistEntryForm({
+  session,
+  schools,
+  onCancel,
+  onSaved,
+}: WaitlistEntryFormProps) {
+  const [form, setForm] = useState({
+    studentName: '',
+    age: '',
+    classroom: '',
+    parentName: '',
+    phone: '',
+    email: '',
+    school: schools[0] ?? SCHOOL_ORDER[0],
+    requestedDay: DAYS[0],
+    notes: '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const update = <K extends keyof typeof form>(
+    key: K,
+    value: (typeof form)[K],
+  ) => setForm(current => ({ ...current, [key]: value }));
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      await axios.post('/api/admin/waitlist', {
+        ...form,
+        age: Number(form.age),
+        classroom: form.classroom || null,
+        notes: form.notes || null,
+        session,
+      });
+      onSaved();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not add this family.'));
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form className="student-edit" onSubmit={submit}>
+      {error && <div className="error-banner">{error}</div>}
+
+      <div className="form-grid">
+        <label>
+          <span>Child name</span>
+          <input
+            value={form.studentName}
+            onChange={event => update('studentName', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Age</span>
+          <input
+            type="number"
+            min={1}
+            max={18}
+            value={form.age}
+            onChange={event => update('age', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Class</span>
+          <input
+            value={form.classroom}
+            onChange={event => update('classroom', event.target.value)}
+          />
+        </label>
+        <label>
+          <span>Parent or guardian</span>
+          <input
+            value={form.parentName}
+            onChange={event => update('parentName', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Phone</span>
+          <input
+            type="tel"
+            value={form.phone}
+            onChange={event => update('phone', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>Email</span>
+          <input
+            type="email"
+            value={form.email}
+            onChange={event => update('email', event.target.value)}
+            required
+          />
+        </label>
+        <label>
+          <span>School</span>
+          <select
+            value={form.school}
+            onChange={event =>
+              update('school', event.target.value as SchoolKey)
+            }
+          >
+            {schools.map(school => (
+              <option key={school} value={school}>
+                {SCHOOL_LABELS[school]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span>Requested day</span>
+          <select
+            value={form.requestedDay}
+            onChange={event =>
+              update('requestedDay', event.target.value as DayKey)
+            }
+          >
+            {DAYS.map(day => (
+              <option key={day} value={day}>
+                {day}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="form-grid__wide">
+          <span>Notes</span>
+          <textarea
+            rows={2}
+            maxLength={1000}
+            value={form.notes}
+            onChange={event => update('notes', event.target.value)}
+          />
+        </label>
+      </div>
+
+      <div className="modal-card__actions">
+        <button type="button" className="secondary-btn" onClick={onCancel}>
+          Cancel
+        </button>
+        <button type="submit" className="primary-btn" disabled={saving}>
+          {saving ? 'Adding…' : 'Add to waiting list'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+type WaitlistPanelProps = {
+  entries: WaitlistEntry[];
+  session: SessionValue;
+  schools?: SchoolKey[];
+  onChanged: () => void;
+  canEdit?: boolean;
+  canOverrideCapacity?: boolean;
+};
+
+function WaitlistPanel({
+  entries,
+  session,
+  schools = SCHOOL_ORDER,
+  onChanged,
+  canEdit = false,
+  canOverrideCapacity = false,
+}: WaitlistPanelProps) {
   const [open, setOpen] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [showClosed, setShowClosed] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [notesFor, setNotesFor] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [error, setError] = useState('');
 
+  const waitingCount = entries.filter(isWaiting).length;
+  const closedCount = entries.length - waitingCount;
+
+  // Each requested day is its own line, in the order seats are offered;
+  // closed entries follow, newest first.
   const grouped = useMemo(() => {
     const map = new Map<SchoolKey, WaitlistEntry[]>();
-    for (const entry of entries) {
+    const ordered = entries
+      .filter(entry => showClosed || isWaiting(entry))
+      .sort(
+        (a, b) =>
+          Number(isWaiting(b)) - Number(isWaiting(a)) ||
+          (isWaiting(a)
+            ? (DAY_ORDER[a.requestedDay] ?? 99) -
+                (DAY_ORDER[b.requestedDay] ?? 99) ||
+              (a.position ?? 0) - (b.position ?? 0)
+            : b.updatedAt.localeCompare(a.updatedAt)),
+      );
+    for (const entry of ordered) {
       const list = map.get(entry.school) ?? [];
       list.push(entry);
       map.set(entry.school, list);
     }
     return map;
-  }, [entries]);
+  }, [entries, showClosed]);
+
+  const saveEntry = async (
+    entry: WaitlistEntry,
+    patch: Record<string, unknown>,
+    fallback: string,
+  ) => {
+    setBusyId(entry.id);
+    setError('');
+    try {
+      await axios.put('/api/admin/waitlist', { id: entry.id, ...patch });
+      onChanged();
+      return true;
+    } catch (err) {
+      setError(apiErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const changeStatus = async (entry: WaitlistEntry, status: WaitlistStatus) => {
+    let offerExpiresAt: string | null = null;
+
+    if (status === 'OFFERED') {
+      const answer = window.prompt(
+        `Offer ${entry.studentName} a ${entry.requestedDay} seat. The offer stands through (YYYY-MM-DD):`,
+        entry.status === 'OFFERED' && entry.offerExpiresAt
+          ? entry.offerExpiresAt.slice(0, 10)
+          : defaultOfferDeadline(),
+      );
+      if (!answer?.trim()) return;
+      offerExpiresAt = answer.trim();
+    }
+
+    await saveEntry(
+      entry,
+      { status, offerExpiresAt },
+      'Could not change the status.',
+    );
+  };
+
+  const editNotes = (entry: WaitlistEntry) => {
+    setNotesFor(entry.id);
+    setNotesDraft(entry.notes ?? '');
+  };
+
+  const saveNotes = async (entry: WaitlistEntry) => {
+    const saved = await saveEntry(
+      entry,
+      { notes: notesDraft || null },
+      'Could not save the notes.',
+    );
+    if (saved) setNotesFor(null);
+  };
+
+  const remove = async (entry: WaitlistEntry) => {
+    if (!window.confirm(`Remove ${entry.studentName} from the waiting list?`)) {
+      return;
+    }
+
+    setBusyId(entry.id);
+    setError('');
+    try {
+      await axios.delete('/api/admin/waitlist', { params: { id: entry.id } });
+      onChanged();
+    } catch (err) {
+      setError(apiErrorMessage(err, 'Could not remove this entry.'));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const enroll = async (entry: WaitlistEntry) => {
+    if (
+      !window.confirm(
+        `Enroll ${entry.studentName} in ${SCHOOL_LABELS[entry.school]} on ${entry.requestedDay}?`,
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(entry.id);
+    setError('');
+    try {
+      await axios.post('/api/admin/waitlist/promote', { id: entry.id });
+      onChanged();
+    } catch (err) {
+      const message = apiErrorMessage(err, 'Could not enroll this child.');
+      const full =
+        axios.isAxiosError(err) &&
+        (err.response?.data as { full?: boolean } | undefined)?.full;
+      const reason =
+        full && canOverrideCapacity
+          ? window.prompt(`${message}. To overbook anyway, give a reason:`)
+          : null;
+
+      if (reason?.trim()) {
+        try {
+          await axios.post('/api/admin/waitlist/promote', {
+            id: entry.id,
+            override: { reason },
+          });
+          onChanged();
+        } catch (retryErr) {
+          setError(apiErrorMessage(retryErr, 'Could not enroll this child.'));
+        }
+      } else {
+        setError(message);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
 
   return (
     <section className="simple-panel">
@@ -585,14 +5343,52 @@ function WaitlistPanel({ entries }: { entries: WaitlistEntry[] }) {
         onClick={() => setOpen(value => !value)}
       >
         <span>
-          Waiting list <b>{entries.length}</b>
+          Waiting list <b>{waitingCount}</b>
         </span>
         <span>{open ? '−' : '+'}</span>
       </button>
 
       {open && (
         <div className="simple-panel__body">
-          {!entries.length && <div className="empty-state">No one is on the waiting list.</div>}
+          {error && <div className="error-banner">{error}</div>}
+
+          <div className="waitlist-toolbar">
+            {closedCount > 0 && (
+              <label>
+                <input
+                  type="checkbox"
+                  checked={showClosed}
+                  onChange={event => setShowClosed(event.target.checked)}
+                />{' '}
+                Show enrolled, declined and expired ({closedCount})
+              </label>
+            )}
+            {canEdit && !adding && (
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => setAdding(true)}
+              >
+                Add family
+              </button>
+            )}
+          </div>
+
+          {adding && (
+            <WaitlistEntryForm
+              session={session}
+              schools={schools}
+              onCancel={() => setAdding(false)}
+              onSaved={() => {
+                setAdding(false);
+                onChanged();
+              }}
+            />
+          )}
+
+          {!waitingCount && !showClosed && (
+            <div className="empty-state">No one is on the waiting list.</div>
+          )}
 
           {SCHOOL_ORDER.map(school => {
             const schoolEntries = grouped.get(school) ?? [];
@@ -601,18 +5397,122 @@ function WaitlistPanel({ entries }: { entries: WaitlistEntry[] }) {
             return (
               <div className="waitlist-group" key={school}>
                 <div className="waitlist-group__title">
-                  {SCHOOL_LABELS[school]} <span>{schoolEntries.length}</span>
+                  {SCHOOL_LABELS[school]}{' '}
+                  <span>{schoolEntries.filter(isWaiting).length}</span>
                 </div>
                 {schoolEntries.map(entry => (
-                  <div className="waitlist-entry" key={entry.id}>
-                    <div>
-                      <strong>{entry.studentName}</strong>
+                  <div
+                    className={`waitlist-entry waitlist-entry--${entry.status.toLowerCase()}`}
+                    key={entry.id}
+                  >
+                    <div className="waitlist-entry__main">
+                      <strong>
+                        {entry.position != null && (
+                          <b className="waitlist-entry__position">
+                            #{entry.position}
+                          </b>
+                        )}
+                        {entry.studentName}
+                      </strong>
                       <span>
                         {entry.classroom ? `${entry.classroom} · ` : ''}
-                        {entry.requestedDay}
+                        {entry.requestedDay} · joined{' '}
+                        {formatDatePretty(entry.createdAt)}
                       </span>
+                      <span className="waitlist-entry__status">
+                        {waitlistStatusDetail(entry)}
+                      </span>
+
+                      {notesFor === entry.id ? (
+                        <div className="waitlist-entry__notes-edit">
+                          <textarea
+                            rows={2}
+                            maxLength={1000}
+                            value={notesDraft}
+                            onChange={event =>
+                              setNotesDraft(event.target.value)
+                            }
+                          />
+                          <div>
+                            <button
+                              type="button"
+                              className="secondary-btn"
+                              onClick={() => setNotesFor(null)}
+                            >
+                              Cancel
+                            </button>
+                            <button
+                              type="button"
+                              className="primary-btn"
+                              disabled={busyId !== null}
+                              onClick={() => void saveNotes(entry)}
+                            >
+                              Save notes
+                            </button>
+                          </div>
+                        </div>
+                      ) : (
+                        entry.notes && (
+                          <p className="waitlist-entry__notes">{entry.notes}</p>
+                        )
+                      )}
+                    </div>
+                    <div className="waitlist-entry__actions">
+                      <a href={`mailto:${entry.email}`}>Email</a>
+                      {canEdit && (
+                        <>
+                          {WAITLIST_NEXT_STATUSES[entry.status].length > 0 && (
+                            <select
+                              value=""
+                              disabled={busyId !== null}
+                              aria-label={`Change status for ${entry.studentName}`}
+                              onChange={event =>
+                                void changeStatus(
+                                  entry,
+                                  event.target.value as WaitlistStatus,
+                                )
+                              }
+                            >
+                              <option value="">Status…</option>
+                              {WAITLIST_NEXT_STATUSES[entry.status].map(
+                                status => (
+                                  <option key={status} value={status}>
+                                    {status === entry.status
+                                      ? 'Change the offer deadline'
+                                      : WAITLIST_ACTION_LABELS[status]}
+                                  </option>
+                                ),
+                              )}
+                            </select>
+                          )}
+                          <button
+                            type="button"
+                            className="inline-link-btn"
+                            onClick={() => editNotes(entry)}
+                          >
+                            Notes
+                          </button>
+                          <button
+                            type="button"
+                            className="inline-link-btn"
+                            disabled={busyId !== null}
+                            onClick={() => void remove(entry)}
+                          >
+                            Remove
+                          </button>
+                          {isWaiting(entry) && (
+                            <button
+                              type="button"
+                              className="secondary-btn"
+                              disabled={busyId !== null}
+                              onClick={() => void enroll(entry)}
+                            >
+                              {busyId === entry.id ? 'Saving…' : 'Enroll'}
+                            </button>
+                          )}
+                        </>
+                      )}
                     </div>
-                    <a href={`mailto:${entry.email}`}>Email</a>
                   </div>
                 ))}
               </div>
@@ -625,15 +5525,18 @@ function WaitlistPanel({ entries }: { entries: WaitlistEntry[] }) {
 }
 
 export default function AdminPage() {
-  const [session, setSession] = useState<SessionValue>('FALL_2026');
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [session, setSession] = useState<SessionValue>('');
   const [students, setStudents] = useState<Student[]>([]);
   const [sections, setSections] = useState<SectionMeta[]>([]);
   const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [totals, setTotals] = useState<SessionTotals | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [globalSearch, setGlobalSearch] = useState('');
   const [globalSearchFocused, setGlobalSearchFocused] = useState(false);
   const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+  const [currentUser, setCurrentUser] = useState<AdminUser | null>(null);
 
   const goToStudent = (student: Student) => {
     setSelectedStudentId(student.id);
@@ -653,17 +5556,27 @@ export default function AdminPage() {
     setError('');
 
     try {
-      const [studentsResponse, sectionsResponse, waitlistResponse] =
-        await Promise.all([
-          axios.get<Student[]>(`/api/admin/students?session=${session}`),
-          axios.get<SectionMeta[]>(`/api/admin/sections?session=${session}`),
-          axios.get<WaitlistEntry[]>(`/api/admin/waitlist?session=${session}`),
-        ]);
+      const [
+        studentsResponse,
+        sectionsResponse,
+        waitlistResponse,
+        totalsResponse,
+      ] = await Promise.all([
+        axios.get<Student[]>(`/api/admin/students?session=${session}`),
+        axios.get<SectionMeta[]>(`/api/admin/sections?session=${session}`),
+        axios.get<WaitlistEntry[]>(`/api/admin/waitlist?session=${session}`),
+        axios.get<SessionTotals>(`/api/admin/totals?session=${session}`),
+      ]);
 
       setStudents(studentsResponse.data ?? []);
       setSections(sectionsResponse.data ?? []);
       setWaitlist(waitlistResponse.data ?? []);
+      setTotals(totalsResponse.data ?? null);
     } catch (err) {
+      if (isUnauthorized(err)) {
+        redirectToLogin();
+        return;
+      }
       console.error(err);
       setError('Could not load the registrations.');
     } finally {
@@ -672,9 +5585,104 @@ export default function AdminPage() {
   };
 
   useEffect(() => {
+    if (!session) return;
     void loadData();
   }, [session]);
 
+  useEffect(() => {
+    axios
+      .get<Term[]>('/api/admin/terms')
+      .then(response => {
+        const list = response.data ?? [];
+        setTerms(list);
+
+        const initial = list.find(term => term.isCurrent) ?? list[0];
+        if (initial) {
+          setSession(initial.code);
+        } else {
+          setError('No school terms are set up yet.');
+          setLoading(false);
+        }
+      })
+      .catch(err => {
+        if (isUnauthorized(err)) {
+          redirectToLogin();
+          return;
+        }
+        console.error(err);
+        setError('Could not load the school terms.');
+        setLoading(false);
+      });
+  }, []);
+
+  useEffect(() => {
+    axios
+      .get<AdminUser>('/api/auth/me')
+      .then(response => setCurrentUser(response.data))
+      .catch(err => {
+        if (isUnauthorized(err)) redirectToLogin();
+      });
+  }, []);
+
+  const [exporting, setExporting] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [rolloverOpen, setRolloverOpen] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [remindersOpen, setRemindersOpen] = useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [discountsOpen, setDiscountsOpen] = useState(false);
+
+  const importKinds: ImportKind[] = [];
+  if (
+    currentUser?.permissions.editRecords &&
+    currentUser.permissions.manageEnrollments
+  ) {
+    importKinds.push('students');
+  }
+  if (currentUser?.permissions.manageSections) importKinds.push('sections');
+
+  const exportWorkbook = async () => {
+    setExporting(true);
+    try {
+      const response = await axios.get<Blob>(
+        `/api/admin/export?session=${session}`,
+        { responseType: 'blob' },
+      );
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `baila-kids-${session.toLowerCase().replace(/_/g, '-')}.xlsx`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      if (isUnauthorized(err)) {
+        redirectToLogin();
+        return;
+      }
+      console.error(err);
+      setError('Could not build the Excel export.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const logout = async () => {
+    await axios.post('/api/auth/logout');
+    window.location.href = '/login';
+  };
+
+  // Balances depend on payment status, so re-read them after an edit
+  // instead of recomputing on the client.
+  const refreshBalances = async () => {
+    const [studentsResponse, totalsResponse] = await Promise.all([
+      axios.get<Student[]>(`/api/admin/students?session=${session}`),
+      axios.get<SessionTotals>(`/api/admin/totals?session=${session}`),
+    ]);
+
+    setStudents(studentsResponse.data ?? []);
+    setTotals(totalsResponse.data ?? null);
+  };
+
   const handleStatusUpdate = async (
     id: string,
     paymentStatus: PaymentStatus,
@@ -685,6 +5693,24 @@ export default function AdminPage() {
         student.id === id ? { ...student, paymentStatus } : student,
       ),
     );
+    await refreshBalances();
+  };
+
+  const handleStudentUpdate = async (
+    id: string,
+    patch: Partial<StudentEdit>,
+  ) => {
+    const response = await axios.put<{ student: Partial<Student> }>(
+      '/api/admin/students',
+      { id, ...patch },
+    );
+    setStudents(current =>
+      current.map(student =>
+        student.id === id ? { ...student, ...response.data.student } : student,
+      ),
+    );
+    // a new family can move the sibling discount too
+    await refreshBalances();
   };
 
   const searchResults = useMemo(() => {
@@ -715,35 +5741,19 @@ export default function AdminPage() {
     () =>
       SCHOOL_ORDER.filter(
         school =>
-          sections.some(section => section.school === school) ||
-          students.some(student => student.school === school),
+          (!currentUser?.schools || currentUser.schools.includes(school)) &&
+          (sections.some(section => section.school === school) ||
+            students.some(student => student.school === school)),
       ),
-    [sections, students],
+    [sections, students, currentUser],
   );
 
-  const stats = useMemo(() => {
-    const totalStudents = students.length;
-    const totalRegistrations = students.reduce(
-      (total, student) => total + Math.max(student.selectedDays.length, 1),
-      0,
-    );
-
-    let collected = 0;
-    let outstanding = 0;
-
-    for (const student of students) {
-      const tuition = tuitionCentsFor(student, sections);
-      if (student.paymentStatus === 'PAID') collected += tuition;
-      else outstanding += tuition;
-    }
-
-    return {
-      totalStudents,
-      totalRegistrations,
-      collected,
-      outstanding,
-    };
-  }, [students, sections]);
+  const stats = {
+    totalStudents: totals?.totals.students ?? 0,
+    totalRegistrations: totals?.totals.registrations ?? 0,
+    collected: totals?.totals.paidCents ?? 0,
+    outstanding: totals?.totals.owedCents ?? 0,
+  };
 
   return (
     <main className="admin-page">
@@ -754,19 +5764,100 @@ export default function AdminPage() {
             <h1>Admin Dashboard</h1>
           </div>
 
-          <div className="session-control">
-            <label htmlFor="session">School term</label>
-            <select
-              id="session"
-              value={session}
-              onChange={event =>
-                setSession(event.target.value as SessionValue)
-              }
+          <div className="session-actions">
+            <div className="session-control">
+              <label htmlFor="session">School term</label>
+              <select
+                id="session"
+                value={session}
+                onChange={event => setSession(event.target.value)}
+                disabled={!terms.length}
+              >
+                {terms.map(term => (
+                  <option key={term.code} value={term.code}>
+                    {term.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => void exportWorkbook()}
+              disabled={exporting}
             >
-              <option value="FALL_2026">Fall 2026</option>
-              <option value="SPRING_2026">Spring 2026</option>
-              <option value="FALL_2025">Fall 2025</option>
-            </select>
+              {exporting ? 'Exporting…' : 'Export to Excel'}
+            </button>
+
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => setCalendarOpen(true)}
+              disabled={!session}
+            >
+              Calendar
+            </button>
+
+            {importKinds.length > 0 && (
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => setImportOpen(true)}
+              >
+                Import
+              </button>
+            )}
+
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => setDuplicatesOpen(true)}
+              disabled={!session}
+            >
+              Duplicates
+            </button>
+
+            {currentUser?.permissions.sendEmail && (
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => setRemindersOpen(true)}
+              >
+                Payment reminders
+              </button>
+            )}
+
+            {currentUser?.permissions.editPayments && (
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => setDiscountsOpen(true)}
+              >
+                Discounts
+              </button>
+            )}
+
+            {currentUser?.permissions.manageSections && terms.length > 1 && (
+              <button
+                type="button"
+                className="secondary-btn"
+                onClick={() => setRolloverOpen(true)}
+              >
+                Roll over term
+              </button>
+            )}
+
+            {currentUser && (
+              <span className="signed-in-as">{currentUser.name}</span>
+            )}
+            <button
+              type="button"
+              className="secondary-btn"
+              onClick={() => void logout()}
+            >
+              Sign out
+            </button>
           </div>
         </header>
 
@@ -774,7 +5865,9 @@ export default function AdminPage() {
           <div className="stat-card">
             <span>Kids registered</span>
             <strong>{stats.totalStudents}</strong>
-            <small>{SESSION_LABELS[session]}</small>
+            <small>
+              {terms.find(term => term.code === session)?.label ?? session}
+            </small>
           </div>
           <div className="stat-card">
             <span>Class registrations</span>
@@ -784,16 +5877,16 @@ export default function AdminPage() {
           <div className="stat-card stat-card--money">
             <span>Payments received</span>
             <strong>{money(stats.collected)}</strong>
-            <small>Paid registrations</small>
+            <small>Recorded payments, net of refunds</small>
           </div>
           <div className="stat-card stat-card--due">
             <span>Payments due</span>
             <strong>{money(stats.outstanding)}</strong>
-            <small>Pending + failed</small>
+            <small>Tuition not yet paid</small>
           </div>
           <div className="stat-card">
             <span>Waiting list</span>
-            <strong>{waitlist.length}</strong>
+            <strong>{waitlist.filter(isWaiting).length}</strong>
             <small>Waiting for a spot</small>
           </div>
         </section>
@@ -871,6 +5964,12 @@ export default function AdminPage() {
 
         {error && <div className="error-banner">{error}</div>}
 
+        <CapacityAlerts
+          session={session}
+          sections={sections}
+          canEdit={currentUser?.permissions.manageSections ?? false}
+        />
+
         {loading && !students.length ? (
           <div className="loading-card">Loading registrations…</div>
         ) : (
@@ -883,7 +5982,25 @@ export default function AdminPage() {
                   student => student.school === school,
                 )}
                 sections={sections}
+                session={session}
+                totals={totals?.schools.find(row => row.school === school)}
                 onStatusUpdate={handleStatusUpdate}
+                onStudentUpdate={handleStudentUpdate}
+                onDataChanged={() => void loadData()}
+                canEditPayments={currentUser?.permissions.editPayments ?? false}
+                canEditRecords={currentUser?.permissions.editRecords ?? false}
+                canManageSections={currentUser?.permissions.manageSections ?? false}
+                canManageEnrollments={
+                  currentUser?.permissions.manageEnrollments ?? false
+                }
+                canOverrideCapacity={
+                  currentUser?.permissions.overrideCapacity ?? false
+                }
+                canRecordAttendance={
+                  currentUser?.permissions.recordAttendance ?? false
+                }
+                canSendEmail={currentUser?.permissions.sendEmail ?? false}
+                canSendSms={currentUser?.permissions.sendSms ?? false}
                 selectedStudentId={selectedStudentId}
               />
             ))}
@@ -894,8 +6011,83 @@ export default function AdminPage() {
           </div>
         )}
 
-        <WaitlistPanel entries={waitlist} />
+        <WaitlistPanel
+          entries={waitlist}
+          session={session}
+          schools={currentUser?.schools ?? undefined}
+          onChanged={() => void loadData()}
+          canEdit={currentUser?.permissions.manageEnrollments ?? false}
+          canOverrideCapacity={
+            currentUser?.permissions.overrideCapacity ?? false
+          }
+        />
       </div>
+
+      {importOpen && (
+        <ImportDialog
+          session={session}
+          kinds={importKinds}
+          onClose={() => setImportOpen(false)}
+          onImported={() => void loadData()}
+        />
+      )}
+
+      {calendarOpen && (
+        <CalendarView
+          session={session}
+          termLabel={
+            terms.find(term => term.code === session)?.label ?? session
+          }
+          schools={SCHOOL_ORDER.filter(
+            school =>
+              !currentUser?.schools || currentUser.schools.includes(school),
+          )}
+          canManage={currentUser?.permissions.manageSections ?? false}
+          onClose={() => setCalendarOpen(false)}
+        />
+      )}
+
+      {remindersOpen && (
+        <ReminderSettingsDialog
+          onClose={() => setRemindersOpen(false)}
+          onSent={() => void loadData()}
+        />
+      )}
+
+      {discountsOpen && (
+        <DiscountsDialog
+          onClose={() => setDiscountsOpen(false)}
+          onChanged={() => void loadData()}
+        />
+      )}
+
+      {duplicatesOpen && (
+        <DuplicatesDialog
+          session={session}
+          termLabel={
+            terms.find(term => term.code === session)?.label ?? session
+          }
+          canMerge={
+            (currentUser?.permissions.editRecords &&
+              currentUser.permissions.manageEnrollments) ??
+            false
+          }
+          onClose={() => setDuplicatesOpen(false)}
+          onMerged={() => void loadData()}
+        />
+      )}
+
+      {rolloverOpen && (
+        <RolloverDialog
+          terms={terms}
+          session={session}
+          onClose={() => setRolloverOpen(false)}
+          onRolledOver={to => {
+            if (to === session) void loadData();
+            else setSession(to);
+          }}
+        />
+      )}
     </main>
   );
 }
\ No newline at end of file
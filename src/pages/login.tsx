@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import axios from 'axios';
+import { useRouter } from 'next/router';
+
+function safeNextPath(value: unknown) {
+  if (typeof value !== 'string') return '/';
+  // Only allow same-site relative paths.
+  if (!value.startsWith('/') || value.startsWith('//')) return '/';
+  return value;
+}
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError('');
+
+    try {
+      await axios.post('/api/auth/login', { email, password });
+      await router.replace(safeNextPath(router.query.next));
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.status === 401) {
+        setError('Wrong email or password.');
+      } else {
+        console.error(err);
+        setError('Could not sign in. Please try again.');
+      }
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="admin-page">
+      <div className="login-shell">
+        <header className="admin-hero">
+          <div>
+            <span className="eyebrow">Baila Kids</span>
+            <h1>Admin sign in</h1>
+          </div>
+        </header>
+
+        <form className="login-card" onSubmit={submit}>
+          {error && <div className="error-banner">{error}</div>}
+
+          <label htmlFor="login-email">Email</label>
+          <input
+            id="login-email"
+            type="email"
+            autoComplete="username"
+            value={email}
+            onChange={event => setEmail(event.target.value)}
+            required
+          />
+
+          <label htmlFor="login-password">Password</label>
+          <input
+            id="login-password"
+            type="password"
+            autoComplete="current-password"
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+            required
+          />
+
+          <button
+            type="submit"
+            className="primary-btn"
+            disabled={submitting || !email || !password}
+          >
+            {submitting ? 'Signing in…' : 'Sign in'}
+          </button>
+        </form>
+      </div>
+    </main>
+  );
+}